@@ -0,0 +1,135 @@
+import { useCallback, useEffect, useMemo, useRef, useState, type ReactNode } from "react"
+import { AlertEngineContext, type AlertEngineState } from "@/hooks/use-alert-engine"
+import { useFirestore } from "@/hooks/use-firestore"
+import { useDevices } from "@/hooks/use-devices"
+import { useAlertRules, useOpenAlerts } from "@/hooks/use-alerts"
+import { useLatestReadings } from "@/hooks/use-readings"
+import { useLeaderElection } from "@/hooks/use-leader-election"
+import { AlertEngine } from "@/lib/alert-engine"
+import { ruleAppliesToDevice } from "@/lib/alert-rules"
+import { convertDocuments, sensorReadingConverter } from "@/lib/converters"
+
+// Cada cuánto se evalúan todas las reglas aunque no lleguen lecturas (necesario para "sin lecturas")
+const ALERT_EVALUATION_INTERVAL_MS = 60000
+const NO_DEVICES: string[] = []
+
+export type AlertEngineProviderProps = {
+  children: ReactNode
+}
+
+// Ejecuta el motor de alertas en el navegador: evalúa las reglas de un dispositivo cada vez que llega
+// una lectura nueva y todas las reglas periódicamente, y escribe los disparos en la colección alerts.
+// Solo lo ejecuta una pestaña del navegador (la elegida con useLeaderElection); la transacción de
+// createAlert evita duplicados si lo ejecutan a la vez varios navegadores.
+export const AlertEngineProvider = ({ children }: AlertEngineProviderProps) => {
+  const firestore = useFirestore()
+  // Las operaciones del contexto pueden cambiar de identidad entre renders; el motor usa siempre las últimas
+  const firestoreRef = useRef(firestore)
+
+  useEffect(() => {
+    firestoreRef.current = firestore
+  }, [firestore])
+
+  const [engine] = useState(() => new AlertEngine({
+    getReadings: async (deviceId, after) => {
+      const { getDocuments, whereQuery, orderByQuery } = firestoreRef.current
+      const documents = await getDocuments(`devices/${deviceId}/readings`, [
+        whereQuery('ts', '>', after),
+        orderByQuery('ts', 'asc'),
+      ])
+      return convertDocuments(documents, sensorReadingConverter).data
+    },
+    getLastReadingAt: async (deviceId) => {
+      const { getDocuments, orderByQuery, limitQuery } = firestoreRef.current
+      const documents = await getDocuments(`devices/${deviceId}/readings`, [orderByQuery('ts', 'desc'), limitQuery(1)])
+      return convertDocuments(documents, sensorReadingConverter).data[0]?.ts ?? null
+    },
+    // alertLocks/{ruleId}_{deviceId} guarda la última alerta de la regla en el dispositivo. Como las
+    // transacciones no admiten consultas, es el documento que se lee para saber si hay una abierta
+    createAlert: async (alert) => {
+      const lockId = `${alert.ruleId}_${alert.deviceId}`
+      await firestoreRef.current.runTransaction(async (transaction) => {
+        const lock = await transaction.get('alertLocks', lockId)
+        const previous = typeof lock?.alertId === 'string' ? await transaction.get('alerts', lock.alertId) : null
+        if (previous && previous.status !== 'resolved') return
+
+        const alertId = `${lockId}_${Date.now()}`
+        transaction.set('alerts', alertId, alert)
+        transaction.set('alertLocks', lockId, { alertId })
+      })
+    },
+  }))
+
+  // Con la fuente en memoria cada pestaña tiene sus propios datos y ejecuta su motor
+  const active = useLeaderElection('alert-engine', firestore.dataSource !== 'memory')
+
+  const { data: rules, loading: rulesLoading } = useAlertRules()
+  const { data: devices, loading: devicesLoading } = useDevices()
+  const { data: openAlerts, loading: openAlertsLoading } = useOpenAlerts()
+  // Sin las alertas abiertas cargadas se podrían duplicar disparos
+  const ready = active && !rulesLoading && !devicesLoading && !openAlertsLoading
+
+  const watchedKey = devices
+    .filter(device => rules.some(rule => rule.enabled && ruleAppliesToDevice(rule, device)))
+    .map(device => device.id)
+    .join(',')
+  const watchedDeviceIds = useMemo(() => (watchedKey ? watchedKey.split(',') : []), [watchedKey])
+
+  // Última lectura de cada dispositivo vigilado, de las suscripciones compartidas con el resto de vistas
+  const latestReadings = useLatestReadings(active ? watchedDeviceIds : NO_DEVICES)
+
+  useEffect(() => {
+    engine.update({ rules, devices, openAlerts, latestReadings })
+  }, [engine, rules, devices, openAlerts, latestReadings])
+
+  // Instante de la última lectura evaluada por dispositivo: cada lectura nueva dispara su evaluación
+  const evaluatedRef = useRef(new Map<string, number | null>())
+
+  useEffect(() => {
+    if (!ready) return
+
+    Object.entries(latestReadings).forEach(([deviceId, reading]) => {
+      const ts = reading?.ts.getTime() ?? null
+      if (evaluatedRef.current.has(deviceId) && evaluatedRef.current.get(deviceId) === ts) return
+
+      evaluatedRef.current.set(deviceId, ts)
+      engine.evaluateDevice(deviceId)
+    })
+  }, [engine, ready, latestReadings])
+
+  const [evaluating, setEvaluating] = useState(false)
+  const [lastEvaluation, setLastEvaluation] = useState<Date | null>(null)
+
+  const evaluateNow = useCallback(async () => {
+    if (!active) return
+
+    setEvaluating(true)
+    try {
+      await engine.evaluateAll()
+      setLastEvaluation(new Date())
+    } finally {
+      setEvaluating(false)
+    }
+  }, [engine, active])
+
+  useEffect(() => {
+    if (!ready) return
+
+    const timer = setInterval(evaluateNow, ALERT_EVALUATION_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [ready, evaluateNow])
+
+  const value = useMemo<AlertEngineState>(() => ({
+    active,
+    watchedDevices: watchedDeviceIds.length,
+    evaluating,
+    lastEvaluation,
+    evaluateNow,
+  }), [active, watchedDeviceIds.length, evaluating, lastEvaluation, evaluateNow])
+
+  return (
+    <AlertEngineContext.Provider value={value}>
+      {children}
+    </AlertEngineContext.Provider>
+  )
+}
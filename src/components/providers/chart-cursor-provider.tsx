@@ -0,0 +1,16 @@
+import { useState, type ReactNode } from "react"
+import { ChartCursorContext, createChartCursorStore } from "@/hooks/use-chart-cursor"
+
+export type ChartCursorProviderProps = {
+  children: ReactNode
+}
+
+export const ChartCursorProvider = ({ children }: ChartCursorProviderProps) => {
+  const [store] = useState(createChartCursorStore)
+
+  return (
+    <ChartCursorContext.Provider value={store}>
+      {children}
+    </ChartCursorContext.Provider>
+  )
+}
@@ -0,0 +1,98 @@
+import { useEffect, useMemo, useRef, type ReactNode } from "react"
+import { DeviceStatusContext, type DeviceStatusInfo, type DeviceStatusState } from "@/hooks/use-device-status"
+import { useFirestore } from "@/hooks/use-firestore"
+import { useLeaderElection } from "@/hooks/use-leader-election"
+import { useDeviceGroups, useDevices } from "@/hooks/use-devices"
+import { useNow } from "@/hooks/use-now"
+import { useLatestReadings } from "@/hooks/use-readings"
+import { getDeviceStatus, getExpectedIntervalMs } from "@/lib/device-status"
+import type { DeviceStatus } from "@/types/models/device-status"
+
+// Cada cuánto se recalcula el estado aunque no lleguen lecturas nuevas
+const STATUS_TICK_MS = 15000
+
+export type DeviceStatusProviderProps = {
+  children: ReactNode
+}
+
+// Calcula el estado de conectividad de todos los dispositivos a partir de su última lectura y registra
+// cada cambio en devices/{id}/statusHistory (y el estado actual en el propio dispositivo). Todas las
+// pestañas calculan el estado, pero solo escribe la elegida con useLeaderElection; la transacción evita
+// duplicados si escriben a la vez varios navegadores.
+export const DeviceStatusProvider = ({ children }: DeviceStatusProviderProps) => {
+  const firestore = useFirestore()
+  const writer = useLeaderElection('device-status', firestore.dataSource !== 'memory')
+  const firestoreRef = useRef(firestore)
+
+  useEffect(() => {
+    firestoreRef.current = firestore
+  }, [firestore])
+
+  const { data: devices, loading: devicesLoading } = useDevices()
+  const { data: groups, loading: groupsLoading } = useDeviceGroups()
+  const now = useNow(STATUS_TICK_MS)
+
+  // Última lectura por dispositivo (suscripciones compartidas): null si no tiene, ausente mientras carga
+  const deviceKey = devices.map(device => device.id).join(',')
+  const deviceIds = useMemo(() => (deviceKey ? deviceKey.split(',') : []), [deviceKey])
+  const lastReadings = useLatestReadings(deviceIds)
+
+  const statuses = useMemo(() => {
+    const entries = devices.map((device): [string, DeviceStatusInfo] => {
+      const lastReading = lastReadings[device.id] ?? null
+      const lastActive = lastReading?.ts ?? device.lastActive ?? null
+      const expectedIntervalMs = getExpectedIntervalMs(device, groups)
+      return [device.id, {
+        status: getDeviceStatus(lastActive, expectedIntervalMs, now),
+        lastActive,
+        lastReading,
+        loading: !(device.id in lastReadings),
+        expectedIntervalMs,
+      }]
+    })
+    return Object.fromEntries(entries)
+  }, [devices, groups, lastReadings, now])
+
+  // Último estado escrito por dispositivo, para no repetir la escritura mientras llega la del dispositivo
+  const recordedRef = useRef(new Map<string, DeviceStatus>())
+
+  useEffect(() => {
+    // Con los grupos o la última lectura sin cargar el estado podría ser provisional
+    if (!writer || devicesLoading || groupsLoading) return
+
+    devices.forEach(device => {
+      const info = statuses[device.id]
+      // Los dispositivos dados de baja dejan de registrar cambios
+      if (device.decommissionedAt || !(device.id in lastReadings) || !info || info.status === device.status) return
+      if (recordedRef.current.get(device.id) === info.status) return
+
+      recordedRef.current.set(device.id, info.status)
+      const { runTransaction } = firestoreRef.current
+      // El estado guardado se comprueba dentro de la transacción: si otra pestaña ya registró el cambio no se repite
+      runTransaction(async (transaction) => {
+        const current = await transaction.get('devices', device.id)
+        if (!current || current.status === info.status) return
+
+        // Id derivado del cambio (misma última lectura y mismo estado nuevo): dos registros del mismo cambio coinciden
+        transaction.set(`devices/${device.id}/statusHistory`, `${info.lastActive?.getTime() ?? 0}-${info.status}`, {
+          status: info.status,
+          previousStatus: current.status ?? null,
+          lastActive: info.lastActive,
+        })
+        // Estado derivado: sin updatedAt, que queda para las ediciones del dispositivo
+        transaction.update('devices', device.id, { status: info.status, statusChangedAt: new Date() }, { touch: false })
+      }).catch(error => {
+        recordedRef.current.delete(device.id)
+        console.error(`Error al registrar el estado de ${device.id}:`, error)
+      })
+    })
+  }, [writer, devices, devicesLoading, groupsLoading, lastReadings, statuses])
+
+  const value = useMemo<DeviceStatusState>(() => ({ statuses }), [statuses])
+
+  return (
+    <DeviceStatusContext.Provider value={value}>
+      {children}
+    </DeviceStatusContext.Provider>
+  )
+}
@@ -3,27 +3,66 @@ import {
   collection,
   doc,
   addDoc,
+  setDoc,
   updateDoc,
+  arrayUnion,
   deleteDoc,
+  writeBatch as createWriteBatch,
+  runTransaction as runFirestoreTransaction,
   getDocs,
   getDoc,
   query,
   where,
   orderBy,
   limit,
+  limitToLast,
+  startAfter,
+  startAt,
+  endBefore,
+  getCountFromServer,
   QueryConstraint,
   onSnapshot,
+  type QueryDocumentSnapshot,
   type DocumentData,
+  type Firestore,
   type WhereFilterOp
 } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
-import {FirestoreContext, type FirestoreContextType} from "@/hooks/use-firestore.ts";
+import { dataSourceConfig } from '@/lib/data-source';
+import { describeConstraint } from '@/lib/query-constraints';
+import { invalidateReadingsCache } from '@/lib/readings-cache';
+import {
+  FirestoreContext,
+  chunkBatchOperations,
+  createPageCursors,
+  withUpdatedAt,
+  type BatchOperation,
+  type FirestoreContextType,
+  type FirestoreTransaction,
+  type PageOptions,
+  type WriteBatchOptions
+} from "@/hooks/use-firestore.ts";
+import { MemoryFirestoreProvider } from '@/components/providers/memory-firestore-provider';
+
+// Los cursores de página envuelven el snapshot del documento
+const pageCursors = createPageCursors<QueryDocumentSnapshot>();
 
 interface FirestoreProviderProps {
   children: ReactNode;
 }
 
+// Elige la implementación según la fuente de datos configurada (ver @/lib/data-source)
 export const FirestoreProvider: FC<FirestoreProviderProps> = ({ children }) => {
+  // db solo es null con la fuente de datos en memoria
+  if (!db) {
+    return <MemoryFirestoreProvider>{children}</MemoryFirestoreProvider>;
+  }
+
+  return <SdkFirestoreProvider db={db}>{children}</SdkFirestoreProvider>;
+};
+
+// Implementación sobre el SDK de Firestore (proyecto real o emulador)
+const SdkFirestoreProvider: FC<FirestoreProviderProps & { db: Firestore }> = ({ children, db }) => {
   // Collection operations
   const getCollection = (collectionName: string) => {
     return collection(db, collectionName);
@@ -73,6 +112,7 @@ export const FirestoreProvider: FC<FirestoreProviderProps> = ({ children }) => {
         createdAt: new Date(),
         updatedAt: new Date()
       });
+      invalidateReadingsCache([collectionName]);
       return docRef.id;
     } catch (error) {
       console.error(`Error adding document to ${collectionName}:`, error);
@@ -80,6 +120,20 @@ export const FirestoreProvider: FC<FirestoreProviderProps> = ({ children }) => {
     }
   };
 
+  const setDocument = async (collectionName: string, docId: string, data: DocumentData) => {
+    try {
+      await setDoc(doc(db, collectionName, docId), {
+        ...data,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      });
+      invalidateReadingsCache([collectionName]);
+    } catch (error) {
+      console.error(`Error setting document ${docId} in ${collectionName}:`, error);
+      throw error;
+    }
+  };
+
   const updateDocument = async (collectionName: string, docId: string, data: Partial<DocumentData>) => {
     try {
       const docRef = doc(db, collectionName, docId);
@@ -87,6 +141,21 @@ export const FirestoreProvider: FC<FirestoreProviderProps> = ({ children }) => {
         ...data,
         updatedAt: new Date()
       });
+      invalidateReadingsCache([collectionName]);
+    } catch (error) {
+      console.error(`Error updating document ${docId} in ${collectionName}:`, error);
+      throw error;
+    }
+  };
+
+  const appendToArray = async (collectionName: string, docId: string, field: string, values: unknown[]) => {
+    try {
+      const docRef = doc(db, collectionName, docId);
+      await updateDoc(docRef, {
+        [field]: arrayUnion(...values),
+        updatedAt: new Date()
+      });
+      invalidateReadingsCache([collectionName]);
     } catch (error) {
       console.error(`Error updating document ${docId} in ${collectionName}:`, error);
       throw error;
@@ -97,17 +166,79 @@ export const FirestoreProvider: FC<FirestoreProviderProps> = ({ children }) => {
     try {
       const docRef = doc(db, collectionName, docId);
       await deleteDoc(docRef);
+      invalidateReadingsCache([collectionName]);
     } catch (error) {
       console.error(`Error deleting document ${docId} from ${collectionName}:`, error);
       throw error;
     }
   };
 
+  // Batched writes and transactions
+  const writeBatch = async (operations: BatchOperation[], { onProgress }: WriteBatchOptions = {}) => {
+    let committed = 0;
+    for (const chunk of chunkBatchOperations(operations)) {
+      try {
+        const batch = createWriteBatch(db);
+        chunk.forEach(operation => {
+          const docRef = doc(db, operation.collection, operation.docId);
+          if (operation.type === 'set') {
+            batch.set(docRef, { ...operation.data, createdAt: new Date(), updatedAt: new Date() });
+          } else if (operation.type === 'update') {
+            batch.update(docRef, withUpdatedAt(operation.data, operation));
+          } else {
+            batch.delete(docRef);
+          }
+        });
+        await batch.commit();
+        invalidateReadingsCache(chunk.map(operation => operation.collection));
+      } catch (error) {
+        console.error(`Error committing batch (${committed} of ${operations.length} operations committed):`, error);
+        throw error;
+      }
+      committed += chunk.length;
+      onProgress?.({ committed, total: operations.length });
+    }
+  };
+
+  const runTransaction = async <T,>(updateFn: (transaction: FirestoreTransaction) => Promise<T>) => {
+    // Colecciones escritas en el último intento (la transacción puede reintentarse)
+    let written = new Set<string>();
+    try {
+      const result = await runFirestoreTransaction(db, (tx) => {
+        written = new Set();
+        return updateFn({
+          get: async (collectionName, docId) => {
+            const docSnap = await tx.get(doc(db, collectionName, docId));
+            return docSnap.exists() ? { id: docSnap.id, ...docSnap.data() } : null;
+          },
+          set: (collectionName, docId, data) => {
+            written.add(collectionName);
+            tx.set(doc(db, collectionName, docId), { ...data, createdAt: new Date(), updatedAt: new Date() });
+          },
+          update: (collectionName, docId, data, options) => {
+            written.add(collectionName);
+            tx.update(doc(db, collectionName, docId), withUpdatedAt(data, options));
+          },
+          delete: (collectionName, docId) => {
+            written.add(collectionName);
+            tx.delete(doc(db, collectionName, docId));
+          },
+        });
+      });
+      invalidateReadingsCache(written);
+      return result;
+    } catch (error) {
+      console.error('Error running transaction:', error);
+      throw error;
+    }
+  };
+
   // Real-time subscriptions
   const subscribeToCollection = (
     collectionName: string,
     callback: (data: DocumentData[]) => void,
-    constraints: QueryConstraint[] = []
+    constraints: QueryConstraint[] = [],
+    onError?: (error: Error) => void
   ) => {
     const collectionRef = collection(db, collectionName);
     const q = constraints.length > 0 ? query(collectionRef, ...constraints) : collectionRef;
@@ -120,13 +251,15 @@ export const FirestoreProvider: FC<FirestoreProviderProps> = ({ children }) => {
       callback(data);
     }, (error) => {
       console.error(`Error in subscription to ${collectionName}:`, error);
+      onError?.(error);
     });
   };
 
   const subscribeToDocument = (
     collectionName: string,
     docId: string,
-    callback: (data: DocumentData | null) => void
+    callback: (data: DocumentData | null) => void,
+    onError?: (error: Error) => void
   ) => {
     const docRef = doc(db, collectionName, docId);
 
@@ -141,6 +274,7 @@ export const FirestoreProvider: FC<FirestoreProviderProps> = ({ children }) => {
       }
     }, (error) => {
       console.error(`Error in subscription to document ${docId} in ${collectionName}:`, error);
+      onError?.(error);
     });
   };
 
@@ -150,31 +284,91 @@ export const FirestoreProvider: FC<FirestoreProviderProps> = ({ children }) => {
   };
 
   const whereQuery = (field: string, operator: WhereFilterOp, value: unknown) => {
-    return where(field, operator, value);
+    return describeConstraint(where(field, operator, value), { type: 'where', field, op: operator, value });
   };
 
   const orderByQuery = (field: string, direction: 'asc' | 'desc' = 'asc') => {
-    return orderBy(field, direction);
+    return describeConstraint(orderBy(field, direction), { type: 'orderBy', field, direction });
   };
 
   const limitQuery = (limitValue: number) => {
-    return limit(limitValue);
+    return describeConstraint(limit(limitValue), { type: 'limit', limit: limitValue });
+  };
+
+  const startAfterQuery = (...fieldValues: unknown[]) => {
+    return describeConstraint(startAfter(...fieldValues), { type: 'startAfter', values: fieldValues });
+  };
+
+  // Pagination
+  const getPage = async (
+    collectionName: string,
+    constraints: QueryConstraint[],
+    { pageSize, cursor, direction = 'next', inclusive = false }: PageOptions
+  ) => {
+    try {
+      const collectionRef = collection(db, collectionName);
+      const cursorSnapshot = pageCursors.unwrap(cursor);
+
+      // Se pide un documento extra para saber si hay más páginas en esa dirección
+      const pageConstraints = direction === 'previous'
+        ? [...(cursorSnapshot ? [endBefore(cursorSnapshot)] : []), limitToLast(pageSize + 1)]
+        : [...(cursorSnapshot ? [inclusive ? startAt(cursorSnapshot) : startAfter(cursorSnapshot)] : []), limit(pageSize + 1)];
+
+      const querySnapshot = await getDocs(query(collectionRef, ...constraints, ...pageConstraints));
+      const hasMore = querySnapshot.docs.length > pageSize;
+      const snapshots = direction === 'previous'
+        ? querySnapshot.docs.slice(hasMore ? 1 : 0)
+        : querySnapshot.docs.slice(0, pageSize);
+
+      return {
+        docs: snapshots.map(doc => ({
+          id: doc.id,
+          ...doc.data()
+        })),
+        startCursor: pageCursors.wrap(snapshots[0]),
+        endCursor: pageCursors.wrap(snapshots[snapshots.length - 1]),
+        hasMore,
+      };
+    } catch (error) {
+      console.error(`Error getting page from ${collectionName}:`, error);
+      throw error;
+    }
+  };
+
+  const countDocuments = async (collectionName: string, constraints: QueryConstraint[] = []) => {
+    try {
+      const collectionRef = collection(db, collectionName);
+      const q = constraints.length > 0 ? query(collectionRef, ...constraints) : collectionRef;
+      const snapshot = await getCountFromServer(q);
+      return snapshot.data().count;
+    } catch (error) {
+      console.error(`Error counting documents in ${collectionName}:`, error);
+      throw error;
+    }
   };
 
   const contextValue: FirestoreContextType = {
     db,
+    dataSource: dataSourceConfig.kind,
     getCollection,
     getDocuments,
     getDocument,
     addDocument,
+    setDocument,
     updateDocument,
+    appendToArray,
     deleteDocument,
+    writeBatch,
+    runTransaction,
     subscribeToCollection,
     subscribeToDocument,
     createQuery,
     whereQuery,
     orderByQuery,
     limitQuery,
+    startAfterQuery,
+    getPage,
+    countDocuments,
   };
 
   return (
@@ -0,0 +1,242 @@
+import { useMemo, type ReactNode, type FC } from 'react';
+import {
+  where,
+  orderBy,
+  limit,
+  startAfter,
+  QueryConstraint,
+  type DocumentData,
+  type WhereFilterOp
+} from 'firebase/firestore';
+import { getMemoryStore, type MemoryCursor, type MemoryWrite } from '@/lib/memory-store';
+import { describeConstraint, getConstraintDescriptor } from '@/lib/query-constraints';
+import {
+  FirestoreContext,
+  chunkBatchOperations,
+  createPageCursors,
+  withUpdatedAt,
+  type BatchOperation,
+  type FirestoreContextType,
+  type FirestoreTransaction,
+  type PageOptions,
+  type WriteBatchOptions
+} from "@/hooks/use-firestore.ts";
+
+// Los cursores de página envuelven el cursor interno del MemoryStore
+const pageCursors = createPageCursors<MemoryCursor>();
+
+interface MemoryFirestoreProviderProps {
+  children: ReactNode;
+}
+
+// Implementación en memoria de FirestoreContextType, sin red ni proyecto de Firebase.
+// Las constraints se siguen creando con el SDK (son objetos puros) y se interpretan por su descriptor.
+export const MemoryFirestoreProvider: FC<MemoryFirestoreProviderProps> = ({ children }) => {
+  const contextValue = useMemo<FirestoreContextType>(() => {
+    const store = getMemoryStore();
+    const describe = (constraints: QueryConstraint[]) => constraints.map(getConstraintDescriptor);
+
+    // Collection operations
+    const getCollection = (): never => {
+      throw new Error('getCollection no está disponible con la fuente de datos en memoria');
+    };
+
+    const getDocuments = async (collectionName: string, constraints: QueryConstraint[] = []) => {
+      return store.query(collectionName, describe(constraints));
+    };
+
+    // Document operations
+    const getDocument = async (collectionName: string, docId: string) => {
+      return store.getDocument(collectionName, docId);
+    };
+
+    const addDocument = async (collectionName: string, data: DocumentData) => {
+      return store.add(collectionName, {
+        ...data,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      });
+    };
+
+    const setDocument = async (collectionName: string, docId: string, data: DocumentData) => {
+      store.set(collectionName, docId, {
+        ...data,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      });
+    };
+
+    const updateDocument = async (collectionName: string, docId: string, data: Partial<DocumentData>) => {
+      store.update(collectionName, docId, {
+        ...data,
+        updatedAt: new Date()
+      });
+    };
+
+    const appendToArray = async (collectionName: string, docId: string, field: string, values: unknown[]) => {
+      store.appendToArray(collectionName, docId, field, values, { updatedAt: new Date() });
+    };
+
+    const deleteDocument = async (collectionName: string, docId: string) => {
+      store.delete(collectionName, docId);
+    };
+
+    // Batched writes and transactions
+    const toMemoryWrite = (operation: BatchOperation): MemoryWrite => {
+      if (operation.type === 'set') {
+        return {
+          type: 'set',
+          path: operation.collection,
+          id: operation.docId,
+          data: { ...operation.data, createdAt: new Date(), updatedAt: new Date() }
+        };
+      }
+      if (operation.type === 'update') {
+        return {
+          type: 'update',
+          path: operation.collection,
+          id: operation.docId,
+          data: withUpdatedAt(operation.data, operation)
+        };
+      }
+      return { type: 'delete', path: operation.collection, id: operation.docId };
+    };
+
+    const writeBatch = async (operations: BatchOperation[], { onProgress }: WriteBatchOptions = {}) => {
+      let committed = 0;
+      for (const chunk of chunkBatchOperations(operations)) {
+        store.commit(chunk.map(toMemoryWrite));
+        committed += chunk.length;
+        onProgress?.({ committed, total: operations.length });
+      }
+    };
+
+    // Sin concurrencia real: las escrituras se acumulan y se aplican juntas al terminar updateFn
+    const runTransaction = async <T,>(updateFn: (transaction: FirestoreTransaction) => Promise<T>) => {
+      const operations: BatchOperation[] = [];
+      const result = await updateFn({
+        get: async (collectionName, docId) => store.getDocument(collectionName, docId),
+        set: (collectionName, docId, data) => {
+          operations.push({ type: 'set', collection: collectionName, docId, data });
+        },
+        update: (collectionName, docId, data, options) => {
+          operations.push({ type: 'update', collection: collectionName, docId, data, ...options });
+        },
+        delete: (collectionName, docId) => {
+          operations.push({ type: 'delete', collection: collectionName, docId });
+        },
+      });
+      store.commit(operations.map(toMemoryWrite));
+      return result;
+    };
+
+    // Real-time subscriptions
+    const subscribeToCollection = (
+      collectionName: string,
+      callback: (data: DocumentData[]) => void,
+      constraints: QueryConstraint[] = [],
+      onError?: (error: Error) => void
+    ) => {
+      const descriptors = describe(constraints);
+      const emit = () => {
+        try {
+          callback(store.query(collectionName, descriptors));
+        } catch (error) {
+          onError?.(error as Error);
+        }
+      };
+
+      // Igual que onSnapshot, el primer resultado llega de forma asíncrona
+      queueMicrotask(emit);
+      return store.subscribe(collectionName, emit);
+    };
+
+    const subscribeToDocument = (
+      collectionName: string,
+      docId: string,
+      callback: (data: DocumentData | null) => void
+    ) => {
+      const emit = () => callback(store.getDocument(collectionName, docId));
+
+      queueMicrotask(emit);
+      return store.subscribe(collectionName, emit);
+    };
+
+    // Query helpers
+    const createQuery = async (collectionName: string, constraints: QueryConstraint[]) => {
+      return getDocuments(collectionName, constraints);
+    };
+
+    const whereQuery = (field: string, operator: WhereFilterOp, value: unknown) => {
+      return describeConstraint(where(field, operator, value), { type: 'where', field, op: operator, value });
+    };
+
+    const orderByQuery = (field: string, direction: 'asc' | 'desc' = 'asc') => {
+      return describeConstraint(orderBy(field, direction), { type: 'orderBy', field, direction });
+    };
+
+    const limitQuery = (limitValue: number) => {
+      return describeConstraint(limit(limitValue), { type: 'limit', limit: limitValue });
+    };
+
+    const startAfterQuery = (...fieldValues: unknown[]) => {
+      return describeConstraint(startAfter(...fieldValues), { type: 'startAfter', values: fieldValues });
+    };
+
+    // Pagination
+    const getPage = async (
+      collectionName: string,
+      constraints: QueryConstraint[],
+      { pageSize, cursor, direction = 'next', inclusive = false }: PageOptions
+    ) => {
+      const page = store.page(collectionName, describe(constraints), {
+        pageSize,
+        cursor: pageCursors.unwrap(cursor),
+        direction,
+        inclusive,
+      });
+
+      return {
+        ...page,
+        startCursor: pageCursors.wrap(page.startCursor),
+        endCursor: pageCursors.wrap(page.endCursor),
+      };
+    };
+
+    const countDocuments = async (collectionName: string, constraints: QueryConstraint[] = []) => {
+      return store.count(collectionName, describe(constraints));
+    };
+
+    return {
+      db: null,
+      dataSource: 'memory',
+      getCollection,
+      getDocuments,
+      getDocument,
+      addDocument,
+      setDocument,
+      updateDocument,
+      appendToArray,
+      deleteDocument,
+      writeBatch,
+      runTransaction,
+      subscribeToCollection,
+      subscribeToDocument,
+      createQuery,
+      whereQuery,
+      orderByQuery,
+      limitQuery,
+      startAfterQuery,
+      getPage,
+      countDocuments,
+    };
+  }, []);
+
+  return (
+    <FirestoreContext.Provider value={contextValue}>
+      {children}
+    </FirestoreContext.Provider>
+  );
+};
+
+export default MemoryFirestoreProvider;
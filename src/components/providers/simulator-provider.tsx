@@ -0,0 +1,78 @@
+import { useState, useEffect, useMemo, type ReactNode } from "react"
+import { SimulatorContext, type SimulatorState } from "@/hooks/use-simulator"
+import { BoltSimulator, createFirestoreSink, createMemorySink, type SimulatorConfig } from "@/lib/bolt-simulator"
+import { dataSourceConfig } from "@/lib/data-source"
+import { getMemoryStore } from "@/lib/memory-store"
+import { db } from "@/lib/firebase"
+
+// Escenarios disponibles en src/simulations; VITE_SIMULATOR elige cuál se ejecuta
+const scenarios = import.meta.glob<SimulatorConfig>('/src/simulations/*.json', { eager: true, import: 'default' })
+
+const createSimulator = (): BoltSimulator | null => {
+  const scenario = dataSourceConfig.simulatorScenario
+  if (!scenario) return null
+
+  const config = scenarios[`/src/simulations/${scenario}.json`]
+  if (!config) {
+    console.warn(`Escenario de simulación "${scenario}" no encontrado en src/simulations`)
+    return null
+  }
+
+  if (dataSourceConfig.kind === 'memory') return new BoltSimulator(config, createMemorySink(getMemoryStore()))
+  if (dataSourceConfig.kind === 'emulator' && db) return new BoltSimulator(config, createFirestoreSink(db))
+
+  // Nunca escribir datos simulados en el proyecto real
+  console.warn('El simulador solo se ejecuta con VITE_DATA_SOURCE=memory o emulator')
+  return null
+}
+
+export type SimulatorProviderProps = {
+  children: ReactNode
+}
+
+export const SimulatorProvider = ({ children }: SimulatorProviderProps) => {
+  const [simulator] = useState(createSimulator)
+  const [running, setRunning] = useState(false)
+
+  useEffect(() => {
+    if (!simulator) return
+
+    // stop() en la limpieza descarta este start() si aún espera al histórico (StrictMode monta dos veces)
+    simulator.start()
+      .then(started => {
+        if (started) setRunning(true)
+      })
+      .catch(error => console.error('Error al generar el histórico simulado:', error))
+
+    return () => {
+      simulator.stop()
+      setRunning(false)
+    }
+  }, [simulator])
+
+  const value = useMemo<SimulatorState>(() => ({
+    enabled: simulator !== null,
+    running,
+    devices: simulator?.devices ?? [],
+    start: () => {
+      simulator?.start()
+        .then(started => {
+          if (started) setRunning(true)
+        })
+        .catch(error => console.error('Error al generar el histórico simulado:', error))
+    },
+    stop: () => {
+      simulator?.stop()
+      setRunning(false)
+    },
+    injectLoosening: (deviceId, severity = 0.8, rampMinutes = 5) => {
+      simulator?.injectLoosening(deviceId, severity, rampMinutes)
+    },
+  }), [simulator, running])
+
+  return (
+    <SimulatorContext.Provider value={value}>
+      {children}
+    </SimulatorContext.Provider>
+  )
+}
@@ -3,14 +3,18 @@ import {
   SidebarContent, SidebarFooter,
   SidebarGroup, SidebarGroupContent,
   SidebarGroupLabel, SidebarHeader,
-  SidebarMenu, SidebarMenuButton, SidebarMenuItem
+  SidebarMenu, SidebarMenuBadge, SidebarMenuButton, SidebarMenuItem
 } from "@/components/ui/sidebar.tsx";
-import {Home, Sun, Moon, Monitor, Cpu} from "lucide-react";
+import {Home, Sun, Moon, Monitor, HardDrive, Bell, BellRing, Settings2} from "lucide-react";
 import {Link} from "react-router";
 import {useTheme} from "@/hooks/use-theme.ts";
-import {useCollection} from "@/hooks/use-firestore.ts";
+import {useFirestore} from "@/hooks/use-firestore.ts";
+import {useOpenAlerts} from "@/hooks/use-alerts.ts";
 import {Select, SelectContent, SelectItem, SelectTrigger, SelectValue} from "@/components/ui/select.tsx";
-import type { Device } from "@/types/models/device";
+import {DATA_SOURCE_LABELS} from "@/lib/data-source.ts";
+import {Badge} from "@/components/ui/badge.tsx";
+import {SimulatorControls} from "@/components/sidebar/simulator-controls.tsx";
+import {DeviceTree} from "@/components/sidebar/device-tree.tsx";
 
 const items = [
   {
@@ -18,12 +22,36 @@ const items = [
     url: '/',
     icon: Home,
   },
+  {
+    title: 'Gestión de dispositivos',
+    url: '/dispositivos',
+    icon: Settings2,
+  },
+  {
+    title: 'Alertas',
+    url: '/alertas',
+    icon: Bell,
+  },
+  {
+    title: 'Reglas de alerta',
+    url: '/alertas/reglas',
+    icon: BellRing,
+  },
+  {
+    title: 'Caché',
+    url: '/cache',
+    icon: HardDrive,
+  },
 ]
 
 export const AppSidebar = () => {
 
   const { theme, setTheme } = useTheme()
-  const { data: devices, loading: devicesLoading } = useCollection('devices')
+  const { dataSource } = useFirestore()
+  const { data: openAlerts } = useOpenAlerts()
+
+  // Alertas pendientes de reconocer, como contador junto a la entrada de la bandeja
+  const unacknowledgedCount = openAlerts.filter(alert => alert.status === 'active').length
 
   const themeOptions = [
     { name: 'Claro', value: 'light' as const, icon: Sun },
@@ -35,7 +63,12 @@ export const AppSidebar = () => {
 
   return <Sidebar variant={"floating"}>
     <SidebarHeader className={"px-4"}>
-      <div className={"text-lg font-medium"}>Dashboard Pernos</div>
+      <div className={"flex items-center justify-between gap-2"}>
+        <div className={"text-lg font-medium"}>Dashboard Pernos</div>
+        {dataSource !== 'firestore' && (
+          <Badge variant="secondary" className="text-xs">{DATA_SOURCE_LABELS[dataSource]}</Badge>
+        )}
+      </div>
     </SidebarHeader>
     <hr/>
     <SidebarContent>
@@ -49,48 +82,17 @@ export const AppSidebar = () => {
                   <span>{item.title}</span>
                 </Link>
               </SidebarMenuButton>
+              {item.url === '/alertas' && unacknowledgedCount > 0 && (
+                <SidebarMenuBadge>{unacknowledgedCount}</SidebarMenuBadge>
+              )}
             </SidebarMenuItem>)}
           </SidebarMenu>
         </SidebarGroupContent>
       </SidebarGroup>
 
-      <SidebarGroup>
-        <SidebarGroupLabel>Dispositivos</SidebarGroupLabel>
-        <SidebarGroupContent>
-          <SidebarMenu>
-            {devicesLoading ? (
-              <SidebarMenuItem>
-                <SidebarMenuButton disabled>
-                  <div className="animate-pulse flex items-center gap-2">
-                    <div className="w-4 h-4 bg-gray-300 rounded"></div>
-                    <div className="w-20 h-3 bg-gray-300 rounded"></div>
-                  </div>
-                </SidebarMenuButton>
-              </SidebarMenuItem>
-            ) : devices && devices.length > 0 ? (
-              devices.map((device) => {
-                const deviceData = device as Device;
-                return (
-                  <SidebarMenuItem key={deviceData.id}>
-                    <SidebarMenuButton asChild>
-                      <Link to={`/dispositivos/${deviceData.id}`}>
-                        <Cpu className="w-4 h-4" />
-                        <span className="truncate">{deviceData.name}</span>
-                      </Link>
-                    </SidebarMenuButton>
-                  </SidebarMenuItem>
-                );
-              })
-            ) : (
-              <SidebarMenuItem>
-                <SidebarMenuButton disabled>
-                  <span className="text-muted-foreground text-sm">No hay dispositivos</span>
-                </SidebarMenuButton>
-              </SidebarMenuItem>
-            )}
-          </SidebarMenu>
-        </SidebarGroupContent>
-      </SidebarGroup>
+      <DeviceTree/>
+
+      <SimulatorControls/>
     </SidebarContent>
     <SidebarFooter>
       <SidebarGroup>
@@ -0,0 +1,162 @@
+import {useMemo, useState} from "react";
+import {Link, useMatch} from "react-router";
+import {
+  SidebarGroup, SidebarGroupContent, SidebarGroupLabel,
+  SidebarMenu, SidebarMenuButton, SidebarMenuItem,
+  SidebarMenuSub, SidebarMenuSubButton, SidebarMenuSubItem
+} from "@/components/ui/sidebar.tsx";
+import {Building2, ChevronRight, Cpu, Layers, MapPin, type LucideIcon} from "lucide-react";
+import {useDeviceHierarchy} from "@/hooks/use-devices.ts";
+import {useDeviceStatuses} from "@/hooks/use-device-status.ts";
+import {getDeviceStatusOption} from "@/lib/device-status.ts";
+import type {SiteNode} from "@/lib/device-hierarchy.ts";
+import type {Device} from "@/types/models/device";
+
+interface TreeNode {
+  key: string;
+  label: string;
+  icon: LucideIcon;
+  // Los sitios y estructuras empiezan desplegados; los grupos, plegados
+  defaultOpen: boolean;
+  // Nodo "sin asignar": si es el único de su nivel, se muestran directamente sus hijos
+  unassigned: boolean;
+  children: TreeNode[];
+  device?: Device;
+}
+
+const flatten = (nodes: TreeNode[]) => nodes.length === 1 && nodes[0].unassigned ? nodes[0].children : nodes;
+
+const toTreeNodes = (sites: SiteNode[]): TreeNode[] => flatten(sites.map(site => ({
+  key: `site:${site.id}`,
+  label: site.name,
+  icon: MapPin,
+  defaultOpen: true,
+  unassigned: site.id === null,
+  children: flatten(site.structures.map(structure => ({
+    key: `structure:${site.id}/${structure.id}`,
+    label: structure.name,
+    icon: Building2,
+    defaultOpen: true,
+    unassigned: structure.id === null,
+    children: flatten(structure.groups.map(group => ({
+      key: `group:${structure.id}/${group.id}`,
+      label: group.name,
+      icon: Layers,
+      defaultOpen: false,
+      unassigned: group.id === null,
+      children: group.devices.map(device => ({
+        key: `device:${device.id}`,
+        label: device.name,
+        icon: Cpu,
+        defaultOpen: false,
+        unassigned: false,
+        children: [],
+        device,
+      })),
+    }))),
+  }))),
+})));
+
+const containsDevice = (node: TreeNode, deviceId: string): boolean =>
+  node.device?.id === deviceId || node.children.some(child => containsDevice(child, deviceId));
+
+// Cuenta los dispositivos bajo un nodo
+const countDevices = (node: TreeNode): number =>
+  node.device ? 1 : node.children.reduce((total, child) => total + countDevices(child), 0);
+
+// Árbol sitio → estructura → grupo → dispositivo de la barra lateral. La rama del dispositivo abierto
+// se despliega siempre; el resto se pliega o despliega con un clic.
+export const DeviceTree = () => {
+  const { tree, loading } = useDeviceHierarchy()
+  const statuses = useDeviceStatuses()
+  const activeDeviceId = useMatch('/dispositivos/:id')?.params.id
+  // Nodos cuyo estado (plegado/desplegado) el usuario ha invertido respecto al predeterminado
+  const [toggled, setToggled] = useState<Set<string>>(() => new Set())
+
+  const nodes = useMemo(() => toTreeNodes(tree), [tree])
+
+  const isOpen = (node: TreeNode) =>
+    (activeDeviceId !== undefined && containsDevice(node, activeDeviceId)) || node.defaultOpen !== toggled.has(node.key)
+
+  const toggle = (key: string) => {
+    setToggled(current => {
+      const next = new Set(current)
+      if (!next.delete(key)) next.add(key)
+      return next
+    })
+  }
+
+  const renderLabel = (node: TreeNode) => {
+    if (node.device) {
+      const status = getDeviceStatusOption(statuses[node.device.id]?.status ?? 'never-seen')
+      return <>
+        <node.icon/>
+        <span className="truncate flex-1">{node.label}</span>
+        <span className={`w-2 h-2 rounded-full shrink-0 ${status.color}`}/>
+      </>
+    }
+
+    return <>
+      <ChevronRight className={`transition-transform ${isOpen(node) ? 'rotate-90' : ''}`}/>
+      <node.icon/>
+      <span className="truncate flex-1">{node.label}</span>
+      <span className="text-xs text-muted-foreground tabular-nums">{countDevices(node)}</span>
+    </>
+  }
+
+  const renderChildren = (node: TreeNode) => isOpen(node) && node.children.length > 0 && (
+    <SidebarMenuSub>
+      {node.children.map(child => (
+        <SidebarMenuSubItem key={child.key}>
+          {child.device ? (
+            <SidebarMenuSubButton asChild isActive={child.device.id === activeDeviceId}>
+              <Link to={`/dispositivos/${child.device.id}`}>{renderLabel(child)}</Link>
+            </SidebarMenuSubButton>
+          ) : (
+            <SidebarMenuSubButton asChild>
+              <button type="button" className="w-full" onClick={() => toggle(child.key)}>{renderLabel(child)}</button>
+            </SidebarMenuSubButton>
+          )}
+          {renderChildren(child)}
+        </SidebarMenuSubItem>
+      ))}
+    </SidebarMenuSub>
+  )
+
+  return <SidebarGroup>
+    <SidebarGroupLabel>Dispositivos</SidebarGroupLabel>
+    <SidebarGroupContent>
+      <SidebarMenu>
+        {loading ? (
+          <SidebarMenuItem>
+            <SidebarMenuButton disabled>
+              <div className="animate-pulse flex items-center gap-2">
+                <div className="w-4 h-4 bg-gray-300 rounded"></div>
+                <div className="w-20 h-3 bg-gray-300 rounded"></div>
+              </div>
+            </SidebarMenuButton>
+          </SidebarMenuItem>
+        ) : nodes.length > 0 ? (
+          nodes.map(node => (
+            <SidebarMenuItem key={node.key}>
+              {node.device ? (
+                <SidebarMenuButton asChild isActive={node.device.id === activeDeviceId}>
+                  <Link to={`/dispositivos/${node.device.id}`}>{renderLabel(node)}</Link>
+                </SidebarMenuButton>
+              ) : (
+                <SidebarMenuButton onClick={() => toggle(node.key)}>{renderLabel(node)}</SidebarMenuButton>
+              )}
+              {renderChildren(node)}
+            </SidebarMenuItem>
+          ))
+        ) : (
+          <SidebarMenuItem>
+            <SidebarMenuButton disabled>
+              <span className="text-muted-foreground text-sm">No hay dispositivos</span>
+            </SidebarMenuButton>
+          </SidebarMenuItem>
+        )}
+      </SidebarMenu>
+    </SidebarGroupContent>
+  </SidebarGroup>
+}
@@ -0,0 +1,36 @@
+import {SidebarGroup, SidebarGroupContent, SidebarGroupLabel} from "@/components/ui/sidebar.tsx";
+import {Select, SelectContent, SelectItem, SelectTrigger, SelectValue} from "@/components/ui/select.tsx";
+import {Button} from "@/components/ui/button.tsx";
+import {Pause, Play, Wrench} from "lucide-react";
+import {useSimulator} from "@/hooks/use-simulator.ts";
+
+// Controles del simulador de pernos; solo se muestran cuando VITE_SIMULATOR está configurado
+export const SimulatorControls = () => {
+  const { enabled, running, devices, start, stop, injectLoosening } = useSimulator()
+
+  if (!enabled) return null
+
+  return <SidebarGroup>
+    <SidebarGroupLabel>Simulador</SidebarGroupLabel>
+    <SidebarGroupContent className={"space-y-2"}>
+      <Button variant="outline" size="sm" className="w-full" onClick={running ? stop : start}>
+        {running ? <Pause className="h-4 w-4"/> : <Play className="h-4 w-4"/>}
+        {running ? 'Pausar simulación' : 'Reanudar simulación'}
+      </Button>
+      {/* value vacío: el select funciona como acción y vuelve al placeholder tras elegir */}
+      <Select value="" onValueChange={(deviceId) => injectLoosening(deviceId)}>
+        <SelectTrigger className="w-full" size="sm">
+          <div className="flex items-center gap-2">
+            <Wrench className="h-4 w-4"/>
+            <SelectValue placeholder="Inyectar aflojamiento"/>
+          </div>
+        </SelectTrigger>
+        <SelectContent>
+          {devices.map(device => (
+            <SelectItem key={device.id} value={device.id}>{device.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </SidebarGroupContent>
+  </SidebarGroup>
+}
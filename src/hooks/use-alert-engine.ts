@@ -0,0 +1,23 @@
+import { createContext, useContext } from 'react';
+
+export type AlertEngineState = {
+  // Si el motor se ejecuta en esta pestaña (solo lo ejecuta una del navegador)
+  active: boolean
+  // Dispositivos con al menos una regla activa
+  watchedDevices: number
+  evaluating: boolean
+  lastEvaluation: Date | null
+  evaluateNow: () => Promise<void>
+}
+
+const initialState: AlertEngineState = {
+  active: false,
+  watchedDevices: 0,
+  evaluating: false,
+  lastEvaluation: null,
+  evaluateNow: async () => {},
+}
+
+export const AlertEngineContext = createContext<AlertEngineState>(initialState)
+
+export const useAlertEngine = () => useContext(AlertEngineContext)
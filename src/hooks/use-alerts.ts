@@ -0,0 +1,51 @@
+import { useMemo } from 'react';
+import { useFirestore, usePaginatedCollection, useRealtimeCollection } from '@/hooks/use-firestore';
+import { alertConverter, alertRuleConverter, convertDocuments } from '@/lib/converters';
+import type { AlertStatus } from '@/types/models/alert';
+import type { AlertSeverity } from '@/types/models/alert-rule';
+
+// Estados de una alerta que todavía no se ha resuelto
+export const OPEN_ALERT_STATUSES: AlertStatus[] = ['active', 'acknowledged'];
+
+// Reglas de alerta en tiempo real (compartidas entre el motor y la página de reglas)
+export const useAlertRules = () => {
+  return useRealtimeCollection('alertRules', [], alertRuleConverter);
+};
+
+// Alertas sin resolver en tiempo real
+export const useOpenAlerts = () => {
+  const { whereQuery } = useFirestore();
+  return useRealtimeCollection('alerts', [whereQuery('status', 'in', OPEN_ALERT_STATUSES)], alertConverter);
+};
+
+// Alertas por página en el historial de la bandeja
+const ALERTS_PAGE_SIZE = 50;
+
+export interface AlertHistoryFilters {
+  deviceId?: string;
+  severity?: AlertSeverity;
+  status?: AlertStatus;
+}
+
+// Historial de alertas por páginas, de la más reciente a la más antigua. Los filtros se consultan con where
+// (requieren índices compuestos con createdAt); con filters null no se consulta. No es en tiempo real: refetch
+// vuelve a cargar la primera página
+export const useAlertHistory = (filters: AlertHistoryFilters | null) => {
+  const { whereQuery, orderByQuery } = useFirestore();
+  const constraints = [
+    ...(filters?.deviceId ? [whereQuery('deviceId', '==', filters.deviceId)] : []),
+    ...(filters?.severity ? [whereQuery('severity', '==', filters.severity)] : []),
+    ...(filters?.status ? [whereQuery('status', '==', filters.status)] : []),
+    orderByQuery('createdAt', 'desc'),
+  ];
+  const { data, ...page } = usePaginatedCollection(filters ? 'alerts' : null, constraints, { pageSize: ALERTS_PAGE_SIZE });
+  const converted = useMemo(() => convertDocuments(data, alertConverter), [data]);
+
+  return { ...page, data: converted.data, invalid: converted.invalid };
+};
+
+// Alertas de un dispositivo en tiempo real (sin orden: se ordenan en el cliente para no requerir un índice compuesto)
+export const useDeviceAlerts = (deviceId: string | undefined) => {
+  const { whereQuery } = useFirestore();
+  return useRealtimeCollection(deviceId ? 'alerts' : null, [whereQuery('deviceId', '==', deviceId ?? '')], alertConverter);
+};
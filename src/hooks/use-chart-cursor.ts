@@ -0,0 +1,47 @@
+import { createContext, useContext, useSyncExternalStore } from 'react';
+
+// Instante (ms) bajo el puntero en cualquiera de los gráficos temporales de la página.
+// Todos los paneles que lo consumen marcan el mismo instante. Vive fuera del estado de React:
+// mover el puntero solo vuelve a renderizar a quien lee el instante, no a los gráficos que lo escriben.
+export type ChartCursorStore = {
+  getTimestamp: () => number | null
+  setTimestamp: (timestamp: number | null) => void
+  subscribe: (listener: () => void) => () => void
+}
+
+export const createChartCursorStore = (): ChartCursorStore => {
+  let timestamp: number | null = null
+  const listeners = new Set<() => void>()
+
+  return {
+    getTimestamp: () => timestamp,
+    setTimestamp: (next) => {
+      if (next === timestamp) return
+      timestamp = next
+      listeners.forEach(listener => listener())
+    },
+    subscribe: (listener) => {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+  }
+}
+
+const initialStore: ChartCursorStore = {
+  getTimestamp: () => null,
+  setTimestamp: () => null,
+  subscribe: () => () => null,
+}
+
+export const ChartCursorContext = createContext<ChartCursorStore>(initialStore)
+
+// Instante del cursor; el componente se vuelve a renderizar cada vez que cambia
+export const useChartCursorTimestamp = () => {
+  const store = useContext(ChartCursorContext)
+  return useSyncExternalStore(store.subscribe, store.getTimestamp)
+}
+
+// Solo el setter (estable): no se vuelve a renderizar al mover el cursor
+export const useSetChartCursor = () => useContext(ChartCursorContext).setTimestamp
@@ -0,0 +1,72 @@
+import { createContext, useContext } from 'react';
+import { useFirestore, useRealtimeCollection } from '@/hooks/use-firestore';
+import { deviceStatusChangeConverter } from '@/lib/converters';
+import { DEFAULT_EXPECTED_INTERVAL_SECONDS } from '@/lib/device-status';
+import type { TimeBounds } from '@/lib/time-range';
+import type { DeviceStatus } from '@/types/models/device-status';
+import type { SensorReading } from '@/types/models/sensor-reading';
+
+export type DeviceStatusInfo = {
+  status: DeviceStatus
+  // Última lectura o, si no hay, el lastActive del dispositivo
+  lastActive: Date | null
+  // Última lectura recibida (null si no hay o todavía no se ha cargado)
+  lastReading: SensorReading | null
+  // La última lectura todavía no se ha cargado
+  loading: boolean
+  expectedIntervalMs: number
+}
+
+export type DeviceStatusState = {
+  // Estado de cada dispositivo por id
+  statuses: Record<string, DeviceStatusInfo>
+}
+
+const initialState: DeviceStatusState = {
+  statuses: {},
+}
+
+// Estado mientras el dispositivo todavía no tiene entrada (cargando o inexistente)
+const UNKNOWN_STATUS: DeviceStatusInfo = {
+  status: 'never-seen',
+  lastActive: null,
+  lastReading: null,
+  loading: true,
+  expectedIntervalMs: DEFAULT_EXPECTED_INTERVAL_SECONDS * 1000,
+}
+
+export const DeviceStatusContext = createContext<DeviceStatusState>(initialState)
+
+export const useDeviceStatuses = () => useContext(DeviceStatusContext).statuses
+
+export const useDeviceStatus = (deviceId: string | undefined) => {
+  const statuses = useDeviceStatuses()
+  return (deviceId && statuses[deviceId]) || UNKNOWN_STATUS
+}
+
+// Cambios de estado más recientes que se muestran por dispositivo
+const STATUS_HISTORY_LIMIT = 20
+
+// Historial de cambios de estado de un dispositivo, del más reciente al más antiguo
+export const useDeviceStatusHistory = (deviceId: string | undefined) => {
+  const { orderByQuery, limitQuery } = useFirestore()
+  return useRealtimeCollection(
+    deviceId ? `devices/${deviceId}/statusHistory` : null,
+    [orderByQuery('createdAt', 'desc'), limitQuery(STATUS_HISTORY_LIMIT)],
+    deviceStatusChangeConverter
+  )
+}
+
+// Cambios de estado de un dispositivo registrados en un intervalo, del más antiguo al más reciente
+export const useDeviceStatusHistoryInRange = (deviceId: string | undefined, bounds: TimeBounds | null) => {
+  const { whereQuery, orderByQuery } = useFirestore()
+  return useRealtimeCollection(
+    deviceId && bounds ? `devices/${deviceId}/statusHistory` : null,
+    bounds ? [
+      whereQuery('createdAt', '>=', bounds.from),
+      whereQuery('createdAt', '<=', bounds.to),
+      orderByQuery('createdAt', 'asc'),
+    ] : [],
+    deviceStatusChangeConverter
+  )
+}
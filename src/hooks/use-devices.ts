@@ -0,0 +1,40 @@
+import { useMemo } from 'react';
+import { useRealtimeCollection } from '@/hooks/use-firestore';
+import { deviceConverter, deviceGroupConverter, siteConverter, structureConverter } from '@/lib/converters';
+import { buildDeviceHierarchy } from '@/lib/device-hierarchy';
+
+// Hook para la colección de dispositivos en tiempo real, compartida entre la barra lateral,
+// la página de inicio y cualquier otro consumidor (una sola suscripción para todos)
+export const useDevices = () => {
+  return useRealtimeCollection('devices', [], deviceConverter);
+};
+
+// Grupos de dispositivos (intervalo esperado compartido, alcance de las reglas de alerta)
+export const useDeviceGroups = () => {
+  return useRealtimeCollection('groups', [], deviceGroupConverter);
+};
+
+export const useSites = () => {
+  return useRealtimeCollection('sites', [], siteConverter);
+};
+
+export const useStructures = () => {
+  return useRealtimeCollection('structures', [], structureConverter);
+};
+
+// Jerarquía sitio → estructura → grupo → dispositivo, con todas las colecciones en tiempo real
+export const useDeviceHierarchy = () => {
+  const { data: sites, loading: sitesLoading } = useSites();
+  const { data: structures, loading: structuresLoading } = useStructures();
+  const { data: groups, loading: groupsLoading } = useDeviceGroups();
+  const { data: devices, loading: devicesLoading } = useDevices();
+
+  const sources = useMemo(() => ({ sites, structures, groups, devices }), [sites, structures, groups, devices]);
+  // Los dispositivos dados de baja no forman parte del árbol (solo aparecen en la gestión de dispositivos)
+  const tree = useMemo(
+    () => buildDeviceHierarchy({ ...sources, devices: devices.filter(device => !device.decommissionedAt) }),
+    [sources, devices]
+  );
+
+  return { tree, sources, loading: sitesLoading || structuresLoading || groupsLoading || devicesLoading };
+};
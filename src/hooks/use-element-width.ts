@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react';
+
+// Ancho actual de un elemento (ResizeObserver). Devuelve un callback ref para asignarlo al elemento,
+// así funciona aunque el elemento se monte después del primer render, y el propio elemento.
+export const useElementWidth = <T extends HTMLElement = HTMLDivElement>() => {
+  const [element, setElement] = useState<T | null>(null);
+  const [width, setWidth] = useState(0);
+
+  useEffect(() => {
+    if (!element) return;
+
+    const observer = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [element]);
+
+  return [setElement, width, element] as const;
+};
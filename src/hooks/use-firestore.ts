@@ -1,4 +1,4 @@
-import { useState, useEffect, useContext, createContext, useMemo, useCallback, useRef } from 'react';
+import { useState, useEffect, useContext, createContext, useMemo, useCallback, useRef, useSyncExternalStore } from 'react';
 import {
   QueryConstraint,
   Firestore,
@@ -7,41 +7,233 @@ import {
   type WhereFilterOp,
   type Unsubscribe
 } from 'firebase/firestore';
+import type { DataSourceKind } from '@/lib/data-source';
+import { convertDocuments, NO_INVALID_DOCUMENTS, type DocumentConverter, type InvalidDocuments } from '@/lib/converters';
+import { createQueryKey } from '@/lib/query-constraints';
 
 // Cache simple para evitar lecturas innecesarias
 const queryCache = new Map<string, { data: DocumentData[], timestamp: number }>();
 const CACHE_DURATION = 30000; // 30 segundos
 
-// Helper para crear una key única para el cache basada en la consulta
-const createCacheKey = (collectionName: string, constraints: QueryConstraint[] = []) => {
-  const constraintString = constraints.map(c => JSON.stringify(c)).join('|');
-  return `${collectionName}:${constraintString}`;
+// Lecturas en curso, para que consultas idénticas simultáneas compartan la misma petición
+const inflightQueries = new Map<string, Promise<DocumentData[]>>();
+
+// Hub de suscripciones compartidas: una sola suscripción por consulta (key), con conteo de referencias.
+// Todos los componentes que piden la misma consulta reciben las mismas actualizaciones.
+interface SharedState<T> {
+  data: T;
+  loading: boolean;
+  error: string | null;
+}
+
+interface SharedEntry {
+  state: SharedState<unknown>;
+  listeners: Set<() => void>;
+  unsubscribe: Unsubscribe | null;
+  releaseTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const sharedSubscriptions = new Map<string, SharedEntry>();
+// Tiempo que se mantiene viva una suscripción sin consumidores (evita re-suscribir al navegar)
+const RELEASE_DELAY = 10000;
+
+type StartSubscription = (
+  emit: (data: unknown) => void,
+  fail: (error: string) => void
+) => Unsubscribe;
+
+const acquireSubscription = (key: string, initialData: unknown, start: StartSubscription, listener: () => void) => {
+  let entry = sharedSubscriptions.get(key);
+
+  if (!entry) {
+    const created: SharedEntry = {
+      state: { data: initialData, loading: true, error: null },
+      listeners: new Set(),
+      unsubscribe: null,
+      releaseTimer: null,
+    };
+    const notify = () => created.listeners.forEach(notifyListener => notifyListener());
+
+    created.unsubscribe = start(
+      (data) => {
+        created.state = { data, loading: false, error: null };
+        notify();
+      },
+      (error) => {
+        created.state = { ...created.state, loading: false, error };
+        notify();
+      }
+    );
+    sharedSubscriptions.set(key, created);
+    entry = created;
+  }
+
+  if (entry.releaseTimer) {
+    clearTimeout(entry.releaseTimer);
+    entry.releaseTimer = null;
+  }
+  entry.listeners.add(listener);
+
+  const acquired = entry;
+  return () => {
+    acquired.listeners.delete(listener);
+    if (acquired.listeners.size > 0) return;
+
+    acquired.releaseTimer = setTimeout(() => {
+      acquired.unsubscribe?.();
+      sharedSubscriptions.delete(key);
+    }, RELEASE_DELAY);
+  };
+};
+
+// Suscribe el componente a una entrada del hub y devuelve su estado actual
+const useSharedSubscription = <T>(key: string | null, initialData: T, start: StartSubscription): SharedState<T> => {
+  // El estado inicial debe ser estable entre renders para useSyncExternalStore
+  const [initialState] = useState<SharedState<T>>(() => ({ data: initialData, loading: true, error: null }));
+  const startRef = useRef(start);
+
+  useEffect(() => {
+    startRef.current = start;
+  }, [start]);
+
+  const subscribe = useCallback((listener: () => void) => {
+    if (key === null) return () => {};
+    return acquireSubscription(key, initialState.data, (emit, fail) => startRef.current(emit, fail), listener);
+  }, [key, initialState]);
+
+  const getSnapshot = useCallback(() => {
+    if (key === null) return initialState;
+    return (sharedSubscriptions.get(key)?.state as SharedState<T> | undefined) ?? initialState;
+  }, [key, initialState]);
+
+  const state = useSyncExternalStore(subscribe, getSnapshot);
+  return key === null ? { data: initialData, loading: false, error: null } : state;
+};
+
+// Cursor opaco de paginación: solo el provider que lo generó sabe interpretarlo
+export type PageCursor = { readonly __brand: 'PageCursor' };
+
+// Asocia cada PageCursor con el cursor interno del provider que lo generó (cada provider crea el suyo)
+export const createPageCursors = <T extends object>() => {
+  const cursors = new WeakMap<PageCursor, T>();
+
+  return {
+    wrap: (value: T | null | undefined): PageCursor | null => {
+      if (!value) return null;
+      const cursor: PageCursor = Object.freeze({ __brand: 'PageCursor' as const });
+      cursors.set(cursor, value);
+      return cursor;
+    },
+    unwrap: (cursor: PageCursor | null | undefined): T | null => {
+      if (!cursor) return null;
+      const value = cursors.get(cursor);
+      if (!value) throw new Error('El cursor de página no pertenece a esta fuente de datos');
+      return value;
+    },
+  };
+};
+
+export interface PageOptions {
+  pageSize: number;
+  cursor?: PageCursor | null;
+  // 'next' continúa después del cursor, 'previous' obtiene la página anterior al cursor
+  direction?: 'next' | 'previous';
+  // Con 'next', la página empieza en el documento del cursor en lugar de después (startAt)
+  inclusive?: boolean;
+}
+
+export interface Page {
+  docs: DocumentData[];
+  // Cursores del primer y último documento de la página
+  startCursor: PageCursor | null;
+  endCursor: PageCursor | null;
+  // Indica si existen más documentos en la dirección solicitada
+  hasMore: boolean;
+}
+
+export interface UpdateOptions {
+  // A false el update no añade updatedAt: campos derivados (como el estado de conexión) que no son una edición
+  touch?: boolean;
+}
+
+// Datos de un update de lote o transacción, con updatedAt salvo que touch sea false
+export const withUpdatedAt = (data: Partial<DocumentData>, { touch = true }: UpdateOptions = {}) =>
+  touch ? { ...data, updatedAt: new Date() } : data;
+
+// Límite de operaciones de Firestore por lote o transacción
+export const MAX_BATCH_OPERATIONS = 500;
+
+// Escritura dentro de un lote; set y update añaden createdAt/updatedAt igual que setDocument/updateDocument
+export type BatchOperation =
+  | { type: 'set'; collection: string; docId: string; data: DocumentData }
+  | ({ type: 'update'; collection: string; docId: string; data: Partial<DocumentData> } & UpdateOptions)
+  | { type: 'delete'; collection: string; docId: string };
+
+export interface BatchProgress {
+  // Operaciones confirmadas hasta ahora y total
+  committed: number;
+  total: number;
+}
+
+export interface WriteBatchOptions {
+  // Se llama después de confirmar cada lote
+  onProgress?: (progress: BatchProgress) => void;
+}
+
+// Operaciones disponibles dentro de runTransaction. Las lecturas deben hacerse antes que las escrituras
+export interface FirestoreTransaction {
+  get: (collectionName: string, docId: string) => Promise<DocumentData | null>;
+  set: (collectionName: string, docId: string, data: DocumentData) => void;
+  update: (collectionName: string, docId: string, data: Partial<DocumentData>, options?: UpdateOptions) => void;
+  delete: (collectionName: string, docId: string) => void;
+}
+
+// Divide las operaciones en lotes que respetan el límite de Firestore
+export const chunkBatchOperations = (operations: BatchOperation[]) => {
+  const chunks: BatchOperation[][] = [];
+  for (let i = 0; i < operations.length; i += MAX_BATCH_OPERATIONS) {
+    chunks.push(operations.slice(i, i + MAX_BATCH_OPERATIONS));
+  }
+  return chunks;
 };
 
 export interface FirestoreContextType {
-  // Database instance
-  db: Firestore;
+  // Database instance (null con la fuente de datos en memoria)
+  db: Firestore | null;
+  dataSource: DataSourceKind;
 
-  // Collection operations
+  // Collection operations (getCollection no está disponible en memoria)
   getCollection: (collectionName: string) => CollectionReference;
   getDocuments: (collectionName: string, constraints?: QueryConstraint[]) => Promise<DocumentData[]>;
 
   // Document operations
   getDocument: (collectionName: string, docId: string) => Promise<DocumentData | null>;
   addDocument: (collectionName: string, data: DocumentData) => Promise<string>;
+  // Crea (o reemplaza) el documento con un id elegido
+  setDocument: (collectionName: string, docId: string, data: DocumentData) => Promise<void>;
   updateDocument: (collectionName: string, docId: string, data: Partial<DocumentData>) => Promise<void>;
+  // Añade elementos a un campo lista sin leer el documento (arrayUnion: omite los que ya están)
+  appendToArray: (collectionName: string, docId: string, field: string, values: unknown[]) => Promise<void>;
   deleteDocument: (collectionName: string, docId: string) => Promise<void>;
 
+  // Batched writes and transactions
+  // Cada lote de hasta MAX_BATCH_OPERATIONS es atómico; si falla uno, los anteriores ya quedan escritos
+  writeBatch: (operations: BatchOperation[], options?: WriteBatchOptions) => Promise<void>;
+  // Se reintenta si los documentos leídos cambian antes de confirmar; admite hasta MAX_BATCH_OPERATIONS escrituras
+  runTransaction: <T>(updateFn: (transaction: FirestoreTransaction) => Promise<T>) => Promise<T>;
+
   // Real-time subscriptions
   subscribeToCollection: (
     collectionName: string,
     callback: (data: DocumentData[]) => void,
-    constraints?: QueryConstraint[]
+    constraints?: QueryConstraint[],
+    onError?: (error: Error) => void
   ) => Unsubscribe;
   subscribeToDocument: (
     collectionName: string,
     docId: string,
-    callback: (data: DocumentData | null) => void
+    callback: (data: DocumentData | null) => void,
+    onError?: (error: Error) => void
   ) => Unsubscribe;
 
   // Query helpers
@@ -49,6 +241,11 @@ export interface FirestoreContextType {
   whereQuery: (field: string, operator: WhereFilterOp, value: unknown) => QueryConstraint;
   orderByQuery: (field: string, direction?: 'asc' | 'desc') => QueryConstraint;
   limitQuery: (limitValue: number) => QueryConstraint;
+  startAfterQuery: (...fieldValues: unknown[]) => QueryConstraint;
+
+  // Pagination
+  getPage: (collectionName: string, constraints: QueryConstraint[], options: PageOptions) => Promise<Page>;
+  countDocuments: (collectionName: string, constraints?: QueryConstraint[]) => Promise<number>;
 }
 
 export const FirestoreContext = createContext<FirestoreContextType | undefined>(undefined);
@@ -62,26 +259,37 @@ export const useFirestore = () => {
   return context;
 };
 
-// Hook para obtener una colección con estado reactivo y cache
-export const useCollection = (collectionName: string, constraints: QueryConstraint[] = []) => {
+const EMPTY_DOCUMENTS: DocumentData[] = [];
+
+// Aplica el converter (si existe) a los documentos crudos; sin converter se devuelven tal cual
+const useConvertedDocuments = <T>(documents: DocumentData[], converter?: DocumentConverter<T>) => {
+  return useMemo(() => {
+    if (!converter) {
+      return { data: documents as T[], invalid: NO_INVALID_DOCUMENTS };
+    }
+    return convertDocuments(documents, converter);
+  }, [documents, converter]);
+};
+
+// Hook para obtener una colección con estado reactivo y cache.
+// Con un converter los documentos se validan y tipan; los inválidos se reportan en `invalid`.
+export const useCollection = <T = DocumentData>(
+  collectionName: string,
+  constraints: QueryConstraint[] = [],
+  converter?: DocumentConverter<T>
+) => {
   const [data, setData] = useState<DocumentData[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const { getDocuments } = useFirestore();
 
-  // Usar useRef para evitar que constraints cause re-renders infinitos
+  // Usar useRef para evitar que constraints cause re-renders infinitos; la key identifica la consulta
   const constraintsRef = useRef(constraints);
-  const prevConstraintsRef = useRef<string>('');
-
-  // Memoizar la key del cache para evitar recálculos innecesarios
-  const cacheKey = useMemo(() => {
-    const currentConstraintsStr = JSON.stringify(constraints);
-    if (currentConstraintsStr !== prevConstraintsRef.current) {
-      constraintsRef.current = constraints;
-      prevConstraintsRef.current = currentConstraintsStr;
-    }
-    return createCacheKey(collectionName, constraintsRef.current);
-  }, [collectionName, JSON.stringify(constraints)]);
+  const cacheKey = createQueryKey(collectionName, constraints);
+
+  useEffect(() => {
+    constraintsRef.current = constraints;
+  }, [constraints]);
 
   // Función memoizada para obtener datos
   const fetchData = useCallback(async (useCache = true) => {
@@ -99,7 +307,15 @@ export const useCollection = (collectionName: string, constraints: QueryConstrai
       }
 
       setLoading(true);
-      const documents = await getDocuments(collectionName, constraintsRef.current);
+
+      // Reutilizar la petición si otro componente ya está leyendo la misma consulta
+      let request = inflightQueries.get(cacheKey);
+      if (!request) {
+        request = getDocuments(collectionName, constraintsRef.current)
+          .finally(() => inflightQueries.delete(cacheKey));
+        inflightQueries.set(cacheKey, request);
+      }
+      const documents = await request;
 
       // Actualizar cache
       queryCache.set(cacheKey, {
@@ -130,11 +346,17 @@ export const useCollection = (collectionName: string, constraints: QueryConstrai
     queryCache.delete(cacheKey);
   }, [cacheKey]);
 
-  return { data, loading, error, refetch, clearCache };
+  const { data: converted, invalid } = useConvertedDocuments(data, converter);
+
+  return { data: converted, invalid, loading, error, refetch, clearCache };
 };
 
 // Hook para obtener un documento específico con cache
-export const useDocument = (collectionName: string, docId: string | null) => {
+export const useDocument = <T = DocumentData>(
+  collectionName: string,
+  docId: string | null,
+  converter?: DocumentConverter<T>
+) => {
   const [data, setData] = useState<DocumentData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -192,130 +414,297 @@ export const useDocument = (collectionName: string, docId: string | null) => {
     return fetchData(false);
   }, [fetchData]);
 
-  return { data, loading, error, refetch };
+  // Validar el documento con el converter; un documento inválido se reporta y se expone como null
+  const converted = useMemo((): { data: T | null; invalid: InvalidDocuments } => {
+    if (!data) return { data: null, invalid: NO_INVALID_DOCUMENTS };
+    if (!converter) return { data: data as T, invalid: NO_INVALID_DOCUMENTS };
+
+    const result = convertDocuments([data], converter);
+    return { data: result.data[0] ?? null, invalid: result.invalid };
+  }, [data, converter]);
+
+  return { data: converted.data, invalid: converted.invalid, loading, error, refetch };
 };
 
-// Hook para suscripción en tiempo real a una colección (optimizado)
-export const useRealtimeCollection = (collectionName: string, constraints: QueryConstraint[] = []) => {
+export interface PaginatedCollectionOptions {
+  pageSize?: number;
+  withCount?: boolean;
+  // Documento en el que empieza la primera página (incluido), p. ej. el startCursor guardado de una visita
+  // anterior; loadPrevious carga lo que hay antes de él. Sin ancla se empieza por el principio
+  anchor?: PageCursor | null;
+}
+
+// Hook para paginar una colección con cursores ("cargar más" / "cargar anteriores"). Con collectionName null no consulta
+export const usePaginatedCollection = (
+  collectionName: string | null,
+  constraints: QueryConstraint[] = [],
+  { pageSize = 50, withCount = false, anchor = null }: PaginatedCollectionOptions = {}
+) => {
   const [data, setData] = useState<DocumentData[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const { subscribeToCollection } = useFirestore();
-
-  // Usar useRef para evitar re-suscripciones innecesarias
+  const [hasNext, setHasNext] = useState(false);
+  const [hasPrevious, setHasPrevious] = useState(false);
+  const [startCursor, setStartCursor] = useState<PageCursor | null>(null);
+  const [totalCount, setTotalCount] = useState<number | null>(null);
+  const { getPage, countDocuments } = useFirestore();
+
+  // Cursores de los extremos de lo cargado hasta ahora
+  const startCursorRef = useRef<PageCursor | null>(null);
+  const endCursorRef = useRef<PageCursor | null>(null);
+  const requestRef = useRef(0);
+
+  // Usar useRef para que las constraints no reinicien la paginación en cada render
   const constraintsRef = useRef(constraints);
-  const unsubscribeRef = useRef<(() => void) | null>(null);
-
-  const constraintsStr = useMemo(() =>
-    JSON.stringify(constraints),
-    [constraints]
-  );
+  const constraintsStr = JSON.stringify(constraints);
 
   useEffect(() => {
-    // Solo actualizar constraints si realmente cambiaron
-    const newConstraintsStr = JSON.stringify(constraints);
-    if (newConstraintsStr !== JSON.stringify(constraintsRef.current)) {
-      constraintsRef.current = constraints;
-    }
+    constraintsRef.current = constraints;
   }, [constraints]);
 
-  useEffect(() => {
-    setLoading(true);
-    setError(null);
+  const fetchFirstPage = useCallback(async () => {
+    const requestId = ++requestRef.current;
+    if (collectionName === null) {
+      startCursorRef.current = null;
+      endCursorRef.current = null;
+      setStartCursor(null);
+      setData([]);
+      setHasNext(false);
+      setHasPrevious(false);
+      setTotalCount(null);
+      setLoading(false);
+      return;
+    }
 
-    // Cancelar suscripción anterior si existe
-    if (unsubscribeRef.current) {
-      unsubscribeRef.current();
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [page, count] = await Promise.all([
+        getPage(collectionName, constraintsRef.current, { pageSize, cursor: anchor, inclusive: true }),
+        withCount ? countDocuments(collectionName, constraintsRef.current) : Promise.resolve(null),
+      ]);
+      if (requestId !== requestRef.current) return;
+
+      // Si la página del ancla está vacía, las anteriores se buscan antes del ancla
+      startCursorRef.current = page.startCursor ?? anchor;
+      endCursorRef.current = page.endCursor ?? anchor;
+      setStartCursor(startCursorRef.current);
+      setData(page.docs);
+      setHasNext(page.hasMore);
+      // Con ancla no se sabe si hay documentos antes hasta pedirlos
+      setHasPrevious(anchor !== null);
+      setTotalCount(count);
+    } catch (err) {
+      if (requestId === requestRef.current) {
+        setError(err instanceof Error ? err.message : 'Error desconocido');
+      }
+    } finally {
+      if (requestId === requestRef.current) setLoading(false);
     }
+  }, [collectionName, pageSize, withCount, anchor, getPage, countDocuments]);
 
-    const unsubscribe = subscribeToCollection(
-      collectionName,
-      (documents) => {
-        setData(documents);
-        setLoading(false);
-      },
-      constraintsRef.current
-    );
+  // Reiniciar desde la primera página cuando cambia la consulta
+  useEffect(() => {
+    fetchFirstPage();
+  }, [fetchFirstPage, constraintsStr]);
 
-    unsubscribeRef.current = unsubscribe;
+  const fetchAdjacentPage = useCallback(async (direction: 'next' | 'previous') => {
+    const cursor = direction === 'next' ? endCursorRef.current : startCursorRef.current;
+    if (!cursor || collectionName === null) return;
 
-    return () => {
-      if (unsubscribeRef.current) {
-        unsubscribeRef.current();
-        unsubscribeRef.current = null;
-      }
-    };
-  }, [collectionName, subscribeToCollection, constraintsStr]);
+    const requestId = requestRef.current;
+    try {
+      setLoadingMore(true);
+      setError(null);
 
-  return { data, loading, error };
+      const page = await getPage(collectionName, constraintsRef.current, { pageSize, cursor, direction });
+      if (requestId !== requestRef.current) return;
+
+      if (direction === 'next') {
+        if (page.endCursor) endCursorRef.current = page.endCursor;
+        setData(prev => [...prev, ...page.docs]);
+        setHasNext(page.hasMore);
+      } else {
+        if (page.startCursor) startCursorRef.current = page.startCursor;
+        setStartCursor(startCursorRef.current);
+        setData(prev => [...page.docs, ...prev]);
+        setHasPrevious(page.hasMore);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error desconocido');
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [collectionName, pageSize, getPage]);
+
+  const loadMore = useCallback(() => fetchAdjacentPage('next'), [fetchAdjacentPage]);
+  const loadPrevious = useCallback(() => fetchAdjacentPage('previous'), [fetchAdjacentPage]);
+
+  return {
+    data,
+    loading,
+    loadingMore,
+    error,
+    hasNext,
+    hasPrevious,
+    // Cursor del primer documento cargado: sirve de `anchor` para volver a abrir la lista en ese punto
+    startCursor,
+    totalCount,
+    loadMore,
+    loadPrevious,
+    refetch: fetchFirstPage,
+  };
 };
 
-// Hook para suscripción en tiempo real a un documento (optimizado)
-export const useRealtimeDocument = (collectionName: string, docId: string | null) => {
-  const [data, setData] = useState<DocumentData | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const { subscribeToDocument } = useFirestore();
-  const unsubscribeRef = useRef<(() => void) | null>(null);
+// Hook para suscripción en tiempo real a una colección.
+// Usa el hub compartido: consultas idénticas en distintos componentes comparten una sola suscripción.
+export const useRealtimeCollection = <T = DocumentData>(
+  collectionName: string | null,
+  constraints: QueryConstraint[] = [],
+  converter?: DocumentConverter<T>
+) => {
+  const { subscribeToCollection } = useFirestore();
+  const key = collectionName !== null ? `realtime:${createQueryKey(collectionName, constraints)}` : null;
+
+  // La suscripción solo depende de la consulta (key), no de la identidad del array de constraints
+  const constraintsRef = useRef(constraints);
 
   useEffect(() => {
-    if (!docId) {
-      setData(null);
-      setLoading(false);
-      return;
-    }
+    constraintsRef.current = constraints;
+  }, [constraints]);
 
-    setLoading(true);
-    setError(null);
+  const start = useCallback<StartSubscription>((emit, fail) => subscribeToCollection(
+    collectionName!,
+    emit,
+    constraintsRef.current,
+    (error) => fail(error.message)
+  ), [collectionName, subscribeToCollection]);
 
-    // Cancelar suscripción anterior si existe
-    if (unsubscribeRef.current) {
-      unsubscribeRef.current();
-    }
+  const { data, loading, error } = useSharedSubscription<DocumentData[]>(key, EMPTY_DOCUMENTS, start);
+  const { data: converted, invalid } = useConvertedDocuments(data, converter);
 
-    const unsubscribe = subscribeToDocument(
-      collectionName,
-      docId,
-      (document) => {
-        setData(document);
-        setLoading(false);
-      }
+  return { data: converted, invalid, loading, error };
+};
+
+const LOADING_DOCUMENTS: SharedState<DocumentData[]> = { data: EMPTY_DOCUMENTS, loading: true, error: null };
+
+export interface RealtimeCollectionState<T> {
+  data: T[];
+  invalid: InvalidDocuments;
+  loading: boolean;
+  error: string | null;
+}
+
+// Hook para suscribirse a la misma consulta en varias colecciones a la vez (p. ej. la última lectura de
+// cada dispositivo). Cada colección es una entrada del hub con la misma key que useRealtimeCollection,
+// así que comparte la suscripción con los componentes que piden esa colección por separado.
+export const useRealtimeCollections = <T = DocumentData>(
+  collectionNames: string[],
+  constraints: QueryConstraint[] = [],
+  converter?: DocumentConverter<T>
+): Record<string, RealtimeCollectionState<T>> => {
+  const firestore = useFirestore();
+  const namesKey = collectionNames.join('\n');
+  const names = useMemo(() => (namesKey ? namesKey.split('\n') : []), [namesKey]);
+  const keysKey = names.map(name => `realtime:${createQueryKey(name, constraints)}`).join('\n');
+
+  // Las suscripciones solo dependen de las keys, no de la identidad de las constraints ni del contexto
+  const constraintsRef = useRef(constraints);
+  const firestoreRef = useRef(firestore);
+
+  useEffect(() => {
+    constraintsRef.current = constraints;
+    firestoreRef.current = firestore;
+  }, [constraints, firestore]);
+
+  const subscribe = useCallback((listener: () => void) => {
+    const keys = keysKey ? keysKey.split('\n') : [];
+    const releases = names.map((name, i) => acquireSubscription(keys[i], EMPTY_DOCUMENTS, (emit, fail) =>
+      firestoreRef.current.subscribeToCollection(name, emit, constraintsRef.current, (error) => fail(error.message)),
+      listener
+    ));
+    return () => releases.forEach(release => release());
+  }, [names, keysKey]);
+
+  // Se devuelve el mismo array mientras no cambie ninguna entrada, como exige useSyncExternalStore
+  const snapshotRef = useRef<SharedState<DocumentData[]>[]>([]);
+  const getSnapshot = useCallback(() => {
+    const keys = keysKey ? keysKey.split('\n') : [];
+    const states = keys.map(key =>
+      (sharedSubscriptions.get(key)?.state as SharedState<DocumentData[]> | undefined) ?? LOADING_DOCUMENTS
     );
+    const previous = snapshotRef.current;
+    if (previous.length === states.length && states.every((state, i) => state === previous[i])) return previous;
+    snapshotRef.current = states;
+    return states;
+  }, [keysKey]);
+
+  const states = useSyncExternalStore(subscribe, getSnapshot);
+
+  return useMemo(() => Object.fromEntries(names.map((name, i) => {
+    const { data, loading, error } = states[i] ?? LOADING_DOCUMENTS;
+    const converted = converter
+      ? convertDocuments(data, converter)
+      : { data: data as T[], invalid: NO_INVALID_DOCUMENTS };
+    return [name, { ...converted, loading, error }];
+  })), [names, states, converter]);
+};
 
-    unsubscribeRef.current = unsubscribe;
+// Hook para suscripción en tiempo real a un documento (compartida mediante el hub)
+export const useRealtimeDocument = <T = DocumentData>(
+  collectionName: string,
+  docId: string | null,
+  converter?: DocumentConverter<T>
+) => {
+  const { subscribeToDocument } = useFirestore();
+  const key = docId ? `realtime:${collectionName}/${docId}` : null;
 
-    return () => {
-      if (unsubscribeRef.current) {
-        unsubscribeRef.current();
-        unsubscribeRef.current = null;
-      }
-    };
-  }, [collectionName, docId, subscribeToDocument]);
+  const start = useCallback<StartSubscription>((emit, fail) => subscribeToDocument(
+    collectionName,
+    docId!,
+    emit,
+    (error) => fail(error.message)
+  ), [collectionName, docId, subscribeToDocument]);
 
-  return { data, loading, error };
+  const { data, loading, error } = useSharedSubscription<DocumentData | null>(key, null, start);
+
+  const converted = useMemo((): { data: T | null; invalid: InvalidDocuments } => {
+    if (!data) return { data: null, invalid: NO_INVALID_DOCUMENTS };
+    if (!converter) return { data: data as T, invalid: NO_INVALID_DOCUMENTS };
+
+    const result = convertDocuments([data], converter);
+    return { data: result.data[0] ?? null, invalid: result.invalid };
+  }, [data, converter]);
+
+  return { data: converted.data, invalid: converted.invalid, loading, error };
+};
+
+// Limpiar cache relacionado con las colecciones modificadas
+const clearCollectionCache = (collectionNames: Iterable<string>) => {
+  const names = [...collectionNames];
+  const keysToDelete: string[] = [];
+  queryCache.forEach((_, key) => {
+    if (names.some(name => key.startsWith(name))) {
+      keysToDelete.push(key);
+    }
+  });
+  keysToDelete.forEach(key => queryCache.delete(key));
 };
 
 // Hook para operaciones CRUD con estado de loading
 export const useFirestoreOperations = () => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const { addDocument, updateDocument, deleteDocument } = useFirestore();
+  const { addDocument, setDocument, updateDocument, appendToArray, deleteDocument, writeBatch, runTransaction } = useFirestore();
 
   const add = useCallback(async (collectionName: string, data: DocumentData) => {
     try {
       setLoading(true);
       setError(null);
       const result = await addDocument(collectionName, data);
-
-      // Limpiar cache relacionado cuando se agrega un documento
-      const keysToDelete: string[] = [];
-      queryCache.forEach((_, key) => {
-        if (key.startsWith(collectionName)) {
-          keysToDelete.push(key);
-        }
-      });
-      keysToDelete.forEach(key => queryCache.delete(key));
-
+      clearCollectionCache([collectionName]);
       return result;
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Error al agregar documento');
@@ -325,21 +714,26 @@ export const useFirestoreOperations = () => {
     }
   }, [addDocument]);
 
+  const set = useCallback(async (collectionName: string, docId: string, data: DocumentData) => {
+    try {
+      setLoading(true);
+      setError(null);
+      await setDocument(collectionName, docId, data);
+      clearCollectionCache([collectionName]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al crear documento');
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, [setDocument]);
+
   const update = useCallback(async (collectionName: string, docId: string, data: Partial<DocumentData>) => {
     try {
       setLoading(true);
       setError(null);
       await updateDocument(collectionName, docId, data);
-
-      // Limpiar cache relacionado cuando se actualiza un documento
-      const keysToDelete: string[] = [];
-      queryCache.forEach((_, key) => {
-        if (key.startsWith(collectionName)) {
-          keysToDelete.push(key);
-        }
-      });
-      keysToDelete.forEach(key => queryCache.delete(key));
-
+      clearCollectionCache([collectionName]);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Error al actualizar documento');
       throw err;
@@ -348,21 +742,26 @@ export const useFirestoreOperations = () => {
     }
   }, [updateDocument]);
 
+  const append = useCallback(async (collectionName: string, docId: string, field: string, values: unknown[]) => {
+    try {
+      setLoading(true);
+      setError(null);
+      await appendToArray(collectionName, docId, field, values);
+      clearCollectionCache([collectionName]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al actualizar documento');
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, [appendToArray]);
+
   const remove = useCallback(async (collectionName: string, docId: string) => {
     try {
       setLoading(true);
       setError(null);
       await deleteDocument(collectionName, docId);
-
-      // Limpiar cache relacionado cuando se elimina un documento
-      const keysToDelete: string[] = [];
-      queryCache.forEach((_, key) => {
-        if (key.startsWith(collectionName)) {
-          keysToDelete.push(key);
-        }
-      });
-      keysToDelete.forEach(key => queryCache.delete(key));
-
+      clearCollectionCache([collectionName]);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Error al eliminar documento');
       throw err;
@@ -371,7 +770,56 @@ export const useFirestoreOperations = () => {
     }
   }, [deleteDocument]);
 
-  return { add, update, remove, loading, error };
+  const batch = useCallback(async (operations: BatchOperation[], options?: WriteBatchOptions) => {
+    try {
+      setLoading(true);
+      setError(null);
+      await writeBatch(operations, options);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al escribir el lote');
+      throw err;
+    } finally {
+      // Si falla un lote, los anteriores ya están escritos
+      clearCollectionCache(new Set(operations.map(operation => operation.collection)));
+      setLoading(false);
+    }
+  }, [writeBatch]);
+
+  const transaction = useCallback(async <T>(updateFn: (transaction: FirestoreTransaction) => Promise<T>) => {
+    // Colecciones escritas en el último intento (la transacción puede reintentarse)
+    let written = new Set<string>();
+    try {
+      setLoading(true);
+      setError(null);
+      const result = await runTransaction(async (tx) => {
+        written = new Set();
+        return updateFn({
+          get: tx.get,
+          set: (collectionName, docId, data) => {
+            written.add(collectionName);
+            tx.set(collectionName, docId, data);
+          },
+          update: (collectionName, docId, data, options) => {
+            written.add(collectionName);
+            tx.update(collectionName, docId, data, options);
+          },
+          delete: (collectionName, docId) => {
+            written.add(collectionName);
+            tx.delete(collectionName, docId);
+          },
+        });
+      });
+      clearCollectionCache(written);
+      return result;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error en la transacción');
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, [runTransaction]);
+
+  return { add, set, update, append, remove, batch, transaction, loading, error };
 };
 
 // Hook para limpiar todo el cache
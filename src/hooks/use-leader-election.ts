@@ -0,0 +1,34 @@
+import { useEffect, useState } from 'react';
+
+const supportsLocks = () => typeof navigator !== 'undefined' && 'locks' in navigator;
+
+// Elige una sola pestaña del navegador para una tarea (Web Locks): la que obtiene el lock `name` lo
+// conserva mientras está abierta y, al cerrarse, lo recibe la siguiente. Con `shared` a false (datos que
+// no se comparten entre pestañas, como la fuente en memoria) o sin Web Locks, todas las pestañas son líderes.
+export const useLeaderElection = (name: string, shared = true) => {
+  const [leader, setLeader] = useState(false);
+
+  useEffect(() => {
+    if (!shared || !supportsLocks()) return;
+
+    const controller = new AbortController();
+    navigator.locks
+      .request(name, { signal: controller.signal }, () => {
+        setLeader(true);
+        // El lock se libera al desmontar
+        return new Promise<void>(resolve => controller.signal.addEventListener('abort', () => resolve()));
+      })
+      .catch(error => {
+        if (!(error instanceof DOMException && error.name === 'AbortError')) {
+          console.error(`Error al obtener el lock ${name}:`, error);
+        }
+      });
+
+    return () => {
+      controller.abort();
+      setLeader(false);
+    };
+  }, [name, shared]);
+
+  return leader || !shared || !supportsLocks();
+};
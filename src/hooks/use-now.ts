@@ -0,0 +1,14 @@
+import { useEffect, useState } from 'react';
+
+// Hora actual (ms) que se actualiza cada `intervalMs`, para recalcular estados que dependen del tiempo
+// transcurrido (estado del dispositivo, ventanas deslizantes) sin esperar a que lleguen datos nuevos.
+export const useNow = (intervalMs: number) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+
+  return now;
+};
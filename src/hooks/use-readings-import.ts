@@ -0,0 +1,123 @@
+import { useCallback, useRef, useState } from 'react';
+import { useClearCache, useFirestore } from '@/hooks/use-firestore';
+import { convertDocuments, sensorReadingConverter } from '@/lib/converters';
+import {
+  IMPORT_BATCH_SIZE,
+  getImportedReadingId,
+  toReadingDocument,
+  type ImportedReading,
+} from '@/lib/readings-import';
+
+export type ImportStatus = 'idle' | 'running' | 'paused' | 'done' | 'error';
+
+export interface ImportProgress {
+  status: ImportStatus;
+  // Lecturas del archivo, escritas y omitidas por existir ya una lectura en ese instante
+  total: number;
+  written: number;
+  skipped: number;
+  // Hay lotes pendientes: tras una pausa o un error se puede reanudar sin volver a empezar
+  resumable: boolean;
+  error: string | null;
+}
+
+const INITIAL_PROGRESS: ImportProgress = { status: 'idle', total: 0, written: 0, skipped: 0, resumable: false, error: null };
+
+// Pendiente de escribir: se conserva al pausar o fallar un lote para reanudar desde ese lote
+interface PendingImport {
+  deviceId: string;
+  readings: ImportedReading[];
+}
+
+// Escritura por lotes de lecturas importadas en devices/{id}/readings. Antes de escribir cada lote se
+// descartan las lecturas cuyo instante ya existe en Firestore (consultando solo el intervalo del lote);
+// como el id se deriva del instante, reintentar un lote (o reimportar el archivo más tarde) nunca duplica lecturas.
+export const useReadingsImport = () => {
+  const { getDocuments, writeBatch, whereQuery } = useFirestore();
+  const clearCache = useClearCache();
+  const [progress, setProgress] = useState<ImportProgress>(INITIAL_PROGRESS);
+  const pendingRef = useRef<PendingImport | null>(null);
+  const pausedRef = useRef(false);
+
+  const run = useCallback(async () => {
+    const pending = pendingRef.current;
+    if (!pending) return;
+
+    setProgress(current => ({ ...current, status: 'running', error: null }));
+    try {
+      while (pending.readings.length) {
+        if (pausedRef.current) {
+          setProgress(current => ({ ...current, status: 'paused' }));
+          return;
+        }
+
+        const collectionName = `devices/${pending.deviceId}/readings`;
+        const batch = pending.readings.slice(0, IMPORT_BATCH_SIZE);
+
+        // Lecturas que ya existen en el intervalo del lote (las lecturas llegan ordenadas por instante)
+        const existing = await getDocuments(collectionName, [
+          whereQuery('ts', '>=', batch[0].ts),
+          whereQuery('ts', '<=', batch[batch.length - 1].ts),
+        ]);
+        const existingTimes = new Set(
+          convertDocuments(existing, sensorReadingConverter).data.map(reading => reading.ts.getTime())
+        );
+        const toWrite = batch.filter(reading => !existingTimes.has(reading.ts.getTime()));
+
+        // Cada lote se escribe de forma atómica: si falla, se reintenta entero al reanudar
+        if (toWrite.length) {
+          await writeBatch(toWrite.map(reading => ({
+            type: 'set',
+            collection: collectionName,
+            docId: getImportedReadingId(reading.ts),
+            data: toReadingDocument(reading),
+          })));
+        }
+        pending.readings = pending.readings.slice(batch.length);
+        setProgress(current => ({
+          ...current,
+          written: current.written + toWrite.length,
+          skipped: current.skipped + batch.length - toWrite.length,
+        }));
+      }
+
+      // writeBatch ya invalida la caché de lecturas (IndexedDB) del dispositivo
+      pendingRef.current = null;
+      clearCache();
+      setProgress(current => ({ ...current, status: 'done', resumable: false }));
+    } catch (err) {
+      setProgress(current => ({
+        ...current,
+        status: 'error',
+        error: err instanceof Error ? err.message : 'Error al importar las lecturas',
+      }));
+    }
+  }, [getDocuments, whereQuery, writeBatch, clearCache]);
+
+  const start = useCallback(async (deviceId: string, readings: ImportedReading[]) => {
+    if (!readings.length) return;
+
+    pausedRef.current = false;
+    pendingRef.current = { deviceId, readings };
+    setProgress({ ...INITIAL_PROGRESS, total: readings.length, resumable: true });
+    await run();
+  }, [run]);
+
+  // Se detiene al terminar el lote en curso
+  const pause = useCallback(() => {
+    pausedRef.current = true;
+  }, []);
+
+  const resume = useCallback(() => {
+    pausedRef.current = false;
+    return run();
+  }, [run]);
+
+  const reset = useCallback(() => {
+    pendingRef.current = null;
+    pausedRef.current = false;
+    setProgress(INITIAL_PROGRESS);
+  }, []);
+
+  return { progress, start, pause, resume, reset };
+};
@@ -0,0 +1,341 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import type { DocumentData } from 'firebase/firestore';
+import { useFirestore, useRealtimeCollection, useRealtimeCollections, type PageCursor } from '@/hooks/use-firestore';
+import { useNow } from '@/hooks/use-now';
+import { convertDocuments, sensorReadingConverter, type InvalidDocument } from '@/lib/converters';
+import { getReadingsCache, type InvalidReading } from '@/lib/readings-cache';
+import type { TimeBounds } from '@/lib/time-range';
+import type { SensorReading } from '@/types/models/sensor-reading';
+
+const DEFAULT_PAGE_SIZE = 1000;
+const DEFAULT_MAX_PAGES = 10;
+
+// Modo en vivo: máximo de lecturas que se mantienen en la ventana deslizante,
+// lecturas nuevas que se piden por suscripción y cada cuánto se desplaza la ventana
+const DEFAULT_LIVE_WINDOW_SIZE = 5000;
+const LIVE_BUFFER_SIZE = 500;
+const LIVE_TICK_MS = 5000;
+
+interface ReadingsRangeOptions {
+  pageSize?: number;
+  // Páginas que se cargan automáticamente antes de pedir confirmación con loadMore
+  maxPages?: number;
+}
+
+// Sincronización de la consulta en curso con la caché: desde dónde se piden lecturas a Firestore
+// y qué intervalo queda completo en la caché cuando se terminan de descargar
+interface RangeSync {
+  remoteFrom: number;
+  coverage: { from: number; to: number };
+}
+
+// Instante (ms) de un documento crudo de lectura, aunque el converter lo haya rechazado
+const getDocumentTime = (document: DocumentData): number | null => {
+  const { ts } = document;
+  if (ts instanceof Date) return ts.getTime();
+  if (ts && typeof ts.toMillis === 'function') return ts.toMillis();
+  return null;
+};
+
+// Hook para obtener las lecturas de un dispositivo dentro de una ventana de tiempo.
+// La consulta se hace en Firestore (where ts >= from && ts <= to) y se pagina con cursores,
+// empezando por las lecturas más recientes. Las lecturas mal formadas se reportan en `invalid`.
+// Con la caché de lecturas (IndexedDB) solo se descargan las lecturas posteriores a lo ya cacheado; antes
+// de usarla se compara su recuento con el de Firestore para detectar lecturas escritas después en el intervalo.
+export const useReadingsInRange = (
+  deviceId: string | undefined,
+  bounds: TimeBounds | null,
+  { pageSize = DEFAULT_PAGE_SIZE, maxPages = DEFAULT_MAX_PAGES }: ReadingsRangeOptions = {}
+) => {
+  const [data, setData] = useState<DocumentData[]>([]);
+  const [cached, setCached] = useState<SensorReading[]>([]);
+  const [cachedInvalid, setCachedInvalid] = useState<InvalidDocument[]>([]);
+  // Las lecturas de Firestore ya llegan hasta las cacheadas: hasta entonces no se unen, para no dejar un hueco
+  const [reachedCache, setReachedCache] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [totalCount, setTotalCount] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { getPage, countDocuments, whereQuery, orderByQuery } = useFirestore();
+
+  // Cursor de la última lectura recibida, número de la petición en curso y estado de la sincronización
+  const cursorRef = useRef<PageCursor | null>(null);
+  const requestRef = useRef(0);
+  const syncRef = useRef<RangeSync | null>(null);
+
+  const fromMs = bounds?.from.getTime();
+  const toMs = bounds?.to.getTime();
+
+  const fetchPages = useCallback(async (requestId: number, pages: number) => {
+    const sync = syncRef.current;
+    if (!deviceId || !sync || toMs === undefined) return;
+
+    const cache = getReadingsCache();
+    const constraints = [
+      whereQuery('ts', '>=', new Date(sync.remoteFrom)),
+      whereQuery('ts', '<=', new Date(toMs)),
+      orderByQuery('ts', 'desc'),
+    ];
+
+    for (let pageIndex = 0; pageIndex < pages; pageIndex++) {
+      const page = await getPage(`devices/${deviceId}/readings`, constraints, {
+        pageSize,
+        cursor: cursorRef.current,
+      });
+
+      // Ignorar respuestas de una petición anterior (cambio de rango o dispositivo)
+      if (requestId !== requestRef.current) return;
+
+      setData(prev => [...prev, ...page.docs]);
+      setHasMore(page.hasMore);
+      if (!page.hasMore) setReachedCache(true);
+
+      if (cache) {
+        const { data: readings, invalid } = convertDocuments(page.docs, sensorReadingConverter);
+        // Los inválidos también se guardan para seguir reportándolos cuando el rango sale de la caché
+        const invalidReadings = invalid.reasons.flatMap((document): InvalidReading[] => {
+          const tsMs = getDocumentTime(page.docs.find(candidate => candidate.id === document.id) ?? {});
+          return tsMs === null ? [] : [{ ...document, tsMs }];
+        });
+        cache.putReadings(deviceId, readings, invalidReadings)
+          .then(() => {
+            // El intervalo solo se marca como cubierto cuando se descargó completo
+            if (!page.hasMore) return cache.setCoverage(deviceId, sync.coverage.from, sync.coverage.to);
+          })
+          .catch(err => console.error('Error al guardar lecturas en la caché:', err));
+      }
+
+      if (!page.hasMore) return;
+
+      cursorRef.current = page.endCursor;
+    }
+  }, [deviceId, toMs, pageSize, getPage, whereQuery, orderByQuery]);
+
+  // Usa la caché si cubre el inicio del rango; en ese caso solo se piden las lecturas posteriores
+  const loadRange = useCallback(async (requestId: number, pages: number) => {
+    if (!deviceId || fromMs === undefined || toMs === undefined) return;
+
+    const cache = getReadingsCache();
+    let coverage = cache
+      ? await cache.getCoverage(deviceId).catch(err => {
+        console.error('Error al leer la caché de lecturas:', err);
+        return null;
+      })
+      : null;
+    if (requestId !== requestRef.current) return;
+
+    // El intervalo cubierto solo se usa si Firestore tiene los mismos documentos en la parte que se va a leer
+    // de la caché; si no (lecturas escritas después con un ts anterior), se descarta la caché del dispositivo
+    if (cache && coverage && coverage.from <= fromMs && coverage.to >= fromMs) {
+      const cachedTo = Math.min(toMs, coverage.to);
+      const [remoteCount, cachedCount] = await Promise.all([
+        countDocuments(`devices/${deviceId}/readings`, [
+          whereQuery('ts', '>=', new Date(fromMs)),
+          whereQuery('ts', '<=', new Date(cachedTo)),
+        ]),
+        cache.countDocuments(deviceId, fromMs, cachedTo),
+      ]);
+      if (requestId !== requestRef.current) return;
+
+      if (remoteCount !== cachedCount) {
+        await cache.clearDevice(deviceId);
+        coverage = null;
+      }
+    }
+
+    if (cache && coverage && coverage.from <= fromMs && coverage.to >= fromMs) {
+      const cachedTo = Math.min(toMs, coverage.to);
+      const [cachedReadings, invalidReadings] = await Promise.all([
+        cache.getReadings(deviceId, fromMs, cachedTo),
+        cache.getInvalidReadings(deviceId, fromMs, cachedTo),
+      ]);
+      if (requestId !== requestRef.current) return;
+
+      setCached(cachedReadings);
+      setCachedInvalid(invalidReadings);
+      syncRef.current = {
+        remoteFrom: coverage.to + 1,
+        coverage: { from: coverage.from, to: Math.max(coverage.to, toMs) },
+      };
+
+      // Todo el rango está en la caché: no se hace ninguna lectura en Firestore
+      if (coverage.to >= toMs) {
+        setReachedCache(true);
+        return;
+      }
+    } else {
+      // Si el rango se solapa con lo cacheado se unen; si no, el nuevo intervalo reemplaza al anterior
+      syncRef.current = {
+        remoteFrom: fromMs,
+        coverage: coverage && coverage.from <= toMs && coverage.to >= fromMs
+          ? { from: Math.min(coverage.from, fromMs), to: Math.max(coverage.to, toMs) }
+          : { from: fromMs, to: toMs },
+      };
+    }
+
+    await fetchPages(requestId, pages);
+  }, [deviceId, fromMs, toMs, fetchPages, countDocuments, whereQuery]);
+
+  // Total de lecturas del rango mediante agregación, sin descargar los documentos
+  const fetchCount = useCallback(async (requestId: number) => {
+    if (!deviceId || fromMs === undefined || toMs === undefined) return;
+
+    const count = await countDocuments(`devices/${deviceId}/readings`, [
+      whereQuery('ts', '>=', new Date(fromMs)),
+      whereQuery('ts', '<=', new Date(toMs)),
+    ]);
+    if (requestId === requestRef.current) setTotalCount(count);
+  }, [deviceId, fromMs, toMs, countDocuments, whereQuery]);
+
+  useEffect(() => {
+    const requestId = ++requestRef.current;
+    cursorRef.current = null;
+    syncRef.current = null;
+    setData([]);
+    setCached([]);
+    setCachedInvalid([]);
+    setReachedCache(false);
+    setHasMore(false);
+    setTotalCount(null);
+    setError(null);
+
+    if (!deviceId || fromMs === undefined) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    fetchCount(requestId).catch(err => {
+      console.error('Error al contar lecturas:', err);
+    });
+    loadRange(requestId, maxPages)
+      .catch(err => {
+        if (requestId === requestRef.current) {
+          setError(err instanceof Error ? err.message : 'Error desconocido');
+        }
+      })
+      .finally(() => {
+        if (requestId === requestRef.current) setLoading(false);
+      });
+  }, [deviceId, fromMs, loadRange, fetchCount, maxPages]);
+
+  // Cargar lecturas más antiguas dentro del mismo rango
+  const loadMore = useCallback(async () => {
+    if (!hasMore || loading || loadingMore) return;
+
+    const requestId = requestRef.current;
+    try {
+      setLoadingMore(true);
+      await fetchPages(requestId, 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error desconocido');
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [hasMore, loading, loadingMore, fetchPages]);
+
+  // Las lecturas descargadas son más recientes que las cacheadas (ambas en orden descendente). Las cacheadas
+  // solo se añaden cuando la descarga llega hasta ellas: mientras quede algo entre medias, hasMore sigue
+  // activo y loadMore continúa la descarga
+  const { data: readings, invalid } = useMemo(() => {
+    const converted = convertDocuments(data, sensorReadingConverter);
+    if (!reachedCache) return converted;
+
+    const reasons = [...converted.invalid.reasons, ...cachedInvalid];
+    return {
+      data: cached.length ? [...converted.data, ...cached] : converted.data,
+      invalid: cachedInvalid.length ? { count: reasons.length, reasons } : converted.invalid,
+    };
+  }, [data, cached, cachedInvalid, reachedCache]);
+
+  return { data: readings, invalid, loading, loadingMore, hasMore, totalCount, error, loadMore };
+};
+
+// Hook para la última lectura de un dispositivo, en tiempo real.
+// Usa el hub compartido: todos los componentes que piden la última lectura del mismo
+// dispositivo (tarjeta, página de detalle, ...) comparten una sola suscripción.
+export const useLatestReading = (deviceId: string | undefined) => {
+  const { orderByQuery, limitQuery } = useFirestore();
+
+  const { data, invalid, loading, error } = useRealtimeCollection(
+    deviceId ? `devices/${deviceId}/readings` : null,
+    [orderByQuery('ts', 'desc'), limitQuery(1)],
+    sensorReadingConverter
+  );
+
+  return { data: data[0] ?? null, invalid, loading, error };
+};
+
+// Hook para la última lectura de varios dispositivos. Usa las mismas suscripciones compartidas que
+// useLatestReading: una por dispositivo aunque la pidan varias vistas. Devuelve null si el dispositivo
+// no tiene lecturas y no incluye los que todavía están cargando.
+export const useLatestReadings = (deviceIds: string[]) => {
+  const { orderByQuery, limitQuery } = useFirestore();
+  const collectionNames = useMemo(() => deviceIds.map(deviceId => `devices/${deviceId}/readings`), [deviceIds]);
+
+  const results = useRealtimeCollections(
+    collectionNames,
+    [orderByQuery('ts', 'desc'), limitQuery(1)],
+    sensorReadingConverter
+  );
+
+  return useMemo(() => {
+    const latest: Record<string, SensorReading | null> = {};
+    deviceIds.forEach((deviceId, i) => {
+      const result = results[collectionNames[i]];
+      if (result && !result.loading) latest[deviceId] = result.data[0] ?? null;
+    });
+    return latest;
+  }, [deviceIds, collectionNames, results]);
+};
+
+interface LiveReadingsOptions {
+  enabled?: boolean;
+  // Lecturas máximas en la ventana; al superarlo se descartan las más antiguas
+  maxReadings?: number;
+}
+
+// Hook para el modo en vivo de los gráficos: añade a las lecturas históricas (`historical`, las del
+// rango consultado) las que llegan en tiempo real después de `bounds.to`, y mantiene una ventana
+// deslizante de la misma duración que el rango. Pausar congela el reloj de la ventana: la suscripción
+// sigue activa y al reanudar aparecen también las lecturas que llegaron durante la pausa.
+export const useLiveReadings = (
+  deviceId: string | undefined,
+  bounds: TimeBounds | null,
+  historical: SensorReading[],
+  { enabled = true, maxReadings = DEFAULT_LIVE_WINDOW_SIZE }: LiveReadingsOptions = {}
+) => {
+  const { whereQuery, orderByQuery, limitQuery } = useFirestore();
+  const [pausedAt, setPausedAt] = useState<number | null>(null);
+  const now = useNow(LIVE_TICK_MS);
+
+  const { data: incoming, error } = useRealtimeCollection(
+    enabled && deviceId && bounds ? `devices/${deviceId}/readings` : null,
+    bounds ? [whereQuery('ts', '>', bounds.to), orderByQuery('ts', 'desc'), limitQuery(LIVE_BUFFER_SIZE)] : [],
+    sensorReadingConverter
+  );
+
+  const windowMs = bounds ? bounds.to.getTime() - bounds.from.getTime() : 0;
+  // El reloj avanza por ticks; nunca queda por detrás del fin del rango recién consultado
+  const windowEnd = pausedAt ?? Math.max(now, bounds?.to.getTime() ?? 0);
+
+  const data = useMemo(() => {
+    if (!enabled) return historical;
+
+    const known = new Set(historical.map(reading => reading.id));
+    const windowStart = windowEnd - windowMs;
+
+    return [...historical, ...incoming.filter(reading => !known.has(reading.id))]
+      .filter(reading => reading.ts.getTime() >= windowStart && reading.ts.getTime() <= windowEnd)
+      .sort((a, b) => a.ts.getTime() - b.ts.getTime())
+      .slice(-maxReadings);
+  }, [enabled, historical, incoming, windowEnd, windowMs, maxReadings]);
+
+  const lastUpdate = data.length > 0 ? data[data.length - 1].ts : null;
+
+  const pause = useCallback(() => setPausedAt(Date.now()), []);
+  const resume = useCallback(() => setPausedAt(null), []);
+
+  return { data, paused: pausedAt !== null, lastUpdate, error, pause, resume };
+};
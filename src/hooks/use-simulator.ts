@@ -0,0 +1,24 @@
+import { createContext, useContext } from 'react';
+import type { SimulatedDeviceConfig } from '@/lib/bolt-simulator';
+
+export type SimulatorState = {
+  enabled: boolean
+  running: boolean
+  devices: SimulatedDeviceConfig[]
+  start: () => void
+  stop: () => void
+  injectLoosening: (deviceId: string, severity?: number, rampMinutes?: number) => void
+}
+
+const initialState: SimulatorState = {
+  enabled: false,
+  running: false,
+  devices: [],
+  start: () => null,
+  stop: () => null,
+  injectLoosening: () => null,
+}
+
+export const SimulatorContext = createContext<SimulatorState>(initialState)
+
+export const useSimulator = () => useContext(SimulatorContext)
@@ -0,0 +1,124 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  SPECTRUM_AXES,
+  type SpectrogramResult,
+  type SpectrumAxis,
+  type SpectrumRequest,
+  type SpectrumResult,
+  type WindowFunction
+} from '@/lib/fft';
+import type { SpectrumWorkerRequest, SpectrumWorkerResponse, SpectrumWorkerTask } from '@/workers/spectrum.worker';
+
+const DEFAULT_PEAK_COUNT = 3;
+const DEFAULT_SEGMENT_SIZE = 64;
+const DEFAULT_OVERLAP = 0.5;
+
+export type SpectrumPoint = { timestamp: number } & Record<SpectrumAxis, number>;
+
+interface SpectrumOptions {
+  enabled?: boolean;
+  peakCount?: number;
+}
+
+interface SpectrogramOptions {
+  enabled?: boolean;
+  segmentSize?: number;
+  overlap?: number;
+}
+
+// Respuesta del worker etiquetada con la tarea y la configuración que la produjeron
+interface WorkerResponse<R> {
+  task: SpectrumWorkerTask;
+  config: string;
+  result: R | null;
+  error: string | null;
+}
+
+// Ejecuta `task` en un Web Worker que solo existe mientras hay tarea (null = deshabilitado);
+// los resultados de peticiones anteriores se descartan. `config` resume los parámetros de la tarea salvo
+// las muestras: mientras se calcula una tarea nueva se sigue mostrando el resultado anterior solo si
+// tiene la misma configuración (llegan lecturas nuevas), nunca el de otra serie, ventana o segmento.
+const useSpectrumWorker = <R>(task: SpectrumWorkerTask | null, config: string) => {
+  const enabled = task !== null;
+  const [response, setResponse] = useState<WorkerResponse<R> | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const requestRef = useRef(0);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const worker = new Worker(new URL('../workers/spectrum.worker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+      // Al volver a habilitarse no se muestra el resultado de antes
+      setResponse(null);
+    };
+  }, [enabled]);
+
+  useEffect(() => {
+    const worker = workerRef.current;
+    if (!task || !worker) return;
+
+    const id = ++requestRef.current;
+
+    const handleMessage = (event: MessageEvent<SpectrumWorkerResponse>) => {
+      if (event.data.id !== id) return;
+
+      setResponse({ task, config, result: event.data.result as R | null, error: event.data.error ?? null });
+    };
+
+    worker.addEventListener('message', handleMessage);
+    worker.postMessage({ ...task, id } satisfies SpectrumWorkerRequest);
+
+    return () => worker.removeEventListener('message', handleMessage);
+  }, [task, config]);
+
+  const current = enabled && response?.config === config ? response : null;
+  return {
+    result: current?.result ?? null,
+    computing: enabled && response?.task !== task,
+    error: current?.error ?? null,
+  };
+};
+
+// Hook para el espectro (FFT) de cada eje de las lecturas
+export const useSpectrum = (
+  points: SpectrumPoint[],
+  windowFunction: WindowFunction,
+  { enabled = true, peakCount = DEFAULT_PEAK_COUNT }: SpectrumOptions = {}
+) => {
+  const task = useMemo<SpectrumWorkerTask | null>(() => enabled ? {
+    type: 'spectrum',
+    request: {
+      timestamps: points.map(point => point.timestamp),
+      series: Object.fromEntries(SPECTRUM_AXES.map(axis => [axis, points.map(point => point[axis])])) as SpectrumRequest['series'],
+      windowFunction,
+      peakCount,
+    },
+  } : null, [enabled, points, windowFunction, peakCount]);
+
+  return useSpectrumWorker<SpectrumResult>(task, `spectrum:${windowFunction}:${peakCount}`);
+};
+
+// Hook para el espectrograma (STFT) de una serie de las lecturas
+export const useSpectrogram = <T extends { timestamp: number }>(
+  points: T[],
+  key: keyof T,
+  windowFunction: WindowFunction,
+  { enabled = true, segmentSize = DEFAULT_SEGMENT_SIZE, overlap = DEFAULT_OVERLAP }: SpectrogramOptions = {}
+) => {
+  const task = useMemo<SpectrumWorkerTask | null>(() => enabled ? {
+    type: 'spectrogram',
+    request: {
+      timestamps: points.map(point => point.timestamp),
+      values: points.map(point => point[key] as number),
+      windowFunction,
+      segmentSize,
+      overlap,
+    },
+  } : null, [enabled, points, key, windowFunction, segmentSize, overlap]);
+
+  return useSpectrumWorker<SpectrogramResult>(task, `spectrogram:${String(key)}:${windowFunction}:${segmentSize}:${overlap}`);
+};
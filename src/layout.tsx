@@ -3,14 +3,23 @@ import {AppSidebar} from "@/components/sidebar/app-sidebar.tsx";
 import {Outlet} from "react-router";
 import {ThemeProvider} from "@/components/providers/theme-provider.tsx";
 import {FirestoreProvider} from "@/components/providers/firestore-provider.tsx";
+import {SimulatorProvider} from "@/components/providers/simulator-provider.tsx";
+import {AlertEngineProvider} from "@/components/providers/alert-engine-provider.tsx";
+import {DeviceStatusProvider} from "@/components/providers/device-status-provider.tsx";
 
 export const Layout = () => <ThemeProvider>
   <FirestoreProvider>
-    <SidebarProvider>
-      <AppSidebar/>
-      <main className={"p-4 w-full min-h-screen"}>
-        <Outlet/>
-      </main>
-    </SidebarProvider>
+    <SimulatorProvider>
+      <DeviceStatusProvider>
+        <AlertEngineProvider>
+          <SidebarProvider>
+            <AppSidebar/>
+            <main className={"p-4 w-full min-h-screen"}>
+              <Outlet/>
+            </main>
+          </SidebarProvider>
+        </AlertEngineProvider>
+      </DeviceStatusProvider>
+    </SimulatorProvider>
   </FirestoreProvider>
 </ThemeProvider>
\ No newline at end of file
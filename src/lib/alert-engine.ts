@@ -0,0 +1,167 @@
+import { evaluateRule, getRuleWindowMs, ruleAppliesToDevice } from '@/lib/alert-rules';
+import type { Alert } from '@/types/models/alert';
+import type { AlertRule } from '@/types/models/alert-rule';
+import type { Device } from '@/types/models/device';
+import type { SensorReading } from '@/types/models/sensor-reading';
+
+// Acceso a los datos que necesita el motor (Firestore o el store en memoria, a través del contexto)
+export interface AlertEngineSource {
+  // Lecturas del dispositivo posteriores a `after` (ts > after), en orden cronológico
+  getReadings: (deviceId: string, after: Date) => Promise<SensorReading[]>;
+  // Instante de la última lectura del dispositivo (null si no tiene), cuando no está en `latestReadings`
+  getLastReadingAt: (deviceId: string) => Promise<Date | null>;
+  // Debe ser idempotente: no crea la alerta si ya hay una abierta de la misma regla y dispositivo,
+  // aunque la haya creado el motor de otra pestaña. createdAt lo añade el provider
+  createAlert: (alert: Omit<Alert, 'id' | 'createdAt' | 'acknowledgedAt' | 'resolvedAt'>) => Promise<void>;
+}
+
+export interface AlertEngineState {
+  rules: AlertRule[];
+  devices: Device[];
+  // Alertas sin resolver: mientras exista una, la misma regla no vuelve a dispararse en ese dispositivo
+  openAlerts: Pick<Alert, 'ruleId' | 'deviceId'>[];
+  // Última lectura de cada dispositivo vigilado (null si no tiene, ausente mientras carga)
+  latestReadings: Record<string, SensorReading | null>;
+}
+
+const getAlertKey = (ruleId: string, deviceId: string) => `${ruleId}/${deviceId}`;
+
+// Lecturas en memoria de un dispositivo desde `from` (ms) hasta la última leída
+interface ReadingWindow {
+  from: number;
+  readings: SensorReading[];
+}
+
+// Motor de alertas: evalúa las reglas activas de cada dispositivo y registra un disparo por regla y
+// dispositivo hasta que la alerta se resuelve. Las evaluaciones de un mismo dispositivo no se solapan.
+// La ventana de lecturas de cada dispositivo se conserva entre evaluaciones: solo se piden las posteriores
+// a la última leída y se descartan las que salen de la ventana.
+export class AlertEngine {
+  private state: AlertEngineState = { rules: [], devices: [], openAlerts: [], latestReadings: {} };
+  private openAlerts = new Set<string>();
+  // Alertas creadas que todavía no aparecen en `openAlerts` (la suscripción llega después)
+  private createdAlerts = new Set<string>();
+  private running = new Map<string, Promise<void>>();
+  private queued = new Set<string>();
+  private windows = new Map<string, ReadingWindow>();
+  private source: AlertEngineSource;
+
+  constructor(source: AlertEngineSource) {
+    this.source = source;
+  }
+
+  update(state: AlertEngineState) {
+    this.state = state;
+    this.openAlerts = new Set(state.openAlerts.map(alert => getAlertKey(alert.ruleId, alert.deviceId)));
+    this.createdAlerts.forEach(key => {
+      if (this.openAlerts.has(key)) this.createdAlerts.delete(key);
+    });
+
+    const watched = new Set(this.watchedDevices.map(device => device.id));
+    this.windows.forEach((_, deviceId) => {
+      if (!watched.has(deviceId)) this.windows.delete(deviceId);
+    });
+  }
+
+  getRulesForDevice(device: Device) {
+    return this.state.rules.filter(rule => rule.enabled && ruleAppliesToDevice(rule, device));
+  }
+
+  // Dispositivos con al menos una regla activa
+  get watchedDevices() {
+    return this.state.devices.filter(device => this.getRulesForDevice(device).length > 0);
+  }
+
+  evaluateDevice(deviceId: string): Promise<void> {
+    const current = this.running.get(deviceId);
+    if (current) {
+      // Se vuelve a evaluar al terminar la evaluación en curso
+      this.queued.add(deviceId);
+      return current;
+    }
+
+    const run = this.runDevice(deviceId)
+      .catch(error => console.error(`Error al evaluar las reglas de alerta de ${deviceId}:`, error))
+      .finally(() => {
+        this.running.delete(deviceId);
+        if (this.queued.delete(deviceId)) this.evaluateDevice(deviceId);
+      });
+    this.running.set(deviceId, run);
+    return run;
+  }
+
+  async evaluateAll() {
+    await Promise.all(this.watchedDevices.map(device => this.evaluateDevice(device.id)));
+  }
+
+  private async runDevice(deviceId: string) {
+    const device = this.state.devices.find(candidate => candidate.id === deviceId);
+    if (!device) return;
+
+    // Las reglas con una alerta abierta no pueden dispararse: si no queda ninguna no se lee nada
+    const rules = this.getRulesForDevice(device).filter(rule => !this.isOpen(rule.id, deviceId));
+    if (!rules.length) return;
+
+    const now = Date.now();
+    // Solo las reglas de umbral necesitan lecturas, y solo las de su ventana
+    const thresholdRules = rules.filter(rule => rule.condition.type === 'threshold');
+    const readings = thresholdRules.length
+      ? await this.getWindow(deviceId, now - Math.max(...thresholdRules.map(getRuleWindowMs)))
+      : [];
+
+    // Las reglas de "sin lecturas" solo necesitan el instante de la última lectura
+    let lastReadingAt: Date | null = null;
+    if (rules.some(rule => rule.condition.type === 'no-data')) {
+      const latest = this.state.latestReadings[deviceId];
+      lastReadingAt = latest !== undefined
+        ? latest?.ts ?? null
+        : readings[readings.length - 1]?.ts ?? await this.source.getLastReadingAt(deviceId);
+      lastReadingAt ??= device.lastActive ?? null;
+    }
+
+    for (const rule of rules) {
+      const key = getAlertKey(rule.id, deviceId);
+      if (this.isOpen(rule.id, deviceId)) continue;
+
+      const evaluation = evaluateRule(rule, readings, lastReadingAt, now);
+      if (!evaluation) continue;
+
+      // Se marca antes de escribir para no duplicar el disparo mientras llega la suscripción de alerts
+      this.createdAlerts.add(key);
+      try {
+        await this.source.createAlert({
+          ruleId: rule.id,
+          ruleName: rule.name,
+          deviceId,
+          deviceName: device.name,
+          severity: rule.severity,
+          status: 'active',
+          comments: [],
+          ...evaluation,
+        });
+      } catch (error) {
+        this.createdAlerts.delete(key);
+        throw error;
+      }
+    }
+  }
+
+  private isOpen(ruleId: string, deviceId: string) {
+    const key = getAlertKey(ruleId, deviceId);
+    return this.openAlerts.has(key) || this.createdAlerts.has(key);
+  }
+
+  // Lecturas desde `from`: amplía la ventana guardada con las posteriores a su última lectura. Si la ventana
+  // guardada empieza después de `from` (una regla con una ventana mayor) se vuelve a leer entera
+  private async getWindow(deviceId: string, from: number) {
+    const cached = this.windows.get(deviceId);
+    const reusable = cached && cached.from <= from ? cached.readings : [];
+    // Sin lecturas guardadas se piden todas desde `from` (ts > from - 1 ms)
+    const after = reusable[reusable.length - 1]?.ts ?? new Date(from - 1);
+
+    const fresh = await this.source.getReadings(deviceId, after);
+    const readings = [...reusable, ...fresh].filter(reading => reading.ts.getTime() >= from);
+    this.windows.set(deviceId, { from, readings });
+    return readings;
+  }
+}
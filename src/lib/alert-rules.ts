@@ -0,0 +1,137 @@
+// Evaluación de las reglas de alerta (colección alertRules) sobre las lecturas de un dispositivo.
+// Las funciones son puras: AlertEngine decide cuándo evaluar y registra los disparos en alerts.
+import { computeStatistics } from '@/lib/statistics';
+import type { Device } from '@/types/models/device';
+import type { SensorReading } from '@/types/models/sensor-reading';
+import type { AlertAggregate, AlertMetric, AlertRule, AlertSeverity } from '@/types/models/alert-rule';
+import type { AlertStatus } from '@/types/models/alert';
+
+// `variant` es la variante del Badge con la que se muestra la severidad
+export const ALERT_SEVERITIES: { value: AlertSeverity; label: string; variant: 'outline' | 'secondary' | 'destructive' }[] = [
+  { value: 'info', label: 'Información', variant: 'outline' },
+  { value: 'warning', label: 'Advertencia', variant: 'secondary' },
+  { value: 'critical', label: 'Crítica', variant: 'destructive' },
+];
+
+export const ALERT_METRICS: { value: AlertMetric; label: string }[] = [
+  { value: 'accel_x', label: 'Acelerómetro X' },
+  { value: 'accel_y', label: 'Acelerómetro Y' },
+  { value: 'accel_z', label: 'Acelerómetro Z' },
+  { value: 'accel_magnitude', label: 'Acelerómetro |a|' },
+  { value: 'gyro_x', label: 'Giroscopio X' },
+  { value: 'gyro_y', label: 'Giroscopio Y' },
+  { value: 'gyro_z', label: 'Giroscopio Z' },
+  { value: 'gyro_magnitude', label: 'Giroscopio |ω|' },
+];
+
+export const ALERT_AGGREGATES: { value: AlertAggregate; label: string }[] = [
+  { value: 'rms', label: 'RMS' },
+  { value: 'peak', label: 'Pico' },
+  { value: 'mean', label: 'Media' },
+];
+
+const getLabel = <T extends string>(options: { value: T; label: string }[], value: T) =>
+  options.find(option => option.value === value)?.label ?? value;
+
+export const ALERT_STATUSES: { value: AlertStatus; label: string }[] = [
+  { value: 'active', label: 'Activa' },
+  { value: 'acknowledged', label: 'Reconocida' },
+  { value: 'resolved', label: 'Resuelta' },
+];
+
+export const getStatusLabel = (status: AlertStatus) => getLabel(ALERT_STATUSES, status);
+
+export const getSeverityLabel = (severity: AlertSeverity) => getLabel(ALERT_SEVERITIES, severity);
+
+export const getSeverityVariant = (severity: AlertSeverity) =>
+  ALERT_SEVERITIES.find(option => option.value === severity)?.variant ?? 'outline';
+
+export const getMetricValue = (reading: SensorReading, metric: AlertMetric) => {
+  const [sensor, axis] = metric.split('_') as ['accel' | 'gyro', 'x' | 'y' | 'z' | 'magnitude'];
+  const vector = reading.avg[sensor];
+  return axis === 'magnitude' ? Math.hypot(vector.x, vector.y, vector.z) : vector[axis];
+};
+
+// Una regla sin dispositivo ni grupo se aplica a todos los dispositivos (salvo los dados de baja)
+export const ruleAppliesToDevice = (rule: AlertRule, device: Device) => {
+  if (device.decommissionedAt) return false;
+  if (rule.deviceId) return rule.deviceId === device.id;
+  if (rule.groupId) return rule.groupId === device.groupId;
+  return true;
+};
+
+// Duración (ms) de lecturas que necesita la regla
+export const getRuleWindowMs = (rule: AlertRule) => {
+  return (rule.condition.type === 'threshold' ? rule.condition.windowMinutes : rule.condition.minutes) * 60000;
+};
+
+// Texto legible de la condición, p. ej. "RMS de Acelerómetro |a| > 0.5 durante 5 min"
+export const describeCondition = (rule: AlertRule) => {
+  const { condition } = rule;
+  if (condition.type === 'no-data') return `Sin lecturas durante ${condition.minutes} min`;
+
+  return `${getLabel(ALERT_AGGREGATES, condition.aggregate)} de ${getLabel(ALERT_METRICS, condition.metric)} ` +
+    `${condition.operator} ${condition.threshold} durante ${condition.windowMinutes} min`;
+};
+
+export interface AlertEvaluation {
+  value: number | null;
+  threshold: number | null;
+  windowFrom: Date;
+  windowTo: Date;
+  message: string;
+}
+
+const aggregate = (values: number[], type: AlertAggregate) => {
+  const statistics = computeStatistics(values);
+  if (!statistics) return null;
+
+  switch (type) {
+    case 'rms': return statistics.rms;
+    case 'mean': return statistics.mean;
+    case 'peak': return Math.max(Math.abs(statistics.min), Math.abs(statistics.max));
+  }
+};
+
+// Evalúa la regla en `now`. `readings` son las lecturas de la ventana de la regla y `lastReadingAt`
+// el instante de la última lectura del dispositivo (aunque sea anterior a la ventana).
+// Devuelve null si la regla no se cumple.
+export const evaluateRule = (
+  rule: AlertRule,
+  readings: SensorReading[],
+  lastReadingAt: Date | null,
+  now: number
+): AlertEvaluation | null => {
+  const { condition } = rule;
+  const windowFrom = now - getRuleWindowMs(rule);
+
+  if (condition.type === 'no-data') {
+    if (lastReadingAt && lastReadingAt.getTime() >= windowFrom) return null;
+
+    const minutes = lastReadingAt ? Math.floor((now - lastReadingAt.getTime()) / 60000) : null;
+    return {
+      value: minutes,
+      threshold: condition.minutes,
+      windowFrom: lastReadingAt ?? new Date(windowFrom),
+      windowTo: new Date(now),
+      message: minutes !== null
+        ? `Sin lecturas desde hace ${minutes} min (límite ${condition.minutes} min)`
+        : 'El dispositivo no tiene lecturas',
+    };
+  }
+
+  const window = readings.filter(reading => reading.ts.getTime() >= windowFrom && reading.ts.getTime() <= now);
+  const value = aggregate(window.map(reading => getMetricValue(reading, condition.metric)), condition.aggregate);
+  if (value === null) return null;
+
+  const triggered = condition.operator === '>' ? value > condition.threshold : value < condition.threshold;
+  if (!triggered) return null;
+
+  return {
+    value,
+    threshold: condition.threshold,
+    windowFrom: window[0].ts,
+    windowTo: window[window.length - 1].ts,
+    message: `${describeCondition(rule)}: valor ${value.toFixed(3)} en ${window.length} lecturas`,
+  };
+};
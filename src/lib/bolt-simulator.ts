@@ -0,0 +1,252 @@
+import { collection, doc, addDoc, setDoc, writeBatch, type Firestore } from 'firebase/firestore';
+import type { MemoryStore } from '@/lib/memory-store';
+import type { Vector3 } from '@/types/models/sensor-reading';
+
+const GRAVITY = 9.81;
+
+// Límite de operaciones por lote de Firestore
+const BACKFILL_BATCH_SIZE = 500;
+
+// Evento de aflojamiento: a partir de `startMinutes` (relativo al inicio de la simulación, puede ser
+// negativo para que aparezca en el histórico) la severidad sube linealmente durante `rampMinutes`.
+export interface LooseningEvent {
+  startMinutes: number;
+  rampMinutes: number;
+  // 0 = perno apretado, 1 = perno completamente suelto
+  severity: number;
+}
+
+export interface SimulatedDeviceConfig {
+  id: string;
+  name: string;
+  // Cada cuánto el dispositivo escribe una lectura (promedio de la ventana)
+  reportIntervalMs: number;
+  // Frecuencia de muestreo del sensor; define `count` por lectura
+  sampleRateHz: number;
+  // Desviación estándar del ruido de cada muestra (m/s² en accel, rad/s en gyro se escala x0.1)
+  noise: number;
+  // Deriva lineal por hora del eje X del acelerómetro y Z del giroscopio
+  driftPerHour: number;
+  // Probabilidad de que una lectura se pierda
+  dropoutRate: number;
+  // Frecuencia y amplitud de la vibración estructural observada en las lecturas
+  resonanceHz: number;
+  vibrationAmplitude: number;
+  loosening?: LooseningEvent[];
+}
+
+export interface SimulatorConfig {
+  // Minutos de histórico que se generan al iniciar
+  backfillMinutes: number;
+  devices: SimulatedDeviceConfig[];
+}
+
+// Documento con la forma exacta de devices/{id}/readings
+export interface SimulatedReading {
+  ts: Date;
+  count: number;
+  last: { accel: Vector3; gyro: Vector3; ts_local: number };
+  avg: { accel: Vector3; gyro: Vector3 };
+}
+
+// Destino de las lecturas generadas (store en memoria o emulador)
+export interface SimulatorSink {
+  writeReading: (deviceId: string, reading: SimulatedReading) => Promise<void>;
+  // Escritura del histórico en bloque
+  writeReadings: (deviceId: string, readings: SimulatedReading[]) => Promise<void>;
+  upsertDevice: (device: { id: string; name: string; lastActive: Date }) => Promise<void>;
+}
+
+// Ruido gaussiano (Box-Muller)
+const gaussian = (stdDev: number) => {
+  const u = 1 - Math.random();
+  const v = Math.random();
+  return stdDev * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+const roundVector = ({ x, y, z }: Vector3): Vector3 => ({ x: round(x), y: round(y), z: round(z) });
+
+export const getLooseningSeverity = (events: LooseningEvent[] = [], elapsedMinutes: number) => {
+  return events.reduce((severity, event) => {
+    if (elapsedMinutes < event.startMinutes) return severity;
+    const progress = event.rampMinutes > 0
+      ? Math.min(1, (elapsedMinutes - event.startMinutes) / event.rampMinutes)
+      : 1;
+    return Math.max(severity, event.severity * progress);
+  }, 0);
+};
+
+// Genera la lectura de un dispositivo en el instante `time`. `startTime` es el arranque del dispositivo.
+export const generateReading = (config: SimulatedDeviceConfig, time: number, startTime: number): SimulatedReading => {
+  const elapsedMinutes = (time - startTime) / 60000;
+  const severity = getLooseningSeverity(config.loosening, elapsedMinutes);
+
+  // Un perno flojo vibra más, con una frecuencia de resonancia menor y con una ligera inclinación
+  const amplitude = config.vibrationAmplitude * (1 + 4 * severity);
+  const frequency = config.resonanceHz * (1 - 0.3 * severity);
+  const tiltAngle = 0.02 * severity; // rad
+  const drift = config.driftPerHour * (elapsedMinutes / 60);
+
+  const phase = 2 * Math.PI * frequency * (time / 1000);
+  const vibration = amplitude * Math.sin(phase);
+  const angularVibration = 0.1 * amplitude * Math.cos(phase) * 2 * Math.PI * frequency;
+
+  const count = Math.max(1, Math.round(config.sampleRateHz * config.reportIntervalMs / 1000 * (0.95 + Math.random() * 0.1)));
+  // El promedio de `count` muestras reduce el ruido en √count
+  const avgNoise = config.noise / Math.sqrt(count);
+  const gyroNoise = config.noise * 0.1 * (1 + 2 * severity);
+
+  const accel = {
+    x: GRAVITY * Math.sin(tiltAngle) + drift + 0.4 * vibration,
+    y: 0.3 * vibration,
+    z: GRAVITY * Math.cos(tiltAngle) + vibration,
+  };
+  const gyro = {
+    x: angularVibration,
+    y: 0.5 * angularVibration,
+    z: drift * 0.01,
+  };
+
+  return {
+    ts: new Date(time),
+    count,
+    last: {
+      accel: roundVector({ x: accel.x + gaussian(config.noise), y: accel.y + gaussian(config.noise), z: accel.z + gaussian(config.noise) }),
+      gyro: roundVector({ x: gyro.x + gaussian(gyroNoise), y: gyro.y + gaussian(gyroNoise), z: gyro.z + gaussian(gyroNoise) }),
+      ts_local: Math.round(time - startTime),
+    },
+    avg: {
+      accel: roundVector({ x: accel.x + gaussian(avgNoise), y: accel.y + gaussian(avgNoise), z: accel.z + gaussian(avgNoise) }),
+      gyro: roundVector({
+        x: gyro.x + gaussian(gyroNoise / Math.sqrt(count)),
+        y: gyro.y + gaussian(gyroNoise / Math.sqrt(count)),
+        z: gyro.z + gaussian(gyroNoise / Math.sqrt(count)),
+      }),
+    },
+  };
+};
+
+export const createMemorySink = (store: MemoryStore): SimulatorSink => ({
+  writeReading: async (deviceId, reading) => {
+    store.add(`devices/${deviceId}/readings`, reading);
+  },
+  writeReadings: async (deviceId, readings) => {
+    readings.forEach(reading => store.add(`devices/${deviceId}/readings`, reading));
+  },
+  upsertDevice: async ({ id, name, lastActive }) => {
+    if (store.getDocument('devices', id)) {
+      store.update('devices', id, { lastActive });
+    } else {
+      store.set('devices', id, { name, lastActive });
+    }
+  },
+});
+
+export const createFirestoreSink = (db: Firestore): SimulatorSink => ({
+  writeReading: async (deviceId, reading) => {
+    await addDoc(collection(db, `devices/${deviceId}/readings`), reading);
+  },
+  writeReadings: async (deviceId, readings) => {
+    const readingsRef = collection(db, `devices/${deviceId}/readings`);
+    for (let i = 0; i < readings.length; i += BACKFILL_BATCH_SIZE) {
+      const batch = writeBatch(db);
+      readings.slice(i, i + BACKFILL_BATCH_SIZE).forEach(reading => batch.set(doc(readingsRef), reading));
+      await batch.commit();
+    }
+  },
+  upsertDevice: async ({ id, name, lastActive }) => {
+    await setDoc(doc(db, 'devices', id), { name, lastActive }, { merge: true });
+  },
+});
+
+// Simulador de pernos: escribe lecturas periódicas de cada dispositivo configurado en el sink
+export class BoltSimulator {
+  private timers = new Map<string, ReturnType<typeof setInterval>>();
+  private startTime = Date.now();
+  private backfillPromise: Promise<void> | null = null;
+  // Cambia con cada stop(), para descartar un start() que sigue esperando al histórico
+  private generation = 0;
+  private config: SimulatorConfig;
+  private sink: SimulatorSink;
+
+  constructor(config: SimulatorConfig, sink: SimulatorSink) {
+    // Copia para que los eventos inyectados no modifiquen el escenario original
+    this.config = structuredClone(config);
+    this.sink = sink;
+  }
+
+  get running() {
+    return this.timers.size > 0;
+  }
+
+  get devices() {
+    return this.config.devices;
+  }
+
+  // Genera el histórico configurado en backfillMinutes (con las mismas pérdidas y eventos).
+  // Se genera una sola vez: las llamadas siguientes devuelven la misma promesa.
+  backfill() {
+    this.backfillPromise ??= this.writeBackfill();
+    return this.backfillPromise;
+  }
+
+  private async writeBackfill() {
+    const now = Date.now();
+    const from = now - this.config.backfillMinutes * 60000;
+
+    await Promise.all(this.config.devices.map(async device => {
+      const readings: SimulatedReading[] = [];
+      for (let time = from; time <= now; time += device.reportIntervalMs) {
+        if (Math.random() < device.dropoutRate) continue;
+        readings.push(generateReading(device, time, this.startTime));
+      }
+      if (!readings.length) return;
+
+      await this.sink.writeReadings(device.id, readings);
+      await this.sink.upsertDevice({ id: device.id, name: device.name, lastActive: readings[readings.length - 1].ts });
+    }));
+  }
+
+  // Las lecturas en vivo empiezan cuando termina el histórico. Devuelve si el simulador quedó en marcha
+  // (false si se llamó a stop() mientras se esperaba al histórico).
+  async start() {
+    const generation = this.generation;
+    await this.backfill();
+    if (generation !== this.generation) return false;
+    if (this.running) return true;
+
+    this.config.devices.forEach(device => {
+      const timer = setInterval(() => {
+        if (Math.random() < device.dropoutRate) return;
+
+        const reading = generateReading(device, Date.now(), this.startTime);
+        Promise.all([
+          this.sink.writeReading(device.id, reading),
+          this.sink.upsertDevice({ id: device.id, name: device.name, lastActive: reading.ts }),
+        ]).catch(error => {
+          console.error(`Error al escribir lectura simulada de ${device.id}:`, error);
+        });
+      }, device.reportIntervalMs);
+
+      this.timers.set(device.id, timer);
+    });
+    return true;
+  }
+
+  stop() {
+    this.generation++;
+    this.timers.forEach(timer => clearInterval(timer));
+    this.timers.clear();
+  }
+
+  // Inyecta un aflojamiento que empieza ahora
+  injectLoosening(deviceId: string, severity: number, rampMinutes: number) {
+    const device = this.config.devices.find(d => d.id === deviceId);
+    if (!device) return;
+
+    const elapsedMinutes = (Date.now() - this.startTime) / 60000;
+    device.loosening = [...(device.loosening ?? []), { startMinutes: elapsedMinutes, rampMinutes, severity }];
+  }
+}
@@ -0,0 +1,258 @@
+import type { DocumentData } from 'firebase/firestore';
+import type { BoltSpec, Device } from '@/types/models/device';
+import type { DeviceGroup } from '@/types/models/device-group';
+import type { Site, Structure } from '@/types/models/site';
+import type { DeviceStatusChange } from '@/types/models/device-status';
+import type { SensorReading, Vector3 } from '@/types/models/sensor-reading';
+import type { AlertCondition, AlertRule } from '@/types/models/alert-rule';
+import type { Alert, AlertComment } from '@/types/models/alert';
+import { ALERT_AGGREGATES, ALERT_METRICS, ALERT_SEVERITIES, ALERT_STATUSES } from '@/lib/alert-rules';
+import { DEVICE_STATUSES } from '@/lib/device-status';
+
+export type ConversionResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; reason: string };
+
+// Convierte un documento plano de Firestore ({ id, ...data }) a un modelo tipado, validándolo
+export interface DocumentConverter<T> {
+  name: string;
+  fromFirestore: (data: DocumentData) => ConversionResult<T>;
+}
+
+export interface InvalidDocument {
+  id: string;
+  reason: string;
+}
+
+export interface InvalidDocuments {
+  count: number;
+  reasons: InvalidDocument[];
+}
+
+export const NO_INVALID_DOCUMENTS: InvalidDocuments = { count: 0, reasons: [] };
+
+// Crea un converter a partir de una función que lanza un Error con el motivo si el documento es inválido
+export const createConverter = <T>(name: string, parse: (data: DocumentData) => T): DocumentConverter<T> => ({
+  name,
+  fromFirestore: (data) => {
+    try {
+      return { ok: true, value: parse(data) };
+    } catch (error) {
+      return { ok: false, reason: error instanceof Error ? error.message : String(error) };
+    }
+  },
+});
+
+// Aplica un converter a una lista de documentos, separando los válidos de los inválidos
+export const convertDocuments = <T>(documents: DocumentData[], converter: DocumentConverter<T>) => {
+  const data: T[] = [];
+  const reasons: InvalidDocument[] = [];
+
+  documents.forEach(document => {
+    const result = converter.fromFirestore(document);
+    if (result.ok) {
+      data.push(result.value);
+    } else {
+      reasons.push({ id: typeof document.id === 'string' ? document.id : '(sin id)', reason: result.reason });
+    }
+  });
+
+  return { data, invalid: { count: reasons.length, reasons } as InvalidDocuments };
+};
+
+// Helpers de validación
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const readRecord = (value: unknown, path: string): Record<string, unknown> => {
+  if (!isRecord(value)) throw new Error(`'${path}' no es un objeto`);
+  return value;
+};
+
+export const readNumber = (value: unknown, path: string): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(`'${path}' no es un número válido`);
+  }
+  return value;
+};
+
+export const readString = (value: unknown, path: string): string => {
+  if (typeof value !== 'string' || !value.trim()) throw new Error(`'${path}' no es un texto válido`);
+  return value;
+};
+
+export const readBoolean = (value: unknown, path: string): boolean => {
+  if (typeof value !== 'boolean') throw new Error(`'${path}' no es un booleano`);
+  return value;
+};
+
+// Valor que debe ser uno de `options`
+export const readEnum = <T extends string>(value: unknown, options: readonly T[], path: string): T => {
+  if (!options.includes(value as T)) throw new Error(`'${path}' debe ser uno de: ${options.join(', ')}`);
+  return value as T;
+};
+
+// Acepta Timestamp de Firestore, Date, milisegundos o cadenas ISO
+export const readDate = (value: unknown, path: string): Date => {
+  let date: Date | null = null;
+
+  if (value instanceof Date) {
+    date = value;
+  } else if (isRecord(value) && typeof value.toDate === 'function') {
+    date = (value.toDate as () => Date)();
+  } else if (typeof value === 'number' || typeof value === 'string') {
+    date = new Date(value);
+  }
+
+  if (!date || Number.isNaN(date.getTime())) throw new Error(`'${path}' no es una fecha válida`);
+  return date;
+};
+
+const readVector3 = (value: unknown, path: string): Vector3 => {
+  const vector = readRecord(value, path);
+  return {
+    x: readNumber(vector.x, `${path}.x`),
+    y: readNumber(vector.y, `${path}.y`),
+    z: readNumber(vector.z, `${path}.z`),
+  };
+};
+
+const readBoltSpec = (value: unknown, path: string): BoltSpec => {
+  const bolt = readRecord(value, path);
+  return {
+    diameterMm: bolt.diameterMm != null ? readNumber(bolt.diameterMm, `${path}.diameterMm`) : undefined,
+    grade: bolt.grade != null ? readString(bolt.grade, `${path}.grade`) : undefined,
+    nominalTorqueNm: bolt.nominalTorqueNm != null ? readNumber(bolt.nominalTorqueNm, `${path}.nominalTorqueNm`) : undefined,
+  };
+};
+
+const DEVICE_STATUS_VALUES = DEVICE_STATUSES.map(option => option.value);
+
+export const deviceConverter = createConverter<Device>('Device', (data) => ({
+  id: readString(data.id, 'id'),
+  name: readString(data.name, 'name'),
+  lastActive: data.lastActive != null ? readDate(data.lastActive, 'lastActive') : undefined,
+  groupId: data.groupId != null ? readString(data.groupId, 'groupId') : undefined,
+  expectedIntervalSeconds: data.expectedIntervalSeconds != null
+    ? readNumber(data.expectedIntervalSeconds, 'expectedIntervalSeconds')
+    : undefined,
+  status: data.status != null ? readEnum(data.status, DEVICE_STATUS_VALUES, 'status') : undefined,
+  statusChangedAt: data.statusChangedAt != null ? readDate(data.statusChangedAt, 'statusChangedAt') : undefined,
+  location: data.location != null ? readString(data.location, 'location') : undefined,
+  installedAt: data.installedAt != null ? readDate(data.installedAt, 'installedAt') : undefined,
+  bolt: data.bolt != null ? readBoltSpec(data.bolt, 'bolt') : undefined,
+  notes: typeof data.notes === 'string' && data.notes.trim() ? data.notes : undefined,
+  decommissionedAt: data.decommissionedAt != null ? readDate(data.decommissionedAt, 'decommissionedAt') : undefined,
+}));
+
+export const deviceGroupConverter = createConverter<DeviceGroup>('DeviceGroup', (data) => ({
+  id: readString(data.id, 'id'),
+  name: data.name != null ? readString(data.name, 'name') : readString(data.id, 'id'),
+  structureId: data.structureId != null ? readString(data.structureId, 'structureId') : undefined,
+  expectedIntervalSeconds: data.expectedIntervalSeconds != null
+    ? readNumber(data.expectedIntervalSeconds, 'expectedIntervalSeconds')
+    : undefined,
+}));
+
+export const siteConverter = createConverter<Site>('Site', (data) => ({
+  id: readString(data.id, 'id'),
+  name: data.name != null ? readString(data.name, 'name') : readString(data.id, 'id'),
+}));
+
+export const structureConverter = createConverter<Structure>('Structure', (data) => ({
+  id: readString(data.id, 'id'),
+  name: data.name != null ? readString(data.name, 'name') : readString(data.id, 'id'),
+  siteId: data.siteId != null ? readString(data.siteId, 'siteId') : undefined,
+}));
+
+export const deviceStatusChangeConverter = createConverter<DeviceStatusChange>('DeviceStatusChange', (data) => ({
+  id: readString(data.id, 'id'),
+  status: readEnum(data.status, DEVICE_STATUS_VALUES, 'status'),
+  previousStatus: data.previousStatus != null ? readEnum(data.previousStatus, DEVICE_STATUS_VALUES, 'previousStatus') : null,
+  lastActive: data.lastActive != null ? readDate(data.lastActive, 'lastActive') : null,
+  createdAt: readDate(data.createdAt, 'createdAt'),
+}));
+
+export const sensorReadingConverter = createConverter<SensorReading>('SensorReading', (data) => {
+  const last = readRecord(data.last, 'last');
+  const avg = readRecord(data.avg, 'avg');
+
+  return {
+    id: readString(data.id, 'id'),
+    ts: readDate(data.ts, 'ts'),
+    count: data.count != null ? readNumber(data.count, 'count') : 0,
+    last: {
+      accel: readVector3(last.accel, 'last.accel'),
+      gyro: readVector3(last.gyro, 'last.gyro'),
+      ts_local: last.ts_local != null ? readNumber(last.ts_local, 'last.ts_local') : 0,
+    },
+    avg: {
+      accel: readVector3(avg.accel, 'avg.accel'),
+      gyro: readVector3(avg.gyro, 'avg.gyro'),
+    },
+  };
+});
+
+const SEVERITY_VALUES = ALERT_SEVERITIES.map(option => option.value);
+const METRIC_VALUES = ALERT_METRICS.map(option => option.value);
+const AGGREGATE_VALUES = ALERT_AGGREGATES.map(option => option.value);
+const STATUS_VALUES = ALERT_STATUSES.map(option => option.value);
+
+const readAlertCondition = (value: unknown, path: string): AlertCondition => {
+  const condition = readRecord(value, path);
+  const type = readEnum(condition.type, ['threshold', 'no-data'] as const, `${path}.type`);
+
+  if (type === 'no-data') {
+    return { type, minutes: readNumber(condition.minutes, `${path}.minutes`) };
+  }
+  return {
+    type,
+    metric: readEnum(condition.metric, METRIC_VALUES, `${path}.metric`),
+    aggregate: readEnum(condition.aggregate, AGGREGATE_VALUES, `${path}.aggregate`),
+    operator: readEnum(condition.operator, ['>', '<'] as const, `${path}.operator`),
+    threshold: readNumber(condition.threshold, `${path}.threshold`),
+    windowMinutes: readNumber(condition.windowMinutes, `${path}.windowMinutes`),
+  };
+};
+
+export const alertRuleConverter = createConverter<AlertRule>('AlertRule', (data) => ({
+  id: readString(data.id, 'id'),
+  name: readString(data.name, 'name'),
+  enabled: data.enabled != null ? readBoolean(data.enabled, 'enabled') : true,
+  severity: readEnum(data.severity, SEVERITY_VALUES, 'severity'),
+  deviceId: data.deviceId != null ? readString(data.deviceId, 'deviceId') : undefined,
+  groupId: data.groupId != null ? readString(data.groupId, 'groupId') : undefined,
+  condition: readAlertCondition(data.condition, 'condition'),
+}));
+
+const readAlertComments = (value: unknown, path: string): AlertComment[] => {
+  if (value == null) return [];
+  if (!Array.isArray(value)) throw new Error(`'${path}' no es una lista`);
+
+  return value.map((item, index) => {
+    const comment = readRecord(item, `${path}[${index}]`);
+    return {
+      text: readString(comment.text, `${path}[${index}].text`),
+      createdAt: readDate(comment.createdAt, `${path}[${index}].createdAt`),
+    };
+  });
+};
+
+export const alertConverter = createConverter<Alert>('Alert', (data) => ({
+  id: readString(data.id, 'id'),
+  ruleId: readString(data.ruleId, 'ruleId'),
+  ruleName: readString(data.ruleName, 'ruleName'),
+  deviceId: readString(data.deviceId, 'deviceId'),
+  deviceName: data.deviceName != null ? readString(data.deviceName, 'deviceName') : readString(data.deviceId, 'deviceId'),
+  severity: readEnum(data.severity, SEVERITY_VALUES, 'severity'),
+  status: readEnum(data.status, STATUS_VALUES, 'status'),
+  message: typeof data.message === 'string' ? data.message : '',
+  value: data.value != null ? readNumber(data.value, 'value') : null,
+  threshold: data.threshold != null ? readNumber(data.threshold, 'threshold') : null,
+  windowFrom: readDate(data.windowFrom, 'windowFrom'),
+  windowTo: readDate(data.windowTo, 'windowTo'),
+  createdAt: readDate(data.createdAt, 'createdAt'),
+  acknowledgedAt: data.acknowledgedAt != null ? readDate(data.acknowledgedAt, 'acknowledgedAt') : undefined,
+  resolvedAt: data.resolvedAt != null ? readDate(data.resolvedAt, 'resolvedAt') : undefined,
+  comments: readAlertComments(data.comments, 'comments'),
+}));
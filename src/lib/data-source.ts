@@ -0,0 +1,38 @@
+// Fuente de datos de la aplicación, configurable con VITE_DATA_SOURCE:
+// - 'firestore': proyecto real definido por las variables VITE_FIREBASE_* (por defecto)
+// - 'emulator': emulador local de Firestore (VITE_FIRESTORE_EMULATOR_HOST / _PORT)
+// - 'memory': implementación en memoria sembrada con un fixture JSON (VITE_MEMORY_FIXTURE), sin red
+// VITE_SIMULATOR activa el simulador de pernos con un escenario de src/simulations (solo memoria o emulador).
+export type DataSourceKind = 'firestore' | 'emulator' | 'memory';
+
+export interface DataSourceConfig {
+  kind: DataSourceKind;
+  emulatorHost: string;
+  emulatorPort: number;
+  memoryFixture: string;
+  simulatorScenario: string;
+}
+
+const DATA_SOURCE_KINDS: DataSourceKind[] = ['firestore', 'emulator', 'memory'];
+
+const parseKind = (value: string | undefined): DataSourceKind => {
+  if (!value) return 'firestore';
+  if (DATA_SOURCE_KINDS.includes(value as DataSourceKind)) return value as DataSourceKind;
+
+  console.warn(`VITE_DATA_SOURCE desconocido "${value}", usando "firestore"`);
+  return 'firestore';
+};
+
+export const dataSourceConfig: DataSourceConfig = {
+  kind: parseKind(import.meta.env.VITE_DATA_SOURCE),
+  emulatorHost: import.meta.env.VITE_FIRESTORE_EMULATOR_HOST || 'localhost',
+  emulatorPort: Number(import.meta.env.VITE_FIRESTORE_EMULATOR_PORT) || 8080,
+  memoryFixture: import.meta.env.VITE_MEMORY_FIXTURE || 'demo',
+  simulatorScenario: import.meta.env.VITE_SIMULATOR || '',
+};
+
+export const DATA_SOURCE_LABELS: Record<DataSourceKind, string> = {
+  firestore: 'Firestore',
+  emulator: 'Emulador',
+  memory: 'En memoria',
+};
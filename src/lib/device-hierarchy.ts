@@ -0,0 +1,123 @@
+// Jerarquía sitio → estructura → grupo → dispositivo. Cada nivel referencia al anterior por id
+// (structure.siteId, group.structureId, device.groupId); lo que no tiene padre, o apunta a uno que no
+// existe como documento, se agrupa en un nodo "sin asignar" (id null) o en uno con el propio id como nombre.
+import type { Device } from '@/types/models/device';
+import type { DeviceGroup } from '@/types/models/device-group';
+import type { Site, Structure } from '@/types/models/site';
+
+export interface HierarchySources {
+  sites: Site[];
+  structures: Structure[];
+  groups: DeviceGroup[];
+  devices: Device[];
+}
+
+export interface GroupNode {
+  id: string | null;
+  name: string;
+  devices: Device[];
+}
+
+export interface StructureNode {
+  id: string | null;
+  name: string;
+  groups: GroupNode[];
+}
+
+export interface SiteNode {
+  id: string | null;
+  name: string;
+  structures: StructureNode[];
+}
+
+export const UNASSIGNED_SITE = 'Sin sitio';
+export const UNASSIGNED_STRUCTURE = 'Sin estructura';
+export const UNASSIGNED_GROUP = 'Sin grupo';
+
+// Agrupa los elementos por la clave del padre; las claves sin documento se conservan
+const groupBy = <T>(items: T[], getKey: (item: T) => string | undefined) => {
+  const result = new Map<string | null, T[]>();
+  items.forEach(item => {
+    const key = getKey(item) ?? null;
+    result.set(key, [...(result.get(key) ?? []), item]);
+  });
+  return result;
+};
+
+// Nodos de un nivel: primero los documentos existentes (por nombre), luego las referencias sin documento
+// y al final el nodo sin asignar. Los nodos sin hijos solo aparecen si existen como documento.
+const buildLevel = <T extends { id: string; name: string }, N>(
+  documents: T[],
+  childrenByParent: Map<string | null, unknown[]>,
+  unassignedName: string,
+  createNode: (id: string | null, name: string) => N
+) => {
+  const known = new Set(documents.map(document => document.id));
+  const referenced = [...childrenByParent.keys()]
+    .filter((id): id is string => id !== null && !known.has(id))
+    .sort();
+
+  return [
+    ...[...documents].sort((a, b) => a.name.localeCompare(b.name)).map(document => createNode(document.id, document.name)),
+    ...referenced.map(id => createNode(id, id)),
+    ...(childrenByParent.has(null) ? [createNode(null, unassignedName)] : []),
+  ];
+};
+
+export const buildDeviceHierarchy = ({ sites, structures, groups, devices }: HierarchySources): SiteNode[] => {
+  const devicesByGroup = groupBy(devices, device => device.groupId);
+  const groupNodes = buildLevel(groups, devicesByGroup, UNASSIGNED_GROUP, (id, name): GroupNode => ({
+    id,
+    name,
+    devices: [...(devicesByGroup.get(id) ?? [])].sort((a, b) => a.name.localeCompare(b.name)),
+  }));
+
+  // Los grupos creados a partir de una referencia (sin documento) no tienen estructura
+  const groupsByStructure = groupBy(groupNodes, node => groups.find(group => group.id === node.id)?.structureId);
+  const structureNodes = buildLevel(structures, groupsByStructure, UNASSIGNED_STRUCTURE, (id, name): StructureNode => ({
+    id,
+    name,
+    groups: groupsByStructure.get(id) ?? [],
+  }));
+
+  const structuresBySite = groupBy(structureNodes, node => structures.find(structure => structure.id === node.id)?.siteId);
+  return buildLevel(sites, structuresBySite, UNASSIGNED_SITE, (id, name): SiteNode => ({
+    id,
+    name,
+    structures: structuresBySite.get(id) ?? [],
+  }));
+};
+
+export interface DevicePath {
+  site?: Site;
+  structure?: Structure;
+  // Sin documento en groups se usa el propio groupId como nombre
+  group?: Pick<DeviceGroup, 'id' | 'name'>;
+}
+
+// Ubicación del dispositivo en la jerarquía (solo los niveles conocidos)
+export const getDevicePath = (device: Device, { sites, structures, groups }: Omit<HierarchySources, 'devices'>): DevicePath => {
+  if (!device.groupId) return {};
+
+  const group = groups.find(candidate => candidate.id === device.groupId);
+  const structure = group?.structureId ? structures.find(candidate => candidate.id === group.structureId) : undefined;
+  const site = structure?.siteId ? sites.find(candidate => candidate.id === structure.siteId) : undefined;
+
+  return { site, structure, group: group ?? { id: device.groupId, name: device.groupId } };
+};
+
+export interface GroupEntry {
+  key: string;
+  // Nombres del sitio y la estructura asignados (sin los nodos "sin asignar")
+  path: string[];
+  group: GroupNode;
+}
+
+// Grupos del árbol en orden, con su ruta, para listados agrupados
+export const getGroupEntries = (tree: SiteNode[]): GroupEntry[] => tree.flatMap(site => site.structures.flatMap(
+  structure => structure.groups.map(group => ({
+    key: `${site.id}/${structure.id}/${group.id}`,
+    path: [site, structure].filter(node => node.id !== null).map(node => node.name),
+    group,
+  }))
+));
@@ -0,0 +1,41 @@
+// Política de conectividad de los dispositivos. El estado depende del tiempo transcurrido desde la
+// última lectura medido en intervalos esperados: el del dispositivo, el de su grupo o el predeterminado.
+import type { Device } from '@/types/models/device';
+import type { DeviceGroup } from '@/types/models/device-group';
+import type { DeviceStatus } from '@/types/models/device-status';
+
+export const DEFAULT_EXPECTED_INTERVAL_SECONDS = 60;
+// Intervalos esperados sin lecturas a partir de los cuales el dispositivo va con retraso o se considera desconectado
+export const LATE_AFTER_INTERVALS = 3;
+export const OFFLINE_AFTER_INTERVALS = 30;
+
+// `variant` es la variante del Badge y `color` el del indicador de estado
+export const DEVICE_STATUSES: {
+  value: DeviceStatus;
+  label: string;
+  variant: 'default' | 'secondary' | 'destructive' | 'outline';
+  color: string;
+}[] = [
+  { value: 'online', label: 'En línea', variant: 'default', color: 'bg-green-500' },
+  { value: 'late', label: 'Con retraso', variant: 'secondary', color: 'bg-yellow-500' },
+  { value: 'offline', label: 'Desconectado', variant: 'destructive', color: 'bg-red-500' },
+  { value: 'never-seen', label: 'Sin lecturas', variant: 'outline', color: 'bg-gray-400' },
+];
+
+export const getDeviceStatusOption = (status: DeviceStatus) =>
+  DEVICE_STATUSES.find(option => option.value === status) ?? DEVICE_STATUSES[DEVICE_STATUSES.length - 1];
+
+export const getExpectedIntervalMs = (device: Device, groups: DeviceGroup[]) => {
+  const group = device.groupId ? groups.find(candidate => candidate.id === device.groupId) : undefined;
+  const seconds = device.expectedIntervalSeconds ?? group?.expectedIntervalSeconds ?? DEFAULT_EXPECTED_INTERVAL_SECONDS;
+  return seconds * 1000;
+};
+
+export const getDeviceStatus = (lastActive: Date | null, expectedIntervalMs: number, now: number): DeviceStatus => {
+  if (!lastActive) return 'never-seen';
+
+  const elapsed = now - lastActive.getTime();
+  if (elapsed <= LATE_AFTER_INTERVALS * expectedIntervalMs) return 'online';
+  if (elapsed <= OFFLINE_AFTER_INTERVALS * expectedIntervalMs) return 'late';
+  return 'offline';
+};
@@ -0,0 +1,18 @@
+// Utilidades de los datos descriptivos de los dispositivos (registro, perno instrumentado)
+import type { BoltSpec } from '@/types/models/device';
+
+// Ids válidos de documento para un dispositivo nuevo (el sensor escribe en devices/{id}/readings)
+export const DEVICE_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+// "M20 · 8.8 · 400 N·m" con los campos que estén definidos
+export const formatBoltSpec = (bolt: BoltSpec | undefined) => {
+  if (!bolt) return null;
+
+  const parts = [
+    bolt.diameterMm != null ? `M${bolt.diameterMm}` : null,
+    bolt.grade ?? null,
+    bolt.nominalTorqueNm != null ? `${bolt.nominalTorqueNm} N·m` : null,
+  ].filter((part): part is string => part !== null);
+
+  return parts.length ? parts.join(' · ') : null;
+};
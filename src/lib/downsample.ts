@@ -0,0 +1,54 @@
+// Reducción de series largas antes de dibujarlas (min/max por intervalo).
+// Las lecturas se reparten en intervalos consecutivos y de cada intervalo se conservan, para cada
+// serie, el punto mínimo y el máximo. Así los picos nunca se pierden (a diferencia de tomar una de
+// cada N lecturas) y la envolvente de la señal se mantiene aunque se dibujen pocos puntos.
+
+export interface DownsampleResult<T> {
+  data: T[];
+  // true si se descartaron puntos
+  decimated: boolean;
+  originalCount: number;
+}
+
+export const downsampleMinMax = <T, K extends keyof T>(
+  data: T[],
+  // Puntos máximos que se devuelven (normalmente, el ancho en píxeles del gráfico)
+  targetPoints: number,
+  keys: K[]
+): DownsampleResult<T> => {
+  const originalCount = data.length;
+  if (originalCount <= targetPoints || keys.length === 0) {
+    return { data, decimated: false, originalCount };
+  }
+
+  // Cada intervalo aporta hasta 2 puntos por serie; el primero y el último se conservan siempre
+  const bucketCount = Math.max(1, Math.floor((targetPoints - 2) / (2 * keys.length)));
+  const bucketSize = (originalCount - 2) / bucketCount;
+  const selected: number[] = [0];
+
+  for (let bucket = 0; bucket < bucketCount; bucket++) {
+    const start = 1 + Math.floor(bucket * bucketSize);
+    const end = Math.min(originalCount - 1, 1 + Math.floor((bucket + 1) * bucketSize));
+    if (start >= end) continue;
+
+    const indices = new Set<number>();
+    keys.forEach(key => {
+      let minIndex = start;
+      let maxIndex = start;
+      for (let i = start + 1; i < end; i++) {
+        const value = data[i][key] as number;
+        if (value < (data[minIndex][key] as number)) minIndex = i;
+        if (value > (data[maxIndex][key] as number)) maxIndex = i;
+      }
+      indices.add(minIndex);
+      indices.add(maxIndex);
+    });
+
+    // Dentro del intervalo se mantiene el orden temporal
+    selected.push(...[...indices].sort((a, b) => a - b));
+  }
+
+  selected.push(originalCount - 1);
+
+  return { data: selected.map(index => data[index]), decimated: true, originalCount };
+};
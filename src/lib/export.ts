@@ -0,0 +1,37 @@
+// Utilidades comunes de las exportaciones (imágenes y datos): nombre de archivo y descarga.
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import type { DateRange } from 'react-day-picker';
+import { TIME_RANGES, type TimeRange } from '@/lib/time-range';
+
+export interface FilenameOptions {
+  // Qué se exporta: completo, acelerometro, lecturas…
+  type: string;
+  // Detalle opcional, como el tipo de gráfico
+  variant?: string;
+  timeRange: TimeRange;
+  dateRange: DateRange | undefined;
+  extension: string;
+}
+
+// sensores-{tipo}[-{variante}]-{rango}-{fecha}.{extensión}
+export const generateFilename = ({ type, variant, timeRange, dateRange, extension }: FilenameOptions) => {
+  const timestamp = new Date().toISOString().slice(0, 19).replace(/[:.]/g, '-');
+  const rangeLabel = timeRange === 'range'
+    ? `rango-${dateRange?.from ? format(dateRange.from, 'dd-MM-yyyy', { locale: es }) : 'custom'}`
+    : TIME_RANGES.find(r => r.value === timeRange)?.label.replace(/\s/g, '-') || timeRange;
+
+  return [`sensores-${type}`, variant, rangeLabel, timestamp].filter(Boolean).join('-') + `.${extension}`;
+};
+
+// Descarga un blob con el nombre indicado mediante un enlace temporal
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,269 @@
+// Análisis en frecuencia de las lecturas (FFT).
+// Las lecturas no llegan a intervalos exactos (pérdidas, jitter), así que primero se remuestrean a una
+// rejilla uniforme con el intervalo mediano, se resta la media, se aplica la ventana y se completa con
+// ceros hasta la siguiente potencia de 2.
+
+export type WindowFunction = 'hann' | 'hamming' | 'rectangular';
+
+export const WINDOW_FUNCTIONS = [
+  { value: 'hann' as WindowFunction, label: 'Hann' },
+  { value: 'hamming' as WindowFunction, label: 'Hamming' },
+  { value: 'rectangular' as WindowFunction, label: 'Rectangular' },
+];
+
+export const SPECTRUM_AXES = ['accel_x', 'accel_y', 'accel_z', 'gyro_x', 'gyro_y', 'gyro_z'] as const;
+export type SpectrumAxis = typeof SPECTRUM_AXES[number];
+
+// Tamaño máximo de la FFT; con más muestras se alarga el intervalo de remuestreo
+const MAX_FFT_SIZE = 1 << 16;
+const MIN_SAMPLES = 8;
+
+export interface SpectrumRequest {
+  timestamps: number[];
+  series: Record<SpectrumAxis, number[]>;
+  windowFunction: WindowFunction;
+  // Frecuencias dominantes que se devuelven por eje
+  peakCount: number;
+}
+
+export interface DominantFrequency {
+  frequency: number;
+  amplitude: number;
+}
+
+export interface SpectrumResult {
+  // Frecuencias (Hz) compartidas por todos los ejes
+  frequencies: number[];
+  amplitudes: Record<SpectrumAxis, number[]>;
+  peaks: Record<SpectrumAxis, DominantFrequency[]>;
+  sampleRateHz: number;
+  resolutionHz: number;
+  sampleCount: number;
+}
+
+const windowCoefficient = (windowFunction: WindowFunction, index: number, size: number) => {
+  if (size <= 1) return 1;
+  const phase = (2 * Math.PI * index) / (size - 1);
+  switch (windowFunction) {
+    case 'hann': return 0.5 - 0.5 * Math.cos(phase);
+    case 'hamming': return 0.54 - 0.46 * Math.cos(phase);
+    default: return 1;
+  }
+};
+
+export const createWindow = (windowFunction: WindowFunction, size: number) => {
+  return Float64Array.from({ length: size }, (_, index) => windowCoefficient(windowFunction, index, size));
+};
+
+const nextPowerOfTwo = (value: number) => {
+  let size = 1;
+  while (size < value) size <<= 1;
+  return size;
+};
+
+// FFT radix-2 iterativa, in place. `re.length` debe ser potencia de 2.
+export const fft = (re: Float64Array, im: Float64Array) => {
+  const size = re.length;
+
+  for (let i = 1, j = 0; i < size; i++) {
+    let bit = size >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let length = 2; length <= size; length <<= 1) {
+    const angle = (-2 * Math.PI) / length;
+    const stepRe = Math.cos(angle);
+    const stepIm = Math.sin(angle);
+
+    for (let start = 0; start < size; start += length) {
+      let wRe = 1;
+      let wIm = 0;
+      for (let k = 0; k < length / 2; k++) {
+        const evenIndex = start + k;
+        const oddIndex = evenIndex + length / 2;
+        const oddRe = re[oddIndex] * wRe - im[oddIndex] * wIm;
+        const oddIm = re[oddIndex] * wIm + im[oddIndex] * wRe;
+
+        re[oddIndex] = re[evenIndex] - oddRe;
+        im[oddIndex] = im[evenIndex] - oddIm;
+        re[evenIndex] += oddRe;
+        im[evenIndex] += oddIm;
+
+        [wRe, wIm] = [wRe * stepRe - wIm * stepIm, wRe * stepIm + wIm * stepRe];
+      }
+    }
+  }
+};
+
+// Intervalo de muestreo: mediana de las diferencias entre lecturas consecutivas
+export const getSampleInterval = (timestamps: number[]) => {
+  const deltas = timestamps.slice(1).map((timestamp, index) => timestamp - timestamps[index]).filter(delta => delta > 0);
+  if (!deltas.length) return 0;
+  deltas.sort((a, b) => a - b);
+  return deltas[Math.floor(deltas.length / 2)];
+};
+
+// Remuestrea por interpolación lineal a `count` muestras separadas `intervalMs` desde timestamps[0]
+export const resample = (timestamps: number[], values: number[], intervalMs: number, count: number) => {
+  const output = new Float64Array(count);
+  let source = 0;
+
+  for (let i = 0; i < count; i++) {
+    const time = timestamps[0] + i * intervalMs;
+    while (source < timestamps.length - 2 && timestamps[source + 1] < time) source++;
+
+    const t0 = timestamps[source];
+    const t1 = timestamps[Math.min(source + 1, timestamps.length - 1)];
+    const ratio = t1 > t0 ? Math.min(1, Math.max(0, (time - t0) / (t1 - t0))) : 0;
+    output[i] = values[source] + ratio * (values[Math.min(source + 1, values.length - 1)] - values[source]);
+  }
+
+  return output;
+};
+
+// Espectro de amplitud de un solo lado, corregido por la ganancia de la ventana
+export const amplitudeSpectrum = (samples: Float64Array, windowFunction: WindowFunction) => {
+  const window = createWindow(windowFunction, samples.length);
+  const mean = samples.reduce((sum, value) => sum + value, 0) / samples.length;
+  const gain = window.reduce((sum, value) => sum + value, 0);
+
+  const size = nextPowerOfTwo(samples.length);
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+  samples.forEach((value, index) => {
+    re[index] = (value - mean) * window[index];
+  });
+
+  fft(re, im);
+
+  const bins = size / 2 + 1;
+  const amplitudes = new Array<number>(bins);
+  for (let k = 0; k < bins; k++) {
+    const scale = k === 0 || k === size / 2 ? 1 : 2;
+    amplitudes[k] = (scale * Math.hypot(re[k], im[k])) / gain;
+  }
+  return { amplitudes, size };
+};
+
+// Máximos locales de mayor amplitud (sin la componente continua)
+export const findDominantFrequencies = (frequencies: number[], amplitudes: number[], count: number): DominantFrequency[] => {
+  const peaks: DominantFrequency[] = [];
+  for (let k = 1; k < amplitudes.length; k++) {
+    const previous = amplitudes[k - 1];
+    const next = k + 1 < amplitudes.length ? amplitudes[k + 1] : -Infinity;
+    if (amplitudes[k] > 0 && amplitudes[k] >= previous && amplitudes[k] > next) {
+      peaks.push({ frequency: frequencies[k], amplitude: amplitudes[k] });
+    }
+  }
+  return peaks.sort((a, b) => b.amplitude - a.amplitude).slice(0, count);
+};
+
+export const computeSpectra = ({ timestamps, series, windowFunction, peakCount }: SpectrumRequest): SpectrumResult | null => {
+  if (timestamps.length < MIN_SAMPLES) return null;
+
+  const span = timestamps[timestamps.length - 1] - timestamps[0];
+  let intervalMs = getSampleInterval(timestamps);
+  if (!intervalMs || !span) return null;
+
+  // Si la rejilla superaría el tamaño máximo, se alarga el intervalo
+  intervalMs = Math.max(intervalMs, span / (MAX_FFT_SIZE - 1));
+  const sampleCount = Math.floor(span / intervalMs) + 1;
+  const sampleRateHz = 1000 / intervalMs;
+
+  const amplitudes = {} as Record<SpectrumAxis, number[]>;
+  const peaks = {} as Record<SpectrumAxis, DominantFrequency[]>;
+  let frequencies: number[] = [];
+  let size = 0;
+
+  SPECTRUM_AXES.forEach(axis => {
+    const samples = resample(timestamps, series[axis], intervalMs, sampleCount);
+    const spectrum = amplitudeSpectrum(samples, windowFunction);
+    size = spectrum.size;
+    if (!frequencies.length) {
+      frequencies = spectrum.amplitudes.map((_, k) => (k * sampleRateHz) / spectrum.size);
+    }
+    amplitudes[axis] = spectrum.amplitudes;
+    peaks[axis] = findDominantFrequencies(frequencies, spectrum.amplitudes, peakCount);
+  });
+
+  return { frequencies, amplitudes, peaks, sampleRateHz, resolutionHz: sampleRateHz / size, sampleCount };
+};
+
+// Espectrograma (STFT): espectros de segmentos consecutivos de `segmentSize` muestras (potencia de 2)
+// con solapamiento `overlap` (0..1). Si habría más de MAX_SPECTROGRAM_SEGMENTS, se aumenta el salto.
+const MAX_SPECTROGRAM_SEGMENTS = 512;
+// Suelo en dB para amplitudes nulas y rango dinámico máximo de la escala de color
+const MIN_DB = -120;
+const MAX_DYNAMIC_RANGE_DB = 80;
+
+export const SPECTROGRAM_SEGMENT_SIZES = [32, 64, 128, 256];
+
+export interface SpectrogramRequest {
+  timestamps: number[];
+  values: number[];
+  windowFunction: WindowFunction;
+  segmentSize: number;
+  overlap: number;
+}
+
+export interface SpectrogramResult {
+  // Instante central (ms) de cada segmento
+  times: number[];
+  frequencies: number[];
+  // Amplitud en dB por segmento y frecuencia: magnitudes[segmento][bin]
+  magnitudes: Float32Array[];
+  minDb: number;
+  maxDb: number;
+  sampleRateHz: number;
+  segmentDurationMs: number;
+}
+
+const toDb = (amplitude: number) => amplitude > 0 ? Math.max(MIN_DB, 20 * Math.log10(amplitude)) : MIN_DB;
+
+export const computeSpectrogram = ({ timestamps, values, windowFunction, segmentSize, overlap }: SpectrogramRequest): SpectrogramResult | null => {
+  const span = timestamps[timestamps.length - 1] - timestamps[0];
+  let intervalMs = getSampleInterval(timestamps);
+  if (timestamps.length < segmentSize || !intervalMs || !span) return null;
+
+  intervalMs = Math.max(intervalMs, span / (MAX_FFT_SIZE - 1));
+  const sampleCount = Math.floor(span / intervalMs) + 1;
+  if (sampleCount < segmentSize) return null;
+
+  const samples = resample(timestamps, values, intervalMs, sampleCount);
+  const sampleRateHz = 1000 / intervalMs;
+  const hop = Math.max(
+    1,
+    Math.round(segmentSize * (1 - overlap)),
+    Math.ceil((sampleCount - segmentSize) / MAX_SPECTROGRAM_SEGMENTS)
+  );
+
+  const times: number[] = [];
+  const magnitudes: Float32Array[] = [];
+  let minDb = Infinity;
+  let maxDb = -Infinity;
+
+  for (let start = 0; start + segmentSize <= sampleCount; start += hop) {
+    const { amplitudes } = amplitudeSpectrum(samples.subarray(start, start + segmentSize), windowFunction);
+    const column = Float32Array.from(amplitudes, toDb);
+
+    // La componente continua (bin 0) se elimina al restar la media; no cuenta para la escala
+    for (let k = 1; k < column.length; k++) {
+      minDb = Math.min(minDb, column[k]);
+      maxDb = Math.max(maxDb, column[k]);
+    }
+
+    times.push(timestamps[0] + (start + segmentSize / 2) * intervalMs);
+    magnitudes.push(column);
+  }
+
+  // Sin límite, los bins casi nulos (suelo) comprimirían la escala y ocultarían la estructura
+  minDb = Math.max(minDb, maxDb - MAX_DYNAMIC_RANGE_DB);
+  const frequencies = Array.from({ length: segmentSize / 2 + 1 }, (_, k) => (k * sampleRateHz) / segmentSize);
+
+  return { times, frequencies, magnitudes, minDb, maxDb, sampleRateHz, segmentDurationMs: segmentSize * intervalMs };
+};
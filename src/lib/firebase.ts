@@ -1,5 +1,6 @@
 import { initializeApp } from 'firebase/app';
-import { getFirestore } from 'firebase/firestore';
+import { getFirestore, connectFirestoreEmulator } from 'firebase/firestore';
+import { dataSourceConfig } from '@/lib/data-source';
 
 const firebaseConfig = {
   apiKey: import.meta.env.VITE_FIREBASE_API_KEY,
@@ -10,10 +11,22 @@ const firebaseConfig = {
   appId: import.meta.env.VITE_FIREBASE_APP_ID,
 };
 
-// Initialize Firebase
-const app = initializeApp(firebaseConfig);
+// El emulador acepta cualquier proyecto, así que no exige las variables VITE_FIREBASE_*
+const emulatorConfig = {
+  ...firebaseConfig,
+  projectId: firebaseConfig.projectId || 'demo-dashboard-pernos',
+};
+
+// Initialize Firebase (no se inicializa con la fuente de datos en memoria)
+const app = dataSourceConfig.kind === 'memory'
+  ? null
+  : initializeApp(dataSourceConfig.kind === 'emulator' ? emulatorConfig : firebaseConfig);
 
 // Initialize Cloud Firestore and get a reference to the service
-export const db = getFirestore(app);
+export const db = app ? getFirestore(app) : null;
+
+if (db && dataSourceConfig.kind === 'emulator') {
+  connectFirestoreEmulator(db, dataSourceConfig.emulatorHost, dataSourceConfig.emulatorPort);
+}
 
 export default app;
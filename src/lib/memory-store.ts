@@ -0,0 +1,357 @@
+import { Timestamp, type DocumentData } from 'firebase/firestore';
+import type { ConstraintDescriptor } from '@/lib/query-constraints';
+import { dataSourceConfig } from '@/lib/data-source';
+
+// Formato de los fixtures JSON: { collections: { "<ruta de colección>": { "<id>": { ...campos } } } }
+// Las fechas se escriben como { "$date": "2025-01-01T00:00:00Z" } o { "$ago": segundos } (relativo al arranque).
+export interface MemoryFixture {
+  collections: Record<string, Record<string, DocumentData>>;
+}
+
+// Cursor interno de paginación: id del documento y valores de los campos ordenados
+export interface MemoryCursor {
+  id: string;
+  values: unknown[];
+}
+
+// Escritura de un lote o transacción
+export type MemoryWrite =
+  | { type: 'set'; path: string; id: string; data: DocumentData }
+  | { type: 'update'; path: string; id: string; data: Partial<DocumentData> }
+  | { type: 'delete'; path: string; id: string };
+
+type Listener = () => void;
+
+const AUTO_ID_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+
+const autoId = () => {
+  let id = '';
+  for (let i = 0; i < 20; i++) {
+    id += AUTO_ID_CHARS.charAt(Math.floor(Math.random() * AUTO_ID_CHARS.length));
+  }
+  return id;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value) &&
+  !(value instanceof Timestamp) && !(value instanceof Date);
+
+// Normaliza los valores como lo hace Firestore al escribir (Date → Timestamp) y copia en profundidad
+const toStoredValue = (value: unknown): unknown => {
+  if (value instanceof Date) return Timestamp.fromDate(value);
+  if (value instanceof Timestamp) return value;
+  if (Array.isArray(value)) return value.map(toStoredValue);
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, nested]) => [key, toStoredValue(nested)]));
+  }
+  return value;
+};
+
+// Convierte las fechas especiales del fixture ($date / $ago) a Timestamp
+const reviveFixtureValue = (value: unknown, now: number): unknown => {
+  if (Array.isArray(value)) return value.map(item => reviveFixtureValue(item, now));
+  if (!isPlainObject(value)) return value;
+
+  if (typeof value.$date === 'string') return Timestamp.fromDate(new Date(value.$date));
+  if (typeof value.$ago === 'number') return Timestamp.fromMillis(now - value.$ago * 1000);
+
+  return Object.fromEntries(Object.entries(value).map(([key, nested]) => [key, reviveFixtureValue(nested, now)]));
+};
+
+const getField = (data: DocumentData, field: string): unknown => {
+  return field.split('.').reduce<unknown>((value, key) => (isPlainObject(value) ? value[key] : undefined), data);
+};
+
+const setField = (data: DocumentData, field: string, value: unknown) => {
+  const keys = field.split('.');
+  let target = data;
+  keys.slice(0, -1).forEach(key => {
+    if (!isPlainObject(target[key])) target[key] = {};
+    target = target[key];
+  });
+  target[keys[keys.length - 1]] = value;
+};
+
+const comparable = (value: unknown): unknown => {
+  if (value instanceof Timestamp) return value.toMillis();
+  if (value instanceof Date) return value.getTime();
+  return value;
+};
+
+// Igualdad en profundidad de valores guardados, como la que usa arrayUnion
+const isSameValue = (a: unknown, b: unknown): boolean => {
+  if (a instanceof Timestamp || b instanceof Timestamp) {
+    return a instanceof Timestamp && b instanceof Timestamp && a.isEqual(b);
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((item, i) => isSameValue(item, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => key in b && isSameValue(a[key], b[key]));
+  }
+  return a === b;
+};
+
+const compareValues = (a: unknown, b: unknown): number => {
+  const left = comparable(a);
+  const right = comparable(b);
+  if (left === right) return 0;
+  if (left === undefined || left === null) return -1;
+  if (right === undefined || right === null) return 1;
+  return (left as number) < (right as number) ? -1 : (left as number) > (right as number) ? 1 : 0;
+};
+
+const matchesWhere = (data: DocumentData, { field, op, value }: Extract<ConstraintDescriptor, { type: 'where' }>) => {
+  const fieldValue = getField(data, field);
+  // Firestore excluye los documentos que no tienen el campo filtrado
+  if (fieldValue === undefined) return false;
+
+  switch (op) {
+    case '==': return compareValues(fieldValue, value) === 0;
+    case '!=': return compareValues(fieldValue, value) !== 0;
+    case '<': return compareValues(fieldValue, value) < 0;
+    case '<=': return compareValues(fieldValue, value) <= 0;
+    case '>': return compareValues(fieldValue, value) > 0;
+    case '>=': return compareValues(fieldValue, value) >= 0;
+    case 'in': return (value as unknown[]).some(item => compareValues(fieldValue, item) === 0);
+    case 'not-in': return !(value as unknown[]).some(item => compareValues(fieldValue, item) === 0);
+    case 'array-contains':
+      return Array.isArray(fieldValue) && fieldValue.some(item => compareValues(item, value) === 0);
+    case 'array-contains-any':
+      return Array.isArray(fieldValue) &&
+        fieldValue.some(item => (value as unknown[]).some(candidate => compareValues(item, candidate) === 0));
+    default: return false;
+  }
+};
+
+// Implementación en memoria de las colecciones de Firestore usada por MemoryFirestoreProvider
+export class MemoryStore {
+  private collections = new Map<string, Map<string, DocumentData>>();
+  private listeners = new Map<string, Set<Listener>>();
+  private pendingNotifications = new Set<string>();
+
+  constructor(fixture?: MemoryFixture) {
+    if (fixture) this.seed(fixture);
+  }
+
+  seed(fixture: MemoryFixture) {
+    const now = Date.now();
+    Object.entries(fixture.collections).forEach(([path, documents]) => {
+      Object.entries(documents).forEach(([id, data]) => {
+        this.getCollection(path).set(id, reviveFixtureValue(data, now) as DocumentData);
+      });
+      this.notify(path);
+    });
+  }
+
+  private getCollection(path: string) {
+    let collection = this.collections.get(path);
+    if (!collection) {
+      collection = new Map();
+      this.collections.set(path, collection);
+    }
+    return collection;
+  }
+
+  private toDocument(id: string, data: DocumentData): DocumentData {
+    return { id, ...(toStoredValue(data) as DocumentData) };
+  }
+
+  // Las notificaciones se agrupan por microtarea para emular el comportamiento asíncrono de onSnapshot
+  private notify(path: string) {
+    this.pendingNotifications.add(path);
+    queueMicrotask(() => {
+      if (!this.pendingNotifications.delete(path)) return;
+      this.listeners.get(path)?.forEach(listener => listener());
+    });
+  }
+
+  subscribe(path: string, listener: Listener) {
+    let pathListeners = this.listeners.get(path);
+    if (!pathListeners) {
+      pathListeners = new Set();
+      this.listeners.set(path, pathListeners);
+    }
+    pathListeners.add(listener);
+
+    return () => {
+      pathListeners.delete(listener);
+    };
+  }
+
+  getDocument(path: string, id: string): DocumentData | null {
+    const data = this.collections.get(path)?.get(id);
+    return data ? this.toDocument(id, data) : null;
+  }
+
+  add(path: string, data: DocumentData) {
+    const id = autoId();
+    this.set(path, id, data);
+    return id;
+  }
+
+  set(path: string, id: string, data: DocumentData) {
+    this.getCollection(path).set(id, toStoredValue(data) as DocumentData);
+    this.notify(path);
+  }
+
+  update(path: string, id: string, data: Partial<DocumentData>) {
+    const collection = this.getCollection(path);
+    const current = collection.get(id);
+    if (!current) throw new Error(`No existe el documento ${id} en ${path}`);
+
+    // Como updateDoc: las rutas con puntos ('bolt.grade') actualizan el campo anidado sin reemplazar el mapa
+    const next = toStoredValue(current) as DocumentData;
+    Object.entries(data).forEach(([field, value]) => setField(next, field, toStoredValue(value)));
+    collection.set(id, next);
+    this.notify(path);
+  }
+
+  // Como arrayUnion: añade al final de la lista los valores que aún no contiene (si el campo no es una lista, la crea)
+  appendToArray(path: string, id: string, field: string, values: unknown[], data: Partial<DocumentData> = {}) {
+    const current = this.getCollection(path).get(id);
+    if (!current) throw new Error(`No existe el documento ${id} en ${path}`);
+
+    const existing = getField(current, field);
+    const next = Array.isArray(existing) ? [...existing] : [];
+    values.map(toStoredValue).forEach(value => {
+      if (!next.some(item => isSameValue(item, value))) next.push(value);
+    });
+    this.update(path, id, { ...data, [field]: next });
+  }
+
+  delete(path: string, id: string) {
+    if (this.collections.get(path)?.delete(id)) this.notify(path);
+  }
+
+  // Aplica las escrituras de forma atómica: si alguna falla (update de un documento inexistente) no se aplica ninguna
+  commit(writes: MemoryWrite[]) {
+    const exists = new Map<string, boolean>();
+    writes.forEach(write => {
+      const key = `${write.path}/${write.id}`;
+      const current = exists.get(key) ?? this.collections.get(write.path)?.has(write.id) ?? false;
+      if (write.type === 'update' && !current) throw new Error(`No existe el documento ${write.id} en ${write.path}`);
+      exists.set(key, write.type !== 'delete');
+    });
+
+    writes.forEach(write => {
+      if (write.type === 'set') this.set(write.path, write.id, write.data);
+      else if (write.type === 'update') this.update(write.path, write.id, write.data);
+      else this.delete(write.path, write.id);
+    });
+  }
+
+  // Ejecuta where/orderBy/startAfter y devuelve los documentos ordenados, sin aplicar limit
+  private select(path: string, descriptors: ConstraintDescriptor[]) {
+    const wheres = descriptors.filter((d): d is Extract<ConstraintDescriptor, { type: 'where' }> => d.type === 'where');
+    const orders = descriptors.filter((d): d is Extract<ConstraintDescriptor, { type: 'orderBy' }> => d.type === 'orderBy');
+    const startAfter = descriptors.find((d): d is Extract<ConstraintDescriptor, { type: 'startAfter' }> => d.type === 'startAfter');
+
+    const compareDocuments = (a: DocumentData, b: DocumentData) => {
+      for (const { field, direction } of orders) {
+        const result = compareValues(getField(a, field), getField(b, field));
+        if (result !== 0) return direction === 'desc' ? -result : result;
+      }
+      return compareValues(a.id, b.id);
+    };
+
+    const compareWithValues = (document: DocumentData, values: unknown[]) => {
+      for (let i = 0; i < Math.min(orders.length, values.length); i++) {
+        const result = compareValues(getField(document, orders[i].field), values[i]);
+        if (result !== 0) return orders[i].direction === 'desc' ? -result : result;
+      }
+      return 0;
+    };
+
+    let documents = Array.from(this.collections.get(path)?.entries() ?? [])
+      .map(([id, data]) => ({ id, ...data }) as DocumentData)
+      .filter(document => wheres.every(where => matchesWhere(document, where)))
+      // orderBy excluye los documentos sin el campo ordenado
+      .filter(document => orders.every(({ field }) => getField(document, field) !== undefined))
+      .sort(compareDocuments);
+
+    if (startAfter) {
+      documents = documents.filter(document => compareWithValues(document, startAfter.values) > 0);
+    }
+
+    return { documents, orders, compareDocuments };
+  }
+
+  query(path: string, descriptors: ConstraintDescriptor[]): DocumentData[] {
+    const { documents } = this.select(path, descriptors);
+    const limit = descriptors.find((d): d is Extract<ConstraintDescriptor, { type: 'limit' }> => d.type === 'limit');
+
+    return (limit ? documents.slice(0, limit.limit) : documents).map(({ id, ...data }) => this.toDocument(id, data));
+  }
+
+  count(path: string, descriptors: ConstraintDescriptor[]) {
+    return this.query(path, descriptors).length;
+  }
+
+  page(
+    path: string,
+    descriptors: ConstraintDescriptor[],
+    { pageSize, cursor, direction, inclusive }: {
+      pageSize: number;
+      cursor: MemoryCursor | null;
+      direction: 'next' | 'previous';
+      // Con 'next', incluye el documento del cursor (startAt)
+      inclusive: boolean;
+    }
+  ) {
+    const { documents, orders, compareDocuments } = this.select(path, descriptors);
+    let cursorDocument: DocumentData | null = null;
+    if (cursor) {
+      cursorDocument = { id: cursor.id };
+      orders.forEach(({ field }, i) => setField(cursorDocument!, field, cursor.values[i]));
+    }
+
+    let selected: DocumentData[];
+    let hasMore: boolean;
+    if (direction === 'previous') {
+      const before = cursorDocument
+        ? documents.filter(document => compareDocuments(document, cursorDocument) < 0)
+        : documents;
+      selected = before.slice(Math.max(0, before.length - pageSize));
+      hasMore = before.length > pageSize;
+    } else {
+      const after = cursorDocument
+        ? documents.filter(document => {
+          const order = compareDocuments(document, cursorDocument);
+          return inclusive ? order >= 0 : order > 0;
+        })
+        : documents;
+      selected = after.slice(0, pageSize);
+      hasMore = after.length > pageSize;
+    }
+
+    const toCursor = (document: DocumentData | undefined): MemoryCursor | null => document
+      ? { id: document.id, values: orders.map(({ field }) => getField(document, field)) }
+      : null;
+
+    return {
+      docs: selected.map(({ id, ...data }) => this.toDocument(id, data)),
+      startCursor: toCursor(selected[0]),
+      endCursor: toCursor(selected[selected.length - 1]),
+      hasMore,
+    };
+  }
+}
+
+// Fixtures disponibles en src/fixtures; VITE_MEMORY_FIXTURE elige cuál se carga (por defecto "demo")
+const fixtures = import.meta.glob<MemoryFixture>('/src/fixtures/*.json', { eager: true, import: 'default' });
+
+let memoryStore: MemoryStore | null = null;
+
+// Instancia compartida del store en memoria, sembrada con el fixture configurado
+export const getMemoryStore = () => {
+  if (!memoryStore) {
+    const fixture = fixtures[`/src/fixtures/${dataSourceConfig.memoryFixture}.json`];
+    if (!fixture) {
+      console.warn(`Fixture "${dataSourceConfig.memoryFixture}" no encontrado en src/fixtures, se inicia vacío`);
+    }
+    memoryStore = new MemoryStore(fixture);
+  }
+  return memoryStore;
+};
@@ -0,0 +1,49 @@
+import type { QueryConstraint, WhereFilterOp } from 'firebase/firestore';
+
+// Descripción serializable de una constraint creada con los helpers del provider
+// (whereQuery, orderByQuery, limitQuery, startAfterQuery). Los objetos QueryConstraint del SDK
+// son opacos, así que cada provider registra aquí qué representa cada uno.
+export type ConstraintDescriptor =
+  | { type: 'where'; field: string; op: WhereFilterOp; value: unknown }
+  | { type: 'orderBy'; field: string; direction: 'asc' | 'desc' }
+  | { type: 'limit'; limit: number }
+  | { type: 'startAfter'; values: unknown[] };
+
+const descriptors = new WeakMap<QueryConstraint, ConstraintDescriptor>();
+
+export const describeConstraint = <C extends QueryConstraint>(constraint: C, descriptor: ConstraintDescriptor): C => {
+  descriptors.set(constraint, descriptor);
+  return constraint;
+};
+
+export const getConstraintDescriptor = (constraint: QueryConstraint): ConstraintDescriptor => {
+  const descriptor = descriptors.get(constraint);
+  if (!descriptor) {
+    throw new Error('Constraint desconocida: usa los helpers de consulta de useFirestore()');
+  }
+  return descriptor;
+};
+
+// Normaliza los valores para que consultas equivalentes produzcan la misma key (Date/Timestamp → ms)
+const serializeValue = (value: unknown): unknown => {
+  if (value instanceof Date) return { $ms: value.getTime() };
+  if (value !== null && typeof value === 'object' && typeof (value as { toMillis?: unknown }).toMillis === 'function') {
+    return { $ms: (value as { toMillis: () => number }).toMillis() };
+  }
+  if (Array.isArray(value)) return value.map(serializeValue);
+  return value;
+};
+
+// Key estable de una consulta, basada en los descriptores de sus constraints
+export const createQueryKey = (collectionName: string, constraints: QueryConstraint[] = []) => {
+  const serialized = constraints.map(constraint => {
+    const descriptor = getConstraintDescriptor(constraint);
+    switch (descriptor.type) {
+      case 'where': return ['where', descriptor.field, descriptor.op, serializeValue(descriptor.value)];
+      case 'orderBy': return ['orderBy', descriptor.field, descriptor.direction];
+      case 'limit': return ['limit', descriptor.limit];
+      case 'startAfter': return ['startAfter', descriptor.values.map(serializeValue)];
+    }
+  });
+  return `${collectionName}?${JSON.stringify(serialized)}`;
+};
@@ -0,0 +1,279 @@
+import { dataSourceConfig } from '@/lib/data-source';
+import type { InvalidDocument } from '@/lib/converters';
+import type { SensorReading } from '@/types/models/sensor-reading';
+
+// Caché persistente (IndexedDB) de las lecturas de cada dispositivo.
+// Guarda las lecturas ya validadas por el converter, los documentos que el converter rechazó (para
+// seguir reportándolos) y, por dispositivo, el intervalo [from, to] que está completo en la caché
+// (coverage). Con eso useReadingsInRange solo pide a Firestore las lecturas que quedan fuera del
+// intervalo cubierto.
+
+const DB_VERSION = 2;
+const READINGS_STORE = 'readings';
+const INVALID_STORE = 'invalid';
+const COVERAGE_STORE = 'coverage';
+const STORES = [READINGS_STORE, INVALID_STORE, COVERAGE_STORE];
+
+const RETENTION_STORAGE_KEY = 'readings-cache-retention-days';
+export const DEFAULT_CACHE_RETENTION_DAYS = Number(import.meta.env.VITE_READINGS_CACHE_RETENTION_DAYS) || 30;
+export const CACHE_RETENTION_OPTIONS = [7, 14, 30, 60, 90];
+
+// Intervalo de tiempo (ms) cuyas lecturas están todas en la caché
+export interface CacheCoverage {
+  deviceId: string;
+  from: number;
+  to: number;
+  updatedAt: number;
+}
+
+export interface DeviceCacheStats {
+  deviceId: string;
+  count: number;
+  // Tamaño aproximado de las lecturas serializadas
+  bytes: number;
+  oldest: Date | null;
+  newest: Date | null;
+  coverage: CacheCoverage | null;
+}
+
+type CachedReading = SensorReading & { deviceId: string; tsMs: number };
+
+// Documento inválido con el instante que tenía en Firestore (el que usó la consulta por rango)
+export type InvalidReading = InvalidDocument & { tsMs: number };
+
+type CachedInvalidReading = InvalidReading & { deviceId: string };
+
+const requestToPromise = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (transaction: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  transaction.oncomplete = () => resolve();
+  transaction.onerror = () => reject(transaction.error);
+  transaction.onabort = () => reject(transaction.error);
+});
+
+const toReading = ({ id, ts, count, last, avg }: CachedReading): SensorReading => ({ id, ts, count, last, avg });
+
+const deviceRange = (deviceId: string, from = -Infinity, to = Infinity) =>
+  IDBKeyRange.bound([deviceId, from], [deviceId, to]);
+
+export class ReadingsCache {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private name: string;
+
+  constructor(name: string) {
+    this.name = name;
+  }
+
+  private open() {
+    if (!this.dbPromise) {
+      const request = indexedDB.open(this.name, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(READINGS_STORE)) {
+          const readings = db.createObjectStore(READINGS_STORE, { keyPath: ['deviceId', 'id'] });
+          readings.createIndex('byDeviceTs', ['deviceId', 'tsMs']);
+          readings.createIndex('byTs', 'tsMs');
+        }
+        // Versión 2: documentos inválidos
+        if (!db.objectStoreNames.contains(INVALID_STORE)) {
+          const invalid = db.createObjectStore(INVALID_STORE, { keyPath: ['deviceId', 'id'] });
+          invalid.createIndex('byDeviceTs', ['deviceId', 'tsMs']);
+          invalid.createIndex('byTs', 'tsMs');
+        }
+        if (!db.objectStoreNames.contains(COVERAGE_STORE)) {
+          db.createObjectStore(COVERAGE_STORE, { keyPath: 'deviceId' });
+        }
+      };
+      this.dbPromise = requestToPromise(request);
+    }
+    return this.dbPromise;
+  }
+
+  async getCoverage(deviceId: string): Promise<CacheCoverage | null> {
+    const db = await this.open();
+    const store = db.transaction(COVERAGE_STORE).objectStore(COVERAGE_STORE);
+    return (await requestToPromise(store.get(deviceId))) ?? null;
+  }
+
+  async setCoverage(deviceId: string, from: number, to: number) {
+    const db = await this.open();
+    const transaction = db.transaction(COVERAGE_STORE, 'readwrite');
+    transaction.objectStore(COVERAGE_STORE).put({ deviceId, from, to, updatedAt: Date.now() } satisfies CacheCoverage);
+    await transactionDone(transaction);
+  }
+
+  // Lecturas cacheadas del dispositivo con from <= ts <= to, de la más reciente a la más antigua
+  async getReadings(deviceId: string, from: number, to: number): Promise<SensorReading[]> {
+    const db = await this.open();
+    const index = db.transaction(READINGS_STORE).objectStore(READINGS_STORE).index('byDeviceTs');
+    const cached = await requestToPromise(index.getAll(deviceRange(deviceId, from, to))) as CachedReading[];
+    return cached.map(toReading).reverse();
+  }
+
+  // Documentos inválidos cacheados del dispositivo con from <= ts <= to
+  async getInvalidReadings(deviceId: string, from: number, to: number): Promise<InvalidDocument[]> {
+    const db = await this.open();
+    const index = db.transaction(INVALID_STORE).objectStore(INVALID_STORE).index('byDeviceTs');
+    const cached = await requestToPromise(index.getAll(deviceRange(deviceId, from, to))) as CachedInvalidReading[];
+    return cached.map(({ id, reason }) => ({ id, reason }));
+  }
+
+  // Documentos cacheados (válidos e inválidos) con from <= ts <= to, para compararlo con el recuento de Firestore
+  async countDocuments(deviceId: string, from: number, to: number) {
+    const db = await this.open();
+    const transaction = db.transaction([READINGS_STORE, INVALID_STORE]);
+    const [readings, invalid] = await Promise.all([READINGS_STORE, INVALID_STORE].map(name =>
+      requestToPromise(transaction.objectStore(name).index('byDeviceTs').count(deviceRange(deviceId, from, to)))
+    ));
+    return readings + invalid;
+  }
+
+  async putReadings(deviceId: string, readings: SensorReading[], invalid: InvalidReading[] = []) {
+    if (!readings.length && !invalid.length) return;
+
+    const db = await this.open();
+    const transaction = db.transaction([READINGS_STORE, INVALID_STORE], 'readwrite');
+    const store = transaction.objectStore(READINGS_STORE);
+    readings.forEach(reading => {
+      store.put({ ...reading, deviceId, tsMs: reading.ts.getTime() } satisfies CachedReading);
+    });
+    const invalidStore = transaction.objectStore(INVALID_STORE);
+    invalid.forEach(document => {
+      invalidStore.put({ ...document, deviceId } satisfies CachedInvalidReading);
+    });
+    await transactionDone(transaction);
+  }
+
+  // Elimina las lecturas anteriores a la retención y recorta los intervalos cubiertos
+  async prune(retentionDays: number) {
+    const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+    const db = await this.open();
+    const transaction = db.transaction(STORES, 'readwrite');
+
+    [READINGS_STORE, INVALID_STORE].forEach(name => {
+      const cursorRequest = transaction.objectStore(name).index('byTs').openCursor(IDBKeyRange.upperBound(cutoff, true));
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return;
+        cursor.delete();
+        cursor.continue();
+      };
+    });
+
+    const coverageStore = transaction.objectStore(COVERAGE_STORE);
+    const coverages = await requestToPromise(coverageStore.getAll()) as CacheCoverage[];
+    coverages.forEach(coverage => {
+      if (coverage.to < cutoff) {
+        coverageStore.delete(coverage.deviceId);
+      } else if (coverage.from < cutoff) {
+        coverageStore.put({ ...coverage, from: cutoff });
+      }
+    });
+
+    await transactionDone(transaction);
+  }
+
+  async getStats(): Promise<DeviceCacheStats[]> {
+    const db = await this.open();
+    const transaction = db.transaction([READINGS_STORE, COVERAGE_STORE]);
+    const coverages = await requestToPromise(transaction.objectStore(COVERAGE_STORE).getAll()) as CacheCoverage[];
+    const stats = new Map<string, DeviceCacheStats>();
+
+    const getEntry = (deviceId: string) => {
+      let entry = stats.get(deviceId);
+      if (!entry) {
+        entry = { deviceId, count: 0, bytes: 0, oldest: null, newest: null, coverage: null };
+        stats.set(deviceId, entry);
+      }
+      return entry;
+    };
+
+    await new Promise<void>((resolve, reject) => {
+      const cursorRequest = transaction.objectStore(READINGS_STORE).openCursor();
+      cursorRequest.onerror = () => reject(cursorRequest.error);
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) {
+          resolve();
+          return;
+        }
+
+        const reading = cursor.value as CachedReading;
+        const entry = getEntry(reading.deviceId);
+        entry.count++;
+        entry.bytes += JSON.stringify(reading).length;
+        if (!entry.oldest || reading.ts < entry.oldest) entry.oldest = reading.ts;
+        if (!entry.newest || reading.ts > entry.newest) entry.newest = reading.ts;
+        cursor.continue();
+      };
+    });
+
+    coverages.forEach(coverage => {
+      getEntry(coverage.deviceId).coverage = coverage;
+    });
+
+    return [...stats.values()].sort((a, b) => b.bytes - a.bytes);
+  }
+
+  async clearDevice(deviceId: string) {
+    const db = await this.open();
+    const transaction = db.transaction(STORES, 'readwrite');
+    transaction.objectStore(READINGS_STORE).delete(IDBKeyRange.bound([deviceId, ''], [deviceId, '\uffff']));
+    transaction.objectStore(INVALID_STORE).delete(IDBKeyRange.bound([deviceId, ''], [deviceId, '\uffff']));
+    transaction.objectStore(COVERAGE_STORE).delete(deviceId);
+    await transactionDone(transaction);
+  }
+
+  async clear() {
+    const db = await this.open();
+    const transaction = db.transaction(STORES, 'readwrite');
+    STORES.forEach(name => transaction.objectStore(name).clear());
+    await transactionDone(transaction);
+  }
+}
+
+export const getCacheRetentionDays = () => {
+  return Number(localStorage.getItem(RETENTION_STORAGE_KEY)) || DEFAULT_CACHE_RETENTION_DAYS;
+};
+
+export const setCacheRetentionDays = (days: number) => {
+  localStorage.setItem(RETENTION_STORAGE_KEY, String(days));
+};
+
+let readingsCache: ReadingsCache | null | undefined;
+
+// Caché de la fuente de datos actual. En memoria no hay caché: los datos se regeneran en cada carga.
+export const getReadingsCache = (): ReadingsCache | null => {
+  if (readingsCache === undefined) {
+    const enabled = dataSourceConfig.kind !== 'memory' && typeof indexedDB !== 'undefined';
+    const project = import.meta.env.VITE_FIREBASE_PROJECT_ID || 'default';
+    readingsCache = enabled ? new ReadingsCache(`readings-cache-${dataSourceConfig.kind}-${project}`) : null;
+
+    // La retención se aplica una vez por sesión al abrir la caché
+    readingsCache?.prune(getCacheRetentionDays()).catch(error => {
+      console.error('Error al aplicar la retención de la caché de lecturas:', error);
+    });
+  }
+  return readingsCache;
+};
+
+const READINGS_COLLECTION = /^devices\/([^/]+)\/readings$/;
+
+// Las escrituras en devices/{id}/readings hechas a través del provider vacían la caché del dispositivo:
+// una lectura añadida (o borrada) dentro de un intervalo cubierto no se vería nunca
+export const invalidateReadingsCache = (collectionNames: Iterable<string>) => {
+  const cache = getReadingsCache();
+  if (!cache) return;
+
+  new Set(collectionNames).forEach(collectionName => {
+    const deviceId = READINGS_COLLECTION.exec(collectionName)?.[1];
+    if (!deviceId) return;
+
+    cache.clearDevice(deviceId).catch(error => {
+      console.error(`Error al invalidar la caché de lecturas de ${deviceId}:`, error);
+    });
+  });
+};
@@ -0,0 +1,148 @@
+// Exportación de lecturas en CSV, JSON o NDJSON. Cada lectura es una fila plana con las columnas
+// elegidas; las fechas se escriben en ISO 8601 en la zona elegida y los números sin redondear.
+// Las estadísticas de las mismas lecturas (una fila por serie) se exportan aparte en el mismo formato.
+import { format as formatDate } from 'date-fns';
+import { SENSOR_SERIES, toChartPoint } from '@/lib/sensor-series';
+import { computeStatistics, type SeriesStatistics } from '@/lib/statistics';
+import type { SensorReading } from '@/types/models/sensor-reading';
+
+export type ReadingsExportFormat = 'csv' | 'json' | 'ndjson';
+export type ExportTimeZone = 'local' | 'utc';
+export type DecimalSeparator = '.' | ',';
+
+export const EXPORT_FORMATS: { value: ReadingsExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { value: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv;charset=utf-8' },
+  { value: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  { value: 'ndjson', label: 'NDJSON', extension: 'ndjson', mimeType: 'application/x-ndjson' },
+];
+
+export const EXPORT_TIME_ZONES: { value: ExportTimeZone; label: string }[] = [
+  { value: 'local', label: 'Hora local' },
+  { value: 'utc', label: 'UTC' },
+];
+
+type ColumnValue = Date | number;
+
+export interface ReadingColumn {
+  key: string;
+  label: string;
+  getValue: (reading: SensorReading) => ColumnValue;
+}
+
+const vectorColumns = (source: 'last' | 'avg', sensor: 'accel' | 'gyro', label: string): ReadingColumn[] =>
+  (['x', 'y', 'z'] as const).map(axis => ({
+    key: `${source}_${sensor}_${axis}`,
+    label: `${label} ${axis.toUpperCase()}`,
+    getValue: reading => reading[source][sensor][axis],
+  }));
+
+export const READING_COLUMNS: ReadingColumn[] = [
+  { key: 'ts', label: 'Fecha', getValue: reading => reading.ts },
+  { key: 'ts_local', label: 'Reloj del sensor (ts_local)', getValue: reading => reading.last.ts_local },
+  { key: 'count', label: 'Muestras (count)', getValue: reading => reading.count },
+  ...vectorColumns('last', 'accel', 'Acelerómetro (última)'),
+  ...vectorColumns('last', 'gyro', 'Giroscopio (última)'),
+  ...vectorColumns('avg', 'accel', 'Acelerómetro (media)'),
+  ...vectorColumns('avg', 'gyro', 'Giroscopio (media)'),
+];
+
+export interface ReadingsExportOptions {
+  format: ReadingsExportFormat;
+  // Claves de READING_COLUMNS, en el orden de READING_COLUMNS
+  columns: string[];
+  timeZone: ExportTimeZone;
+  // Solo CSV: con coma decimal el separador de campos pasa a ser ";"
+  decimalSeparator: DecimalSeparator;
+}
+
+const formatTimestamp = (date: Date, timeZone: ExportTimeZone) =>
+  timeZone === 'utc' ? date.toISOString() : formatDate(date, "yyyy-MM-dd'T'HH:mm:ss.SSSxxx");
+
+const toRecord = (reading: SensorReading, columns: ReadingColumn[], timeZone: ExportTimeZone) =>
+  Object.fromEntries(columns.map(column => {
+    const value = column.getValue(reading);
+    return [column.key, value instanceof Date ? formatTimestamp(value, timeZone) : value];
+  }));
+
+const toCsvRows = (header: string[], rows: (ColumnValue | string | null)[][], { timeZone, decimalSeparator }: ReadingsExportOptions) => {
+  const delimiter = decimalSeparator === ',' ? ';' : ',';
+  const formatCell = (value: ColumnValue | string | null) => {
+    if (value === null) return '';
+    if (value instanceof Date) return formatTimestamp(value, timeZone);
+    return typeof value === 'number' ? String(value).replace('.', decimalSeparator) : value;
+  };
+
+  return [header.join(delimiter), ...rows.map(row => row.map(formatCell).join(delimiter))].join('\r\n') + '\r\n';
+};
+
+const toCsv = (readings: SensorReading[], columns: ReadingColumn[], options: ReadingsExportOptions) => toCsvRows(
+  columns.map(column => column.key),
+  readings.map(reading => columns.map(column => column.getValue(reading))),
+  options
+);
+
+// Contenido del archivo con las lecturas en el orden recibido
+export const serializeReadings = (readings: SensorReading[], options: ReadingsExportOptions) => {
+  const columns = READING_COLUMNS.filter(column => options.columns.includes(column.key));
+
+  switch (options.format) {
+    case 'csv':
+      return toCsv(readings, columns, options);
+    case 'json':
+      return JSON.stringify(readings.map(reading => toRecord(reading, columns, options.timeZone)), null, 2);
+    case 'ndjson':
+      return readings.map(reading => JSON.stringify(toRecord(reading, columns, options.timeZone)) + '\n').join('');
+  }
+};
+
+// Estadísticos exportados, en el orden de las columnas
+const STATISTICS_FIELDS: { key: string; getValue: (statistics: SeriesStatistics) => number | null }[] = [
+  { key: 'count', getValue: statistics => statistics.count },
+  { key: 'min', getValue: statistics => statistics.min },
+  { key: 'max', getValue: statistics => statistics.max },
+  { key: 'mean', getValue: statistics => statistics.mean },
+  { key: 'std_dev', getValue: statistics => statistics.stdDev },
+  { key: 'rms', getValue: statistics => statistics.rms },
+  { key: 'peak_to_peak', getValue: statistics => statistics.peakToPeak },
+  { key: 'crest_factor', getValue: statistics => statistics.crestFactor },
+  { key: 'kurtosis', getValue: statistics => statistics.kurtosis },
+];
+
+// Contenido del archivo de estadísticas de las lecturas (en orden cronológico): una fila por serie de
+// SENSOR_SERIES, con los mismos estadísticos que el panel de estadísticas y el intervalo analizado
+export const serializeStatistics = (readings: SensorReading[], options: ReadingsExportOptions) => {
+  const points = readings.map(toChartPoint);
+  const from = readings[0]?.ts ?? null;
+  const to = readings[readings.length - 1]?.ts ?? null;
+
+  const rows = SENSOR_SERIES.flatMap(group => group.values.map(series => {
+    const statistics = computeStatistics(points.map(point => point[series.key]));
+    return {
+      series: series.key,
+      sensor: group.title,
+      axis: series.label,
+      unit: group.unit,
+      values: STATISTICS_FIELDS.map(field => statistics ? field.getValue(statistics) : null),
+    };
+  }));
+
+  const toRecord = ({ values, ...row }: (typeof rows)[number]) => ({
+    ...row,
+    from: from && formatTimestamp(from, options.timeZone),
+    to: to && formatTimestamp(to, options.timeZone),
+    ...Object.fromEntries(STATISTICS_FIELDS.map((field, index) => [field.key, values[index]])),
+  });
+
+  switch (options.format) {
+    case 'csv':
+      return toCsvRows(
+        ['series', 'sensor', 'axis', 'unit', 'from', 'to', ...STATISTICS_FIELDS.map(field => field.key)],
+        rows.map(({ values, ...row }) => [row.series, row.sensor, row.axis, row.unit, from, to, ...values]),
+        options
+      );
+    case 'json':
+      return JSON.stringify(rows.map(toRecord), null, 2);
+    case 'ndjson':
+      return rows.map(row => JSON.stringify(toRecord(row)) + '\n').join('');
+  }
+};
@@ -0,0 +1,247 @@
+// Importación de lecturas históricas desde archivos CSV, JSON o NDJSON (por ejemplo, campañas registradas
+// en tarjetas SD). Cada fila se convierte en una lectura con una sola muestra: `last` y `avg` coinciden.
+// El id del documento se deriva del instante (imp-{ms}), así que reimportar un archivo no duplica lecturas.
+import type { DocumentData } from 'firebase/firestore';
+import type { DecimalSeparator } from '@/lib/readings-export';
+import type { Vector3 } from '@/types/models/sensor-reading';
+
+export type ImportField = 'ts' | 'accel.x' | 'accel.y' | 'accel.z' | 'gyro.x' | 'gyro.y' | 'gyro.z' | 'ts_local';
+
+// Columnas que se prueban (normalizadas: minúsculas y sin separadores) al proponer la asignación
+export const IMPORT_FIELDS: { value: ImportField; label: string; required: boolean; candidates: string[] }[] = [
+  { value: 'ts', label: 'Fecha (ts)', required: true, candidates: ['ts', 'timestamp', 'time', 'fecha', 'date', 'datetime'] },
+  { value: 'accel.x', label: 'Acelerómetro X', required: true, candidates: ['avgaccelx', 'accelx', 'accx', 'ax', 'lastaccelx'] },
+  { value: 'accel.y', label: 'Acelerómetro Y', required: true, candidates: ['avgaccely', 'accely', 'accy', 'ay', 'lastaccely'] },
+  { value: 'accel.z', label: 'Acelerómetro Z', required: true, candidates: ['avgaccelz', 'accelz', 'accz', 'az', 'lastaccelz'] },
+  { value: 'gyro.x', label: 'Giroscopio X', required: true, candidates: ['avggyrox', 'gyrox', 'gx', 'lastgyrox'] },
+  { value: 'gyro.y', label: 'Giroscopio Y', required: true, candidates: ['avggyroy', 'gyroy', 'gy', 'lastgyroy'] },
+  { value: 'gyro.z', label: 'Giroscopio Z', required: true, candidates: ['avggyroz', 'gyroz', 'gz', 'lastgyroz'] },
+  { value: 'ts_local', label: 'Reloj del sensor (ts_local)', required: false, candidates: ['tslocal', 'lasttslocal', 'millis'] },
+];
+
+// Columna del archivo asignada a cada campo
+export type ImportMapping = Partial<Record<ImportField, string>>;
+
+export type TimestampUnit = 'ms' | 's';
+
+export const TIMESTAMP_UNITS: { value: TimestampUnit; label: string }[] = [
+  { value: 'ms', label: 'Milisegundos' },
+  { value: 's', label: 'Segundos' },
+];
+
+// Cómo se interpretan los valores de las columnas asignadas
+export interface ImportOptions {
+  // Separador decimal de las columnas numéricas; el otro signo se toma como separador de miles
+  decimalSeparator: DecimalSeparator;
+  // Unidad de las fechas numéricas (instantes Unix)
+  timestampUnit: TimestampUnit;
+}
+
+export interface ParsedFile {
+  columns: string[];
+  rows: Record<string, string>[];
+  // Separador decimal probable: coma en los CSV separados por ";"
+  decimalSeparator: DecimalSeparator;
+}
+
+export interface ImportedReading {
+  // Fila del archivo (1 = primera fila de datos)
+  row: number;
+  ts: Date;
+  accel: Vector3;
+  gyro: Vector3;
+  ts_local: number | null;
+}
+
+export interface RowError {
+  row: number;
+  reason: string;
+}
+
+export interface MappedRows {
+  readings: ImportedReading[];
+  errors: RowError[];
+  // Filas con el mismo instante que otra anterior del archivo
+  duplicates: number;
+}
+
+// Lecturas que se escriben en cada lote
+export const IMPORT_BATCH_SIZE = 200;
+
+const normalize = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Aplana objetos anidados con rutas separadas por puntos: { accel: { x: 1 } } → { 'accel.x': '1' }
+const flatten = (value: unknown, prefix = '', result: Record<string, string> = {}) => {
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    Object.entries(value).forEach(([key, child]) => flatten(child, prefix ? `${prefix}.${key}` : key, result));
+  } else if (prefix) {
+    result[prefix] = value == null ? '' : String(value);
+  }
+  return result;
+};
+
+const fromObjects = (objects: unknown[]): ParsedFile => {
+  const rows = objects.map(object => flatten(object));
+  const columns = [...new Set(rows.flatMap(row => Object.keys(row)))];
+  return { columns, rows, decimalSeparator: '.' };
+};
+
+// Separa una línea CSV respetando los campos entre comillas ("a;b" y "" como comilla escapada)
+const splitCsvLine = (line: string, delimiter: string) => {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+};
+
+const parseCsv = (text: string): ParsedFile => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim());
+  if (!lines.length) throw new Error('El archivo está vacío');
+
+  // Con ";" como separador de campos los decimales suelen llevar coma
+  const delimiter = lines[0].split(';').length > lines[0].split(',').length ? ';' : ',';
+  const columns = splitCsvLine(lines[0], delimiter);
+  const rows = lines.slice(1).map(line => {
+    const cells = splitCsvLine(line, delimiter);
+    return Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? '']));
+  });
+  return { columns, rows, decimalSeparator: delimiter === ';' ? ',' : '.' };
+};
+
+// Interpreta el archivo según su extensión (o su contenido si empieza por "[" o "{")
+export const parseImportFile = (fileName: string, text: string): ParsedFile => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  const trimmed = text.trim();
+
+  if (extension === 'ndjson' || extension === 'jsonl' || (extension !== 'json' && trimmed.startsWith('{'))) {
+    return fromObjects(trimmed.split(/\r?\n/).filter(line => line.trim()).map((line, index) => {
+      try {
+        return JSON.parse(line);
+      } catch {
+        throw new Error(`Línea ${index + 1}: JSON no válido`);
+      }
+    }));
+  }
+
+  if (extension === 'json' || trimmed.startsWith('[')) {
+    const parsed: unknown = JSON.parse(trimmed);
+    if (!Array.isArray(parsed)) throw new Error('El JSON debe ser una lista de lecturas');
+    return fromObjects(parsed);
+  }
+
+  return parseCsv(text);
+};
+
+// Propone una columna para cada campo a partir de los nombres habituales
+export const guessMapping = (columns: string[]): ImportMapping => {
+  const byName = new Map(columns.map(column => [normalize(column), column]));
+  return Object.fromEntries(IMPORT_FIELDS.flatMap(field => {
+    const match = field.candidates.map(candidate => byName.get(candidate)).find(Boolean);
+    return match ? [[field.value, match]] : [];
+  }));
+};
+
+// Propone la unidad de las fechas numéricas de la columna: segundos si el primer valor es pequeño para
+// ser un instante en milisegundos (antes de 1973). Solo es la propuesta inicial del asistente
+export const guessTimestampUnit = (rows: Record<string, string>[], column: string | undefined): TimestampUnit => {
+  const value = column ? rows.find(row => row[column])?.[column] : undefined;
+  const numeric = Number(value);
+  return value && Number.isFinite(numeric) && Math.abs(numeric) < 1e11 ? 's' : 'ms';
+};
+
+// Número con el separador decimal indicado; se quitan los separadores de miles y los espacios
+export const parseNumber = (value: string, decimalSeparator: DecimalSeparator) => {
+  const thousands = decimalSeparator === ',' ? '.' : ',';
+  const normalized = value.replace(/\s/g, '').split(thousands).join('');
+  return Number(decimalSeparator === ',' ? normalized.replace(',', '.') : normalized);
+};
+
+// Fechas ISO 8601 (los segundos pueden llevar coma decimal: "10:00:00,123") o instantes Unix en la unidad indicada
+export const parseTimestamp = (value: string, unit: TimestampUnit) => {
+  if (!value) return null;
+
+  const numeric = Number(value);
+  const ms = Number.isFinite(numeric)
+    ? (unit === 's' ? numeric * 1000 : numeric)
+    : Date.parse(value.replace(/(\d{2}:\d{2}:\d{2}),(\d+)/, '$1.$2'));
+  return Number.isFinite(ms) ? new Date(ms) : null;
+};
+
+export const mapRows = (rows: Record<string, string>[], mapping: ImportMapping, options: ImportOptions): MappedRows => {
+  const readings: ImportedReading[] = [];
+  const errors: RowError[] = [];
+  const seen = new Set<number>();
+  let duplicates = 0;
+
+  rows.forEach((source, index) => {
+    const row = index + 1;
+    const cell = (field: ImportField) => mapping[field] ? source[mapping[field]] ?? '' : '';
+
+    const ts = parseTimestamp(cell('ts'), options.timestampUnit);
+    if (!ts) {
+      errors.push({ row, reason: `Fecha no válida: "${cell('ts')}"` });
+      return;
+    }
+
+    const values: Partial<Record<ImportField, number>> = {};
+    const invalidField = IMPORT_FIELDS.find(field => {
+      if (field.value === 'ts' || (!field.required && !cell(field.value))) return false;
+      const value = parseNumber(cell(field.value), options.decimalSeparator);
+      values[field.value] = value;
+      return !cell(field.value) || !Number.isFinite(value);
+    });
+    if (invalidField) {
+      errors.push({ row, reason: `${invalidField.label} no válido: "${cell(invalidField.value)}"` });
+      return;
+    }
+
+    if (seen.has(ts.getTime())) {
+      duplicates++;
+      return;
+    }
+    seen.add(ts.getTime());
+
+    readings.push({
+      row,
+      ts,
+      accel: { x: values['accel.x']!, y: values['accel.y']!, z: values['accel.z']! },
+      gyro: { x: values['gyro.x']!, y: values['gyro.y']!, z: values['gyro.z']! },
+      ts_local: values.ts_local ?? null,
+    });
+  });
+
+  readings.sort((a, b) => a.ts.getTime() - b.ts.getTime());
+  return { readings, errors, duplicates };
+};
+
+export const getImportedReadingId = (ts: Date) => `imp-${ts.getTime()}`;
+
+// Documento de devices/{id}/readings con la misma forma que las lecturas del sensor
+export const toReadingDocument = ({ ts, accel, gyro, ts_local }: ImportedReading): DocumentData => ({
+  ts,
+  count: 1,
+  last: { accel, gyro, ts_local: ts_local ?? ts.getTime() },
+  avg: { accel, gyro },
+});
@@ -0,0 +1,92 @@
+// PDF del informe de inspección. Cada bloque del informe ([data-report-block]) se captura como imagen
+// y se coloca en la página actual si cabe o en una nueva; un bloque más alto que la página se reparte
+// entre varias. data-report-break="after" termina la página tras el bloque y data-report-keep="next"
+// lo mantiene en la misma página que el siguiente (títulos de sección).
+import html2canvas from 'html2canvas-pro';
+import { jsPDF } from 'jspdf';
+
+// A4 en mm, con el mismo margen que @page en index.css
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const PAGE_MARGIN = 15;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * PAGE_MARGIN;
+const CONTENT_HEIGHT = PAGE_HEIGHT - 2 * PAGE_MARGIN;
+// Separación entre bloques
+const BLOCK_GAP = 6;
+const CAPTURE_SCALE = 2;
+
+interface CapturedBlock {
+  canvas: HTMLCanvasElement;
+  // Alto en mm al ancho útil de la página
+  height: number;
+  breakAfter: boolean;
+  keepWithNext: boolean;
+}
+
+const captureBlock = async (element: HTMLElement): Promise<CapturedBlock> => {
+  const canvas = await html2canvas(element, {
+    backgroundColor: '#ffffff',
+    scale: CAPTURE_SCALE,
+    useCORS: true,
+    logging: false,
+  });
+  return {
+    canvas,
+    height: canvas.height * CONTENT_WIDTH / canvas.width,
+    breakAfter: element.dataset.reportBreak === 'after',
+    keepWithNext: element.dataset.reportKeep === 'next',
+  };
+};
+
+// Parte de un canvas entre dos alturas (en px del canvas)
+const sliceCanvas = (canvas: HTMLCanvasElement, from: number, to: number) => {
+  const slice = document.createElement('canvas');
+  slice.width = canvas.width;
+  slice.height = to - from;
+  slice.getContext('2d')?.drawImage(canvas, 0, from, canvas.width, to - from, 0, 0, canvas.width, to - from);
+  return slice;
+};
+
+export const createReportPdf = async (container: HTMLElement) => {
+  const elements = [...container.querySelectorAll<HTMLElement>('[data-report-block]')];
+  const blocks: CapturedBlock[] = [];
+  // Secuencial: html2canvas clona el documento en cada captura
+  for (const element of elements) {
+    blocks.push(await captureBlock(element));
+  }
+
+  const pdf = new jsPDF({ unit: 'mm', format: 'a4', orientation: 'portrait' });
+  let y = PAGE_MARGIN;
+
+  const newPage = () => {
+    pdf.addPage();
+    y = PAGE_MARGIN;
+  };
+
+  blocks.forEach((block, index) => {
+    const next = blocks[index + 1];
+    const required = block.keepWithNext && next
+      ? block.height + BLOCK_GAP + Math.min(next.height, CONTENT_HEIGHT)
+      : Math.min(block.height, CONTENT_HEIGHT);
+    if (y > PAGE_MARGIN && y + required > PAGE_HEIGHT - PAGE_MARGIN) newPage();
+
+    if (block.height <= CONTENT_HEIGHT) {
+      pdf.addImage(block.canvas, 'PNG', PAGE_MARGIN, y, CONTENT_WIDTH, block.height);
+      y += block.height + BLOCK_GAP;
+    } else {
+      // Bloque más alto que una página: se reparte en trozos del alto útil
+      const pxPerMm = block.canvas.width / CONTENT_WIDTH;
+      for (let from = 0; from < block.canvas.height; from += CONTENT_HEIGHT * pxPerMm) {
+        if (from > 0) newPage();
+        const to = Math.min(block.canvas.height, Math.round(from + CONTENT_HEIGHT * pxPerMm));
+        const slice = sliceCanvas(block.canvas, Math.round(from), to);
+        pdf.addImage(slice, 'PNG', PAGE_MARGIN, y, CONTENT_WIDTH, slice.height / pxPerMm);
+        y += slice.height / pxPerMm + BLOCK_GAP;
+      }
+    }
+
+    if (block.breakAfter && next) newPage();
+  });
+
+  return pdf.output('blob');
+};
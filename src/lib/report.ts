@@ -0,0 +1,28 @@
+// Enlace al informe de inspección de un dispositivo. El intervalo va en la URL como instantes fijos
+// (ms) para que el informe no cambie al recargarlo; el rango elegido solo se usa en el nombre del archivo.
+import { TIME_RANGES, type TimeBounds, type TimeRange } from '@/lib/time-range';
+
+const FROM_PARAM = 'desde';
+const TO_PARAM = 'hasta';
+const RANGE_PARAM = 'rango';
+
+export const getReportPath = (deviceId: string, bounds: TimeBounds, timeRange: TimeRange) => {
+  const params = new URLSearchParams({
+    [FROM_PARAM]: String(bounds.from.getTime()),
+    [TO_PARAM]: String(bounds.to.getTime()),
+    [RANGE_PARAM]: timeRange,
+  });
+  return `/dispositivos/${deviceId}/informe?${params}`;
+};
+
+// Intervalo y rango del informe; bounds es null si faltan o no son válidos
+export const parseReportParams = (searchParams: URLSearchParams): { bounds: TimeBounds | null; timeRange: TimeRange } => {
+  const from = Number(searchParams.get(FROM_PARAM));
+  const to = Number(searchParams.get(TO_PARAM));
+  const timeRange = TIME_RANGES.find(range => range.value === searchParams.get(RANGE_PARAM))?.value ?? 'range';
+
+  return {
+    bounds: from > 0 && to > from ? { from: new Date(from), to: new Date(to) } : null,
+    timeRange,
+  };
+};
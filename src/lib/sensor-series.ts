@@ -0,0 +1,55 @@
+// Series de los gráficos temporales: un punto por lectura con los promedios de cada eje y sus
+// magnitudes, agrupados por sensor (la misma configuración en los gráficos, las estadísticas y el informe).
+import type { SensorReading } from '@/types/models/sensor-reading';
+
+export interface ChartPoint {
+  timestamp: number;
+  accel_x: number;
+  accel_y: number;
+  accel_z: number;
+  accel_magnitude: number;
+  gyro_x: number;
+  gyro_y: number;
+  gyro_z: number;
+  gyro_magnitude: number;
+}
+
+export const SENSOR_SERIES = [
+  {
+    title: 'Acelerómetro',
+    unit: 'm/s²',
+    values: [
+      { key: 'accel_x', label: 'X', color: '#8884d8' },
+      { key: 'accel_y', label: 'Y', color: '#82ca9d' },
+      { key: 'accel_z', label: 'Z', color: '#ffc658' },
+      { key: 'accel_magnitude', label: '|a|', color: '#8884d8' },
+    ],
+  },
+  {
+    title: 'Giroscopio',
+    unit: 'rad/s',
+    values: [
+      { key: 'gyro_x', label: 'X', color: '#ff7300' },
+      { key: 'gyro_y', label: 'Y', color: '#00ff00' },
+      { key: 'gyro_z', label: 'Z', color: '#ff0000' },
+      { key: 'gyro_magnitude', label: '|ω|', color: '#82ca9d' },
+    ],
+  },
+] satisfies { title: string; unit: string; values: { key: keyof ChartPoint; label: string; color: string }[] }[];
+
+export const toChartPoint = (reading: SensorReading): ChartPoint => {
+  const { accel, gyro } = reading.avg;
+  return {
+    timestamp: reading.ts.getTime(),
+    // Acelerómetro
+    accel_x: accel.x,
+    accel_y: accel.y,
+    accel_z: accel.z,
+    accel_magnitude: Math.hypot(accel.x, accel.y, accel.z),
+    // Giroscopio
+    gyro_x: gyro.x,
+    gyro_y: gyro.y,
+    gyro_z: gyro.z,
+    gyro_magnitude: Math.hypot(gyro.x, gyro.y, gyro.z),
+  };
+};
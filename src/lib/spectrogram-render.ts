@@ -0,0 +1,60 @@
+import type { SpectrogramResult } from '@/lib/fft';
+
+// Geometría y colores del espectrograma, compartidos por el canvas del gráfico y la exportación SVG
+
+// Márgenes del área de datos: eje de frecuencias a la izquierda, tiempo abajo y escala de color a la derecha
+export const SPECTROGRAM_MARGIN = { top: 10, right: 80, bottom: 45, left: 60 };
+export const COLOR_SCALE_WIDTH = 12;
+export const TICK_COUNT = 5;
+
+// Paleta tipo viridis (de menor a mayor amplitud)
+export const COLOR_STOPS: [number, number, number][] = [
+  [68, 1, 84],
+  [59, 82, 139],
+  [33, 145, 140],
+  [94, 201, 98],
+  [253, 231, 37],
+];
+
+export const colorAt = (value: number): [number, number, number] => {
+  const position = Math.min(1, Math.max(0, value)) * (COLOR_STOPS.length - 1);
+  const index = Math.min(COLOR_STOPS.length - 2, Math.floor(position));
+  const ratio = position - index;
+  const [r0, g0, b0] = COLOR_STOPS[index];
+  const [r1, g1, b1] = COLOR_STOPS[index + 1];
+  return [r0 + (r1 - r0) * ratio, g0 + (g1 - g0) * ratio, b0 + (b1 - b0) * ratio];
+};
+
+// Imagen de un píxel por segmento y frecuencia (frecuencias bajas abajo); se escala al dibujar
+export const createHeatmap = ({ magnitudes, frequencies, minDb, maxDb }: SpectrogramResult) => {
+  const dbRange = maxDb - minDb || 1;
+  const image = document.createElement('canvas');
+  image.width = magnitudes.length;
+  image.height = frequencies.length;
+  const context = image.getContext('2d');
+  if (!context || !image.width || !image.height) return image;
+
+  const pixels = context.createImageData(image.width, image.height);
+  magnitudes.forEach((column, segment) => {
+    column.forEach((db, bin) => {
+      const [r, g, b] = colorAt((db - minDb) / dbRange);
+      const offset = ((image.height - 1 - bin) * image.width + segment) * 4;
+      pixels.data[offset] = r;
+      pixels.data[offset + 1] = g;
+      pixels.data[offset + 2] = b;
+      pixels.data[offset + 3] = 255;
+    });
+  });
+  context.putImageData(pixels, 0, 0);
+  return image;
+};
+
+// Posición horizontal (px, desde el borde del área de datos) del mapa de calor dentro de la ventana `domain`
+export const getHeatmapBounds = ({ times, segmentDurationMs }: SpectrogramResult, [from, to]: [number, number], plotWidth: number) => {
+  const hopMs = times.length > 1 ? times[1] - times[0] : segmentDurationMs;
+  const span = to - from || 1;
+  return {
+    left: ((times[0] - hopMs / 2 - from) / span) * plotWidth,
+    right: ((times[times.length - 1] + hopMs / 2 - from) / span) * plotWidth,
+  };
+};
@@ -0,0 +1,61 @@
+// Estadísticos descriptivos de una serie de valores (un eje o magnitud de un sensor).
+// El factor de cresta y la curtosis describen la forma de la señal: picos aislados (impactos, holguras)
+// los elevan aunque el RMS apenas cambie.
+
+export interface SeriesStatistics {
+  count: number;
+  min: number;
+  max: number;
+  mean: number;
+  // Desviación típica poblacional
+  stdDev: number;
+  rms: number;
+  peakToPeak: number;
+  // Pico absoluto / RMS; null si el RMS es 0
+  crestFactor: number | null;
+  // Curtosis (no en exceso: una señal gaussiana da 3); null si la varianza es 0
+  kurtosis: number | null;
+}
+
+export const computeStatistics = (values: number[]): SeriesStatistics | null => {
+  const count = values.length;
+  if (!count) return null;
+
+  let min = Infinity;
+  let max = -Infinity;
+  let sum = 0;
+  let sumSquares = 0;
+  for (const value of values) {
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+    sum += value;
+    sumSquares += value * value;
+  }
+  const mean = sum / count;
+
+  // Momentos centrales en una segunda pasada para no perder precisión
+  let m2 = 0;
+  let m4 = 0;
+  for (const value of values) {
+    const deviation = (value - mean) ** 2;
+    m2 += deviation;
+    m4 += deviation * deviation;
+  }
+  m2 /= count;
+  m4 /= count;
+
+  const rms = Math.sqrt(sumSquares / count);
+  const peak = Math.max(Math.abs(min), Math.abs(max));
+
+  return {
+    count,
+    min,
+    max,
+    mean,
+    stdDev: Math.sqrt(m2),
+    rms,
+    peakToPeak: max - min,
+    crestFactor: rms > 0 ? peak / rms : null,
+    kurtosis: m2 > 0 ? m4 / (m2 * m2) : null,
+  };
+};
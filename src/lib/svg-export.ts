@@ -0,0 +1,265 @@
+// Exportación vectorial de un gráfico de Recharts: copia el <svg> del gráfico con los estilos calculados
+// en línea (así conserva los colores del tema sin depender de las hojas de estilo) y le añade un título,
+// un pie con el rango y la leyenda, que Recharts dibuja en HTML fuera del <svg>.
+// El espectrograma se dibuja en un canvas: se exporta el mapa de calor como <image> y los ejes y la escala
+// de color como elementos vectoriales.
+import type { SpectrogramResult } from '@/lib/fft';
+import {
+  COLOR_SCALE_WIDTH,
+  COLOR_STOPS,
+  SPECTROGRAM_MARGIN,
+  TICK_COUNT,
+  createHeatmap,
+  getHeatmapBounds,
+} from '@/lib/spectrogram-render';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// Propiedades de presentación que se copian del elemento renderizado a la copia
+const INLINED_PROPERTIES = [
+  'fill', 'fill-opacity', 'stroke', 'stroke-width', 'stroke-dasharray', 'stroke-opacity', 'opacity',
+  'font-family', 'font-size', 'font-weight', 'text-anchor', 'dominant-baseline', 'visibility', 'display',
+];
+
+const PADDING = 16;
+const TITLE_HEIGHT = 24;
+const CAPTION_HEIGHT = 20;
+const LEGEND_ROW_HEIGHT = 20;
+const LEGEND_SWATCH = 12;
+// Ancho aproximado por carácter de la leyenda para repartirla en filas
+const LEGEND_CHAR_WIDTH = 7;
+
+export interface SvgExportOptions {
+  title: string;
+  caption?: string;
+}
+
+export interface SpectrogramSvgOptions extends SvgExportOptions {
+  spectrogram: SpectrogramResult;
+  // Ventana de tiempo (ms) del eje horizontal
+  domain: [number, number];
+  formatTime: (timestamp: number) => string;
+  formatFrequency: (frequency: number) => string;
+}
+
+interface LegendEntry {
+  label: string;
+  color: string;
+}
+
+const createSvgElement = <K extends keyof SVGElementTagNameMap>(tag: K, attributes: Record<string, string | number>) => {
+  const element = document.createElementNS(SVG_NS, tag);
+  Object.entries(attributes).forEach(([name, value]) => element.setAttribute(name, String(value)));
+  return element;
+};
+
+const inlineStyles = (source: Element, target: Element) => {
+  const sourceElements = [source, ...source.querySelectorAll('*')];
+  const targetElements = [target, ...target.querySelectorAll('*')];
+
+  sourceElements.forEach((element, index) => {
+    const computed = getComputedStyle(element);
+    const style = INLINED_PROPERTIES
+      .map(property => `${property}:${computed.getPropertyValue(property)}`)
+      .join(';');
+    targetElements[index].setAttribute('style', style);
+    targetElements[index].removeAttribute('class');
+  });
+};
+
+// Entradas de la leyenda HTML de Recharts: el texto lleva el color de la serie
+const readLegend = (container: HTMLElement): LegendEntry[] =>
+  [...container.querySelectorAll('.recharts-legend-item-text')].map(text => ({
+    label: text.textContent ?? '',
+    color: getComputedStyle(text).color,
+  }));
+
+const serialize = (svg: SVGSVGElement) =>
+  `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(svg)}`;
+
+// Documento SVG con el fondo, el título y el pie; el contenido empieza en `top`
+const createDocument = (container: HTMLElement, width: number, contentHeight: number, { title, caption }: SvgExportOptions) => {
+  const containerStyle = getComputedStyle(container);
+  const background = getComputedStyle(document.body).backgroundColor;
+  const textColor = containerStyle.color;
+
+  const headerHeight = TITLE_HEIGHT + (caption ? CAPTION_HEIGHT : 0);
+  const totalWidth = Math.ceil(width + PADDING * 2);
+  const totalHeight = Math.ceil(PADDING + headerHeight + contentHeight + PADDING);
+
+  const svg = createSvgElement('svg', {
+    xmlns: SVG_NS,
+    width: totalWidth,
+    height: totalHeight,
+    viewBox: `0 0 ${totalWidth} ${totalHeight}`,
+    'font-family': containerStyle.fontFamily,
+  });
+  svg.appendChild(createSvgElement('rect', { width: '100%', height: '100%', fill: background }));
+
+  const titleElement = createSvgElement('text', { x: PADDING, y: PADDING + 16, 'font-size': 16, 'font-weight': 600, fill: textColor });
+  titleElement.textContent = title;
+  svg.appendChild(titleElement);
+
+  if (caption) {
+    const captionElement = createSvgElement('text', { x: PADDING, y: PADDING + TITLE_HEIGHT + 12, 'font-size': 12, fill: textColor, opacity: 0.7 });
+    captionElement.textContent = caption;
+    svg.appendChild(captionElement);
+  }
+
+  return { svg, top: PADDING + headerHeight };
+};
+
+// Devuelve el SVG del primer gráfico de Recharts dentro de `container`, o null si no hay ninguno
+export const chartToSvg = (container: HTMLElement, options: SvgExportOptions) => {
+  const chart = container.querySelector<SVGSVGElement>('svg.recharts-surface');
+  if (!chart) return null;
+
+  const { width, height } = chart.getBoundingClientRect();
+
+  // Leyenda repartida en filas del ancho del gráfico
+  const legend = readLegend(container);
+  const legendRows: { entry: LegendEntry; x: number }[][] = [];
+  let x = 0;
+  legend.forEach(entry => {
+    const entryWidth = LEGEND_SWATCH + 6 + entry.label.length * LEGEND_CHAR_WIDTH + 16;
+    if (!legendRows.length || x + entryWidth > width) {
+      legendRows.push([]);
+      x = 0;
+    }
+    legendRows[legendRows.length - 1].push({ entry, x });
+    x += entryWidth;
+  });
+
+  const { svg, top } = createDocument(container, width, height + legendRows.length * LEGEND_ROW_HEIGHT, options);
+
+  const chartCopy = chart.cloneNode(true) as SVGSVGElement;
+  inlineStyles(chart, chartCopy);
+  chartCopy.setAttribute('x', String(PADDING));
+  chartCopy.setAttribute('y', String(top));
+  chartCopy.setAttribute('width', String(width));
+  chartCopy.setAttribute('height', String(height));
+  svg.appendChild(chartCopy);
+
+  const legendTop = top + height;
+  legendRows.forEach((row, rowIndex) => {
+    const y = legendTop + rowIndex * LEGEND_ROW_HEIGHT;
+    row.forEach(({ entry, x: entryX }) => {
+      svg.appendChild(createSvgElement('rect', {
+        x: PADDING + entryX,
+        y: y + (LEGEND_ROW_HEIGHT - LEGEND_SWATCH) / 2,
+        width: LEGEND_SWATCH,
+        height: LEGEND_SWATCH,
+        fill: entry.color,
+      }));
+      const label = createSvgElement('text', {
+        x: PADDING + entryX + LEGEND_SWATCH + 6,
+        y: y + LEGEND_ROW_HEIGHT / 2 + 4,
+        'font-size': 12,
+        fill: entry.color,
+      });
+      label.textContent = entry.label;
+      svg.appendChild(label);
+    });
+  });
+
+  return serialize(svg);
+};
+
+// Devuelve el SVG del espectrograma dibujado en el canvas de `container`, o null si no hay ninguno
+export const spectrogramToSvg = (container: HTMLElement, { spectrogram, domain, formatTime, formatFrequency, ...options }: SpectrogramSvgOptions) => {
+  const canvas = container.querySelector('canvas');
+  if (!canvas) return null;
+
+  const { width, height } = canvas.getBoundingClientRect();
+  const axisColor = getComputedStyle(canvas).color;
+  const { svg, top } = createDocument(container, width, height, options);
+
+  const margin = SPECTROGRAM_MARGIN;
+  const plotWidth = Math.max(0, width - margin.left - margin.right);
+  const plotHeight = Math.max(0, height - margin.top - margin.bottom);
+  const [domainFrom, domainTo] = domain;
+  const { frequencies, minDb, maxDb } = spectrogram;
+  const maxFrequency = frequencies[frequencies.length - 1];
+
+  const plot = createSvgElement('g', { transform: `translate(${PADDING} ${top})`, 'font-size': 12, fill: axisColor });
+  svg.appendChild(plot);
+
+  const defs = createSvgElement('defs', {});
+  const clip = createSvgElement('clipPath', { id: 'spectrogram-plot' });
+  clip.appendChild(createSvgElement('rect', { x: margin.left, y: margin.top, width: plotWidth, height: plotHeight }));
+  // Escala de color de abajo (menor amplitud) arriba
+  const gradient = createSvgElement('linearGradient', { id: 'spectrogram-scale', x1: 0, y1: 1, x2: 0, y2: 0 });
+  COLOR_STOPS.forEach(([r, g, b], index) => {
+    gradient.appendChild(createSvgElement('stop', {
+      offset: index / (COLOR_STOPS.length - 1),
+      'stop-color': `rgb(${r}, ${g}, ${b})`,
+    }));
+  });
+  defs.append(clip, gradient);
+  plot.appendChild(defs);
+
+  // Mapa de calor: un píxel por segmento y frecuencia, escalado sin suavizar
+  const { left, right } = getHeatmapBounds(spectrogram, domain, plotWidth);
+  plot.appendChild(createSvgElement('image', {
+    href: createHeatmap(spectrogram).toDataURL('image/png'),
+    x: margin.left + left,
+    y: margin.top,
+    width: right - left,
+    height: plotHeight,
+    preserveAspectRatio: 'none',
+    'image-rendering': 'pixelated',
+    style: 'image-rendering:pixelated',
+    'clip-path': 'url(#spectrogram-plot)',
+  }));
+  plot.appendChild(createSvgElement('rect', {
+    x: margin.left,
+    y: margin.top,
+    width: plotWidth,
+    height: plotHeight,
+    fill: 'none',
+    stroke: axisColor,
+  }));
+
+  const addText = (text: string, attributes: Record<string, string | number>) => {
+    const element = createSvgElement('text', attributes);
+    element.textContent = text;
+    plot.appendChild(element);
+  };
+
+  for (let i = 0; i < TICK_COUNT; i++) {
+    const ratio = i / (TICK_COUNT - 1);
+    addText(formatTime(domainFrom + ratio * (domainTo - domainFrom)), {
+      x: margin.left + ratio * plotWidth,
+      y: margin.top + plotHeight + 6,
+      'text-anchor': 'middle',
+      'dominant-baseline': 'hanging',
+    });
+    addText(formatFrequency(ratio * maxFrequency), {
+      x: margin.left - 6,
+      y: margin.top + plotHeight - ratio * plotHeight,
+      'text-anchor': 'end',
+      'dominant-baseline': 'middle',
+    });
+  }
+  addText('Frecuencia (Hz)', {
+    x: 14,
+    y: margin.top + plotHeight / 2,
+    transform: `rotate(-90 14 ${margin.top + plotHeight / 2})`,
+    'text-anchor': 'middle',
+    'dominant-baseline': 'middle',
+  });
+
+  // Escala de color (dB)
+  const scaleX = margin.left + plotWidth + 12;
+  plot.appendChild(createSvgElement('rect', {
+    x: scaleX,
+    y: margin.top,
+    width: COLOR_SCALE_WIDTH,
+    height: plotHeight,
+    fill: 'url(#spectrogram-scale)',
+  }));
+  addText(`${maxDb.toFixed(0)} dB`, { x: scaleX + COLOR_SCALE_WIDTH + 4, y: margin.top + 6, 'dominant-baseline': 'middle' });
+  addText(`${minDb.toFixed(0)} dB`, { x: scaleX + COLOR_SCALE_WIDTH + 4, y: margin.top + plotHeight - 6, 'dominant-baseline': 'middle' });
+
+  return serialize(svg);
+};
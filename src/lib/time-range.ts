@@ -0,0 +1,55 @@
+import type { DateRange } from 'react-day-picker';
+
+export type TimeRange = '30d' | '14d' | '7d' | '5d' | '3d' | '2d' | '24h' | '12h' | '1h' | '30m' | '15m' | '5m' | '1m' | 'range';
+
+export interface TimeBounds {
+  from: Date;
+  to: Date;
+}
+
+export const DEFAULT_TIME_RANGE: TimeRange = '5d';
+
+export const TIME_RANGES = [
+  { value: '30d' as TimeRange, label: '30 días', minutes: 30 * 24 * 60 },
+  { value: '14d' as TimeRange, label: '14 días', minutes: 14 * 24 * 60 },
+  { value: '7d' as TimeRange, label: '7 días', minutes: 7 * 24 * 60 },
+  { value: '5d' as TimeRange, label: '5 días', minutes: 5 * 24 * 60 },
+  { value: '3d' as TimeRange, label: '3 días', minutes: 3 * 24 * 60 },
+  { value: '2d' as TimeRange, label: '2 días', minutes: 2 * 24 * 60 },
+  { value: '24h' as TimeRange, label: '24 horas', minutes: 24 * 60 },
+  { value: '12h' as TimeRange, label: '12 horas', minutes: 12 * 60 },
+  { value: '1h' as TimeRange, label: '1 hora', minutes: 60 },
+  { value: '30m' as TimeRange, label: '30 minutos', minutes: 30 },
+  { value: '15m' as TimeRange, label: '15 minutos', minutes: 15 },
+  { value: '5m' as TimeRange, label: '5 minutos', minutes: 5 },
+  { value: '1m' as TimeRange, label: '1 minuto', minutes: 1 },
+  { value: 'range' as TimeRange, label: 'Rango', minutes: 0 },
+];
+
+// Los rangos relativos terminan "ahora" y admiten modo en vivo; el rango personalizado es fijo
+export const isRelativeTimeRange = (timeRange: TimeRange) => timeRange !== 'range';
+
+// Calcula los límites [from, to] que se consultan en Firestore para el rango seleccionado.
+// Devuelve null cuando el rango personalizado aún no tiene fecha de inicio.
+export const getTimeRangeBounds = (
+  timeRange: TimeRange,
+  dateRange: DateRange | undefined,
+  now: Date = new Date()
+): TimeBounds | null => {
+  if (timeRange === 'range') {
+    if (!dateRange?.from) return null;
+
+    const from = new Date(dateRange.from);
+    from.setHours(0, 0, 0, 0); // Inicio del día
+    const to = new Date(dateRange.to ?? dateRange.from);
+    to.setHours(23, 59, 59, 999); // Final del día
+
+    return { from, to };
+  }
+
+  const rangeMinutes = TIME_RANGES.find(r => r.value === timeRange)?.minutes || 60;
+  return {
+    from: new Date(now.getTime() - rangeMinutes * 60 * 1000),
+    to: now,
+  };
+};
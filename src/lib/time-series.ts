@@ -0,0 +1,17 @@
+// Utilidades para series ordenadas por `timestamp` (ms)
+
+// Índice del punto más cercano a `timestamp` (búsqueda binaria); -1 si la serie está vacía
+export const findNearestIndex = <T extends { timestamp: number }>(data: T[], timestamp: number) => {
+  if (!data.length) return -1;
+
+  let low = 0;
+  let high = data.length - 1;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (data[middle].timestamp < timestamp) low = middle + 1;
+    else high = middle;
+  }
+
+  if (low > 0 && timestamp - data[low - 1].timestamp < data[low].timestamp - timestamp) return low - 1;
+  return low;
+};
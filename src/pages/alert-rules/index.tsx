@@ -0,0 +1,401 @@
+import { useMemo, useState, type FormEvent } from "react";
+import { Link } from "react-router";
+import { SidebarTrigger } from "@/components/ui/sidebar.tsx";
+import {
+  Breadcrumb,
+  BreadcrumbList,
+  BreadcrumbItem,
+  BreadcrumbPage,
+} from "@/components/ui/breadcrumb.tsx";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card.tsx";
+import { Button } from "@/components/ui/button.tsx";
+import { Badge } from "@/components/ui/badge.tsx";
+import { Input } from "@/components/ui/input.tsx";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select.tsx";
+import { BellRing, Plus, Trash2, Power, PowerOff, RefreshCw } from "lucide-react";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { useDevices } from "@/hooks/use-devices.ts";
+import { useAlertRules } from "@/hooks/use-alerts.ts";
+import { useAlertEngine } from "@/hooks/use-alert-engine.ts";
+import { useFirestoreOperations } from "@/hooks/use-firestore.ts";
+import {
+  ALERT_AGGREGATES,
+  ALERT_METRICS,
+  ALERT_SEVERITIES,
+  describeCondition,
+  getSeverityLabel,
+  getSeverityVariant
+} from "@/lib/alert-rules.ts";
+import type { AlertAggregate, AlertCondition, AlertMetric, AlertRule, AlertSeverity } from "@/types/models/alert-rule";
+
+// Alcance en el formulario: 'all', 'device:<id>' o 'group:<id>'
+const ALL_DEVICES_SCOPE = 'all';
+
+interface RuleForm {
+  name: string;
+  severity: AlertSeverity;
+  scope: string;
+  type: AlertCondition['type'];
+  metric: AlertMetric;
+  aggregate: AlertAggregate;
+  operator: '>' | '<';
+  threshold: string;
+  windowMinutes: string;
+  minutes: string;
+}
+
+const INITIAL_FORM: RuleForm = {
+  name: '',
+  severity: 'warning',
+  scope: ALL_DEVICES_SCOPE,
+  type: 'threshold',
+  metric: 'accel_magnitude',
+  aggregate: 'rms',
+  operator: '>',
+  threshold: '',
+  windowMinutes: '5',
+  minutes: '30',
+};
+
+// Documento de alertRules a partir del formulario; devuelve el motivo si algún campo no es válido
+const toRuleDocument = (form: RuleForm): Omit<AlertRule, 'id'> | string => {
+  if (!form.name.trim()) return 'El nombre es obligatorio';
+
+  let condition: AlertCondition;
+  if (form.type === 'no-data') {
+    const minutes = Number(form.minutes);
+    if (!(minutes > 0)) return 'Los minutos sin lecturas deben ser mayores que 0';
+    condition = { type: 'no-data', minutes };
+  } else {
+    const threshold = Number(form.threshold);
+    const windowMinutes = Number(form.windowMinutes);
+    if (form.threshold.trim() === '' || !Number.isFinite(threshold)) return 'El umbral debe ser un número';
+    if (!(windowMinutes > 0)) return 'La ventana debe ser mayor que 0 minutos';
+    condition = {
+      type: 'threshold',
+      metric: form.metric,
+      aggregate: form.aggregate,
+      operator: form.operator,
+      threshold,
+      windowMinutes,
+    };
+  }
+
+  const [scopeType, scopeId] = form.scope.split(':');
+  return {
+    name: form.name.trim(),
+    enabled: true,
+    severity: form.severity,
+    ...(scopeType === 'device' && { deviceId: scopeId }),
+    ...(scopeType === 'group' && { groupId: scopeId }),
+    condition,
+  };
+};
+
+export const AlertRulesPage = () => {
+  const { data: rules, invalid, loading } = useAlertRules();
+  const { data: devices } = useDevices();
+  const { active, watchedDevices, evaluating, lastEvaluation, evaluateNow } = useAlertEngine();
+  const { add, update, remove, loading: saving, error: saveError } = useFirestoreOperations();
+  const [form, setForm] = useState<RuleForm>(INITIAL_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // Grupos conocidos: los que tienen asignados los dispositivos
+  const groups = useMemo(
+    () => [...new Set(devices.map(device => device.groupId).filter((groupId): groupId is string => !!groupId))].sort(),
+    [devices]
+  );
+
+  const setField = <K extends keyof RuleForm>(field: K, value: RuleForm[K]) => {
+    setForm(current => ({ ...current, [field]: value }));
+  };
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+
+    const rule = toRuleDocument(form);
+    if (typeof rule === 'string') {
+      setFormError(rule);
+      return;
+    }
+
+    setFormError(null);
+    try {
+      await add('alertRules', rule);
+      setForm(INITIAL_FORM);
+    } catch (error) {
+      console.error('Error al crear la regla de alerta:', error);
+    }
+  };
+
+  const runOperation = async (operation: () => Promise<void>) => {
+    try {
+      await operation();
+    } catch (error) {
+      console.error('Error al modificar la regla de alerta:', error);
+    }
+  };
+
+  const describeScope = (rule: AlertRule) => {
+    if (rule.deviceId) {
+      return (
+        <Link to={`/dispositivos/${rule.deviceId}`} className="hover:underline">
+          {devices.find(device => device.id === rule.deviceId)?.name ?? rule.deviceId}
+        </Link>
+      );
+    }
+    if (rule.groupId) return `Grupo ${rule.groupId}`;
+    return 'Todos los dispositivos';
+  };
+
+  return <div>
+    <div className={"flex items-center justify-between"}>
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <SidebarTrigger />
+          </BreadcrumbItem>
+          <BreadcrumbItem>
+            <BreadcrumbPage>Reglas de alerta</BreadcrumbPage>
+          </BreadcrumbItem>
+        </BreadcrumbList>
+      </Breadcrumb>
+    </div>
+
+    <div className={"mt-6 px-2 space-y-4"}>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Plus className="h-5 w-5" />
+            Nueva regla
+          </CardTitle>
+          <CardDescription>
+            Las reglas se evalúan con cada lectura nueva de los dispositivos a los que se aplican. Cada disparo
+            crea una alerta; la regla no vuelve a dispararse en el mismo dispositivo hasta que la alerta se resuelve.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-1">
+                <label htmlFor="rule-name" className="text-sm font-medium">Nombre</label>
+                <Input
+                  id="rule-name"
+                  value={form.name}
+                  onChange={event => setField('name', event.target.value)}
+                  placeholder="Vibración alta"
+                />
+              </div>
+              <div className="space-y-1">
+                <span className="text-sm font-medium">Aplicar a</span>
+                <Select value={form.scope} onValueChange={value => setField('scope', value)}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_DEVICES_SCOPE}>Todos los dispositivos</SelectItem>
+                    {groups.map(groupId => (
+                      <SelectItem key={groupId} value={`group:${groupId}`}>Grupo {groupId}</SelectItem>
+                    ))}
+                    {devices.map(device => (
+                      <SelectItem key={device.id} value={`device:${device.id}`}>{device.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <span className="text-sm font-medium">Severidad</span>
+                <Select value={form.severity} onValueChange={(value: AlertSeverity) => setField('severity', value)}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ALERT_SEVERITIES.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="space-y-1">
+                <span className="text-sm font-medium">Condición</span>
+                <Select value={form.type} onValueChange={(value: AlertCondition['type']) => setField('type', value)}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="threshold">Umbral</SelectItem>
+                    <SelectItem value="no-data">Sin lecturas</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {form.type === 'threshold' ? (
+                <>
+                  <Select value={form.aggregate} onValueChange={(value: AlertAggregate) => setField('aggregate', value)}>
+                    <SelectTrigger className="w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ALERT_AGGREGATES.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <span className="text-sm text-muted-foreground pb-2">de</span>
+                  <Select value={form.metric} onValueChange={(value: AlertMetric) => setField('metric', value)}>
+                    <SelectTrigger className="w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ALERT_METRICS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={form.operator} onValueChange={(value: '>' | '<') => setField('operator', value)}>
+                    <SelectTrigger className="w-16">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value=">">&gt;</SelectItem>
+                      <SelectItem value="<">&lt;</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    step="any"
+                    className="w-28"
+                    value={form.threshold}
+                    onChange={event => setField('threshold', event.target.value)}
+                    placeholder="Umbral"
+                    aria-label="Umbral"
+                  />
+                  <span className="text-sm text-muted-foreground pb-2">durante</span>
+                  <Input
+                    type="number"
+                    min={1}
+                    className="w-20"
+                    value={form.windowMinutes}
+                    onChange={event => setField('windowMinutes', event.target.value)}
+                    aria-label="Ventana en minutos"
+                  />
+                  <span className="text-sm text-muted-foreground pb-2">min</span>
+                </>
+              ) : (
+                <>
+                  <span className="text-sm text-muted-foreground pb-2">durante</span>
+                  <Input
+                    type="number"
+                    min={1}
+                    className="w-20"
+                    value={form.minutes}
+                    onChange={event => setField('minutes', event.target.value)}
+                    aria-label="Minutos sin lecturas"
+                  />
+                  <span className="text-sm text-muted-foreground pb-2">min</span>
+                </>
+              )}
+            </div>
+
+            {(formError || saveError) && (
+              <p className="text-sm text-destructive">{formError ?? saveError}</p>
+            )}
+
+            <Button type="submit" size="sm" disabled={saving}>
+              <Plus className="h-4 w-4" />
+              Crear regla
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+            <CardTitle className="flex items-center gap-2">
+              <BellRing className="h-5 w-5" />
+              Reglas
+            </CardTitle>
+            <div className="flex items-center gap-3">
+              <span className="text-xs text-muted-foreground">
+                {watchedDevices} {watchedDevices === 1 ? 'dispositivo vigilado' : 'dispositivos vigilados'}
+                {active
+                  ? lastEvaluation && ` · última evaluación ${format(lastEvaluation, 'HH:mm:ss', { locale: es })}`
+                  : ' · el motor se ejecuta en otra pestaña'}
+              </span>
+              <Button variant="outline" size="sm" disabled={!active || evaluating || !watchedDevices} onClick={evaluateNow}>
+                <RefreshCw className="h-4 w-4" />
+                {evaluating ? 'Evaluando...' : 'Evaluar ahora'}
+              </Button>
+            </div>
+          </div>
+          {invalid.count > 0 && (
+            <CardDescription className="text-destructive">
+              {invalid.count} {invalid.count === 1 ? 'regla inválida ignorada' : 'reglas inválidas ignoradas'}:{' '}
+              {invalid.reasons[0].reason}
+            </CardDescription>
+          )}
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="animate-pulse">
+              <div className="bg-gray-200 rounded h-24 w-full"></div>
+            </div>
+          ) : !rules.length ? (
+            <p className="text-sm text-muted-foreground">Todavía no hay reglas de alerta.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground border-b">
+                    <th className="py-2 pr-4 font-medium">Nombre</th>
+                    <th className="py-2 pr-4 font-medium">Aplicar a</th>
+                    <th className="py-2 pr-4 font-medium">Condición</th>
+                    <th className="py-2 pr-4 font-medium">Severidad</th>
+                    <th className="py-2 font-medium"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rules.map(rule => (
+                    <tr key={rule.id} className={`border-b last:border-0 ${rule.enabled ? '' : 'text-muted-foreground'}`}>
+                      <td className="py-2 pr-4 font-medium">{rule.name}</td>
+                      <td className="py-2 pr-4">{describeScope(rule)}</td>
+                      <td className="py-2 pr-4">{describeCondition(rule)}</td>
+                      <td className="py-2 pr-4">
+                        <Badge variant={getSeverityVariant(rule.severity)}>{getSeverityLabel(rule.severity)}</Badge>
+                      </td>
+                      <td className="py-2 text-right whitespace-nowrap">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={saving}
+                          onClick={() => runOperation(() => update('alertRules', rule.id, { enabled: !rule.enabled }))}
+                        >
+                          {rule.enabled ? <PowerOff className="h-4 w-4" /> : <Power className="h-4 w-4" />}
+                          {rule.enabled ? 'Desactivar' : 'Activar'}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={saving}
+                          onClick={() => runOperation(() => remove('alertRules', rule.id))}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                          <span className="sr-only">Eliminar</span>
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  </div>
+}
@@ -0,0 +1,296 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router";
+import { SidebarTrigger } from "@/components/ui/sidebar.tsx";
+import {
+  Breadcrumb,
+  BreadcrumbList,
+  BreadcrumbItem,
+  BreadcrumbPage,
+} from "@/components/ui/breadcrumb.tsx";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card.tsx";
+import { Button } from "@/components/ui/button.tsx";
+import { Badge } from "@/components/ui/badge.tsx";
+import { Input } from "@/components/ui/input.tsx";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select.tsx";
+import { Bell, Check, CheckCheck, MessageSquare, Settings, Cpu, History } from "lucide-react";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { useAlertHistory, useOpenAlerts } from "@/hooks/use-alerts.ts";
+import { useDevices } from "@/hooks/use-devices.ts";
+import { useFirestoreOperations } from "@/hooks/use-firestore.ts";
+import { ALERT_SEVERITIES, ALERT_STATUSES, getSeverityLabel, getSeverityVariant, getStatusLabel } from "@/lib/alert-rules.ts";
+import type { Alert, AlertStatus } from "@/types/models/alert";
+import type { AlertSeverity } from "@/types/models/alert-rule";
+
+// Filtros: 'all' desactiva el filtro; 'open' son las alertas sin resolver
+const ALL = 'all';
+const OPEN = 'open';
+
+const formatDate = (date: Date) => format(date, "dd/MM/yy HH:mm:ss", { locale: es });
+
+const STATUS_VARIANTS: Record<AlertStatus, 'default' | 'secondary' | 'outline'> = {
+  active: 'default',
+  acknowledged: 'secondary',
+  resolved: 'outline',
+};
+
+// "Sin resolver" lista todas las alertas abiertas en tiempo real (las mismas que cuenta el menú lateral);
+// el resto de vistas pagina el historial con los filtros como consultas where
+export const AlertsPage = () => {
+  const { data: devices } = useDevices();
+  const { update, append, loading: saving, error: saveError } = useFirestoreOperations();
+  const [deviceFilter, setDeviceFilter] = useState(ALL);
+  const [severityFilter, setSeverityFilter] = useState(ALL);
+  const [statusFilter, setStatusFilter] = useState(OPEN);
+  // Alerta cuyo formulario de comentario está abierto y texto del comentario
+  const [commentingId, setCommentingId] = useState<string | null>(null);
+  const [comment, setComment] = useState('');
+
+  const openView = statusFilter === OPEN;
+  const openAlerts = useOpenAlerts();
+  const history = useAlertHistory(openView ? null : {
+    deviceId: deviceFilter !== ALL ? deviceFilter : undefined,
+    severity: severityFilter !== ALL ? severityFilter as AlertSeverity : undefined,
+    status: statusFilter !== ALL ? statusFilter as AlertStatus : undefined,
+  });
+  const { invalid, loading, error } = openView ? openAlerts : history;
+
+  // Las alertas abiertas son pocas: se filtran y ordenan en el cliente
+  const filteredAlerts = useMemo(() => openView
+    ? openAlerts.data
+      .filter(alert => (deviceFilter === ALL || alert.deviceId === deviceFilter) &&
+        (severityFilter === ALL || alert.severity === severityFilter))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+    : history.data,
+  [openView, openAlerts.data, history.data, deviceFilter, severityFilter]);
+
+  // Dispositivos del filtro: los registrados y los que aparecen en las alertas cargadas
+  const deviceOptions = useMemo(() => {
+    const options = new Map(devices.map(device => [device.id, device.name]));
+    [...openAlerts.data, ...history.data].forEach(alert => {
+      if (!options.has(alert.deviceId)) options.set(alert.deviceId, alert.deviceName);
+    });
+    return [...options.entries()];
+  }, [devices, openAlerts.data, history.data]);
+
+  // El historial no es en tiempo real: tras un cambio se vuelve a cargar
+  const refreshHistory = () => {
+    if (!openView) history.refetch();
+  };
+
+  const runUpdate = async (alert: Alert, data: Partial<Omit<Alert, 'id'>>) => {
+    try {
+      await update('alerts', alert.id, data);
+      refreshHistory();
+      return true;
+    } catch (error) {
+      console.error('Error al actualizar la alerta:', error);
+      return false;
+    }
+  };
+
+  const acknowledge = (alert: Alert) => runUpdate(alert, { status: 'acknowledged', acknowledgedAt: new Date() });
+
+  const resolve = (alert: Alert) => runUpdate(alert, {
+    status: 'resolved',
+    resolvedAt: new Date(),
+    // Resolver sin reconocer antes también cuenta como reconocida
+    ...(!alert.acknowledgedAt && { acknowledgedAt: new Date() }),
+  });
+
+  const addComment = async (alert: Alert) => {
+    const text = comment.trim();
+    if (!text) return;
+
+    // Con arrayUnion no se pierden los comentarios que otra pestaña añada a la vez
+    try {
+      await append('alerts', alert.id, 'comments', [{ text, createdAt: new Date() }]);
+      refreshHistory();
+    } catch (error) {
+      // Si falla se conserva el texto para reintentar
+      console.error('Error al comentar la alerta:', error);
+      return;
+    }
+    setComment('');
+    setCommentingId(null);
+  };
+
+  const toggleComment = (alertId: string) => {
+    setCommentingId(current => current === alertId ? null : alertId);
+    setComment('');
+  };
+
+  return <div>
+    <div className={"flex items-center justify-between"}>
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <SidebarTrigger />
+          </BreadcrumbItem>
+          <BreadcrumbItem>
+            <BreadcrumbPage>Alertas</BreadcrumbPage>
+          </BreadcrumbItem>
+        </BreadcrumbList>
+      </Breadcrumb>
+      <Button variant="outline" size="sm" asChild>
+        <Link to="/alertas/reglas">
+          <Settings className="h-4 w-4" />
+          Reglas
+        </Link>
+      </Button>
+    </div>
+
+    <div className={"mt-6 px-2 space-y-4"}>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Bell className="h-5 w-5" />
+            Bandeja de alertas
+          </CardTitle>
+          <CardDescription>
+            Reconoce las alertas que ya se están atendiendo y resuélvelas cuando el problema esté corregido; mientras
+            una alerta no se resuelva, su regla no vuelve a dispararse en el mismo dispositivo.
+          </CardDescription>
+
+          <div className="flex flex-col sm:flex-row gap-3 pt-2">
+            <Select value={deviceFilter} onValueChange={setDeviceFilter}>
+              <SelectTrigger className="w-full sm:w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Todos los dispositivos</SelectItem>
+                {deviceOptions.map(([id, name]) => (
+                  <SelectItem key={id} value={id}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={severityFilter} onValueChange={setSeverityFilter}>
+              <SelectTrigger className="w-full sm:w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Todas las severidades</SelectItem>
+                {ALERT_SEVERITIES.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-full sm:w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={OPEN}>Sin resolver</SelectItem>
+                <SelectItem value={ALL}>Todos los estados</SelectItem>
+                {ALERT_STATUSES.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+
+        <CardContent className="space-y-3">
+          {(error || saveError) && <p className="text-sm text-destructive">{error ?? saveError}</p>}
+          {invalid.count > 0 && (
+            <p className="text-sm text-muted-foreground">
+              {invalid.count} {invalid.count === 1 ? 'alerta inválida ignorada' : 'alertas inválidas ignoradas'}
+            </p>
+          )}
+
+          {loading ? (
+            <div className="animate-pulse">
+              <div className="bg-gray-200 rounded h-24 w-full"></div>
+            </div>
+          ) : !filteredAlerts.length ? (
+            <p className="text-sm text-muted-foreground">No hay alertas con los filtros seleccionados.</p>
+          ) : (
+            filteredAlerts.map(alert => (
+              <div key={alert.id} className="border rounded-lg p-3 space-y-2">
+                <div className="flex flex-col lg:flex-row lg:items-start lg:justify-between gap-2">
+                  <div className="space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge variant={getSeverityVariant(alert.severity)}>{getSeverityLabel(alert.severity)}</Badge>
+                      <Badge variant={STATUS_VARIANTS[alert.status]}>{getStatusLabel(alert.status)}</Badge>
+                      <span className="font-medium">{alert.ruleName}</span>
+                      <Link
+                        to={`/dispositivos/${alert.deviceId}`}
+                        className="flex items-center gap-1 text-sm text-muted-foreground hover:underline"
+                      >
+                        <Cpu className="h-3 w-3" />
+                        {alert.deviceName}
+                      </Link>
+                    </div>
+                    <p className="text-sm">{alert.message}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatDate(alert.createdAt)} · ventana {formatDate(alert.windowFrom)} – {formatDate(alert.windowTo)}
+                      {alert.acknowledgedAt && ` · reconocida ${formatDate(alert.acknowledgedAt)}`}
+                      {alert.resolvedAt && ` · resuelta ${formatDate(alert.resolvedAt)}`}
+                    </p>
+                  </div>
+
+                  <div className="flex items-center gap-1 shrink-0">
+                    {alert.status === 'active' && (
+                      <Button variant="outline" size="sm" disabled={saving} onClick={() => acknowledge(alert)}>
+                        <Check className="h-4 w-4" />
+                        Reconocer
+                      </Button>
+                    )}
+                    {alert.status !== 'resolved' && (
+                      <Button variant="outline" size="sm" disabled={saving} onClick={() => resolve(alert)}>
+                        <CheckCheck className="h-4 w-4" />
+                        Resolver
+                      </Button>
+                    )}
+                    <Button variant="ghost" size="sm" onClick={() => toggleComment(alert.id)}>
+                      <MessageSquare className="h-4 w-4" />
+                      {alert.comments.length > 0 ? alert.comments.length : 'Comentar'}
+                    </Button>
+                  </div>
+                </div>
+
+                {(alert.comments.length > 0 || commentingId === alert.id) && (
+                  <div className="border-t pt-2 space-y-1">
+                    {alert.comments.map((entry, index) => (
+                      <p key={index} className="text-sm">
+                        <span className="text-xs text-muted-foreground">{formatDate(entry.createdAt)}</span> {entry.text}
+                      </p>
+                    ))}
+                    {commentingId === alert.id && (
+                      <form
+                        className="flex gap-2 pt-1"
+                        onSubmit={event => {
+                          event.preventDefault();
+                          addComment(alert);
+                        }}
+                      >
+                        <Input
+                          autoFocus
+                          value={comment}
+                          onChange={event => setComment(event.target.value)}
+                          placeholder="Añadir un comentario"
+                        />
+                        <Button type="submit" size="sm" disabled={saving || !comment.trim()}>
+                          Guardar
+                        </Button>
+                      </form>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+
+          {!openView && history.hasNext && (
+            <div className="flex justify-center">
+              <Button variant="outline" size="sm" disabled={history.loadingMore} onClick={history.loadMore}>
+                <History className="h-4 w-4" />
+                {history.loadingMore ? 'Cargando...' : 'Cargar alertas anteriores'}
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  </div>
+}
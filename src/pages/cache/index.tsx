@@ -0,0 +1,226 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router";
+import { SidebarTrigger } from "@/components/ui/sidebar.tsx";
+import {
+  Breadcrumb,
+  BreadcrumbList,
+  BreadcrumbItem,
+  BreadcrumbPage,
+} from "@/components/ui/breadcrumb.tsx";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card.tsx";
+import { Button } from "@/components/ui/button.tsx";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select.tsx";
+import { HardDrive, Trash2, Scissors, RefreshCw } from "lucide-react";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { useDevices } from "@/hooks/use-devices.ts";
+import {
+  CACHE_RETENTION_OPTIONS,
+  getCacheRetentionDays,
+  getReadingsCache,
+  setCacheRetentionDays,
+  type DeviceCacheStats
+} from "@/lib/readings-cache.ts";
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const formatDate = (date: Date | number) => format(date, "dd/MM/yy HH:mm", { locale: es });
+
+export const CachePage = () => {
+  const cache = getReadingsCache();
+  const { data: devices } = useDevices();
+  const [stats, setStats] = useState<DeviceCacheStats[]>([]);
+  const [usage, setUsage] = useState<StorageEstimate | null>(null);
+  const [retentionDays, setRetentionDays] = useState(getCacheRetentionDays);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!cache) return;
+
+    setLoading(true);
+    try {
+      setStats(await cache.getStats());
+      setUsage(navigator.storage?.estimate ? await navigator.storage.estimate() : null);
+    } catch (error) {
+      console.error('Error al leer la caché de lecturas:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [cache]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Ejecuta una operación sobre la caché y vuelve a calcular el tamaño
+  const run = async (operation: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await operation();
+    } catch (error) {
+      console.error('Error al modificar la caché de lecturas:', error);
+    } finally {
+      setBusy(false);
+      refresh();
+    }
+  };
+
+  const handleRetentionChange = (value: string) => {
+    const days = Number(value);
+    setRetentionDays(days);
+    setCacheRetentionDays(days);
+  };
+
+  const getDeviceName = (deviceId: string) => devices.find(device => device.id === deviceId)?.name ?? deviceId;
+
+  const totalCount = stats.reduce((sum, entry) => sum + entry.count, 0);
+  const totalBytes = stats.reduce((sum, entry) => sum + entry.bytes, 0);
+
+  return <div>
+    <div className={"flex items-center justify-between"}>
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <SidebarTrigger />
+          </BreadcrumbItem>
+          <BreadcrumbItem>
+            <BreadcrumbPage>Caché de lecturas</BreadcrumbPage>
+          </BreadcrumbItem>
+        </BreadcrumbList>
+      </Breadcrumb>
+    </div>
+
+    <div className={"mt-6 px-2 space-y-4"}>
+      {!cache ? (
+        <Card>
+          <CardContent className="pt-6 text-muted-foreground">
+            La caché de lecturas no está disponible con la fuente de datos en memoria.
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <HardDrive className="h-5 w-5" />
+                Almacenamiento local
+              </CardTitle>
+              <CardDescription>
+                Las lecturas ya descargadas se guardan en el navegador; al volver a abrir un dispositivo solo se
+                descargan las lecturas nuevas.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div>
+                  <p className="text-sm text-muted-foreground">Lecturas guardadas</p>
+                  <p className="text-2xl font-semibold">{loading ? '...' : totalCount.toLocaleString('es-ES')}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">Tamaño aproximado</p>
+                  <p className="text-2xl font-semibold">{loading ? '...' : formatBytes(totalBytes)}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">Uso del navegador</p>
+                  <p className="text-2xl font-semibold">
+                    {usage?.usage !== undefined ? formatBytes(usage.usage) : '—'}
+                    {usage?.quota !== undefined && (
+                      <span className="text-sm font-normal text-muted-foreground"> de {formatBytes(usage.quota)}</span>
+                    )}
+                  </p>
+                </div>
+              </div>
+
+              <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-muted-foreground whitespace-nowrap">Retención</span>
+                  <Select value={String(retentionDays)} onValueChange={handleRetentionChange}>
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CACHE_RETENTION_OPTIONS.map(days => (
+                        <SelectItem key={days} value={String(days)}>{days} días</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button variant="outline" size="sm" disabled={busy} onClick={() => run(() => cache.prune(retentionDays))}>
+                  <Scissors className="h-4 w-4" />
+                  Aplicar retención
+                </Button>
+                <Button variant="outline" size="sm" disabled={busy || loading} onClick={refresh}>
+                  <RefreshCw className="h-4 w-4" />
+                  Actualizar
+                </Button>
+                <Button variant="destructive" size="sm" disabled={busy || !stats.length} onClick={() => run(() => cache.clear())}>
+                  <Trash2 className="h-4 w-4" />
+                  Vaciar caché
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Por dispositivo</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {!loading && !stats.length ? (
+                <p className="text-sm text-muted-foreground">No hay lecturas en la caché.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-muted-foreground border-b">
+                        <th className="py-2 pr-4 font-medium">Dispositivo</th>
+                        <th className="py-2 pr-4 font-medium">Lecturas</th>
+                        <th className="py-2 pr-4 font-medium">Tamaño</th>
+                        <th className="py-2 pr-4 font-medium">Intervalo completo</th>
+                        <th className="py-2 font-medium"></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {stats.map(entry => (
+                        <tr key={entry.deviceId} className="border-b last:border-0">
+                          <td className="py-2 pr-4">
+                            <Link to={`/dispositivos/${entry.deviceId}`} className="hover:underline">
+                              {getDeviceName(entry.deviceId)}
+                            </Link>
+                          </td>
+                          <td className="py-2 pr-4">{entry.count.toLocaleString('es-ES')}</td>
+                          <td className="py-2 pr-4">{formatBytes(entry.bytes)}</td>
+                          <td className="py-2 pr-4 text-muted-foreground">
+                            {entry.coverage
+                              ? `${formatDate(entry.coverage.from)} – ${formatDate(entry.coverage.to)}`
+                              : 'Incompleto'}
+                          </td>
+                          <td className="py-2 text-right">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              disabled={busy}
+                              onClick={() => run(() => cache.clearDevice(entry.deviceId))}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                              <span className="sr-only">Vaciar</span>
+                            </Button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  </div>
+}
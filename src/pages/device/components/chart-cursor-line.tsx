@@ -0,0 +1,31 @@
+import { useChartCursorTimestamp } from '@/hooks/use-chart-cursor';
+
+// Props que recharts pasa a los elementos de <Customized>: ejes ya escalados y área de datos
+type ChartCursorLineProps = {
+  xAxisMap?: Record<string, { scale: (value: number) => number }>;
+  offset?: { top: number; left: number; width: number; height: number };
+};
+
+// Línea del cursor compartido dentro de un gráfico de recharts (<Customized component={<ChartCursorLine />} />).
+// Es el único elemento del gráfico que se suscribe al cursor, así que mover el puntero no vuelve a renderizar la serie.
+export const ChartCursorLine = ({ xAxisMap, offset }: ChartCursorLineProps) => {
+  const timestamp = useChartCursorTimestamp();
+  const xAxis = xAxisMap && Object.values(xAxisMap)[0];
+  if (timestamp === null || !xAxis || !offset) return null;
+
+  // Fuera del área de datos no se dibuja, como ifOverflow="hidden"
+  const x = xAxis.scale(timestamp);
+  if (!Number.isFinite(x) || x < offset.left || x > offset.left + offset.width) return null;
+
+  return (
+    <line
+      x1={x}
+      x2={x}
+      y1={offset.top}
+      y2={offset.top + offset.height}
+      stroke="#888888"
+      strokeDasharray="4 2"
+      pointerEvents="none"
+    />
+  );
+};
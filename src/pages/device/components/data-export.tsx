@@ -0,0 +1,148 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FileDown, Sigma } from 'lucide-react';
+import { downloadBlob } from '@/lib/export';
+import {
+  EXPORT_FORMATS,
+  EXPORT_TIME_ZONES,
+  READING_COLUMNS,
+  serializeReadings,
+  serializeStatistics,
+  type DecimalSeparator,
+  type ExportTimeZone,
+  type ReadingsExportFormat,
+} from '@/lib/readings-export';
+import type { SensorReading } from '@/types/models/sensor-reading';
+
+interface DataExportProps {
+  readings: SensorReading[];
+  // Nombre del archivo para el tipo ('lecturas' o 'estadisticas') y la extensión (mismo esquema que las imágenes)
+  getFilename: (type: string, extension: string) => string;
+}
+
+// Exportación de las lecturas visibles y de sus estadísticas en CSV, JSON o NDJSON
+export const DataExport = ({ readings, getFilename }: DataExportProps) => {
+  const [format, setFormat] = useState<ReadingsExportFormat>('csv');
+  const [columns, setColumns] = useState(() => READING_COLUMNS.map(column => column.key));
+  const [timeZone, setTimeZone] = useState<ExportTimeZone>('local');
+  const [decimalSeparator, setDecimalSeparator] = useState<DecimalSeparator>('.');
+
+  const toggleColumn = (key: string) => {
+    setColumns(current => current.includes(key) ? current.filter(column => column !== key) : [...current, key]);
+  };
+
+  const handleDownload = (type: 'lecturas' | 'estadisticas') => {
+    const { extension, mimeType } = EXPORT_FORMATS.find(option => option.value === format)!;
+    const options = { format, columns, timeZone, decimalSeparator };
+    const content = type === 'lecturas' ? serializeReadings(readings, options) : serializeStatistics(readings, options);
+    downloadBlob(new Blob([content], { type: mimeType }), getFilename(type, extension));
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" disabled={!readings.length} className="flex items-center gap-1 shrink-0">
+          <FileDown className="h-4 w-4" />
+          <span className="hidden sm:inline">Exportar datos</span>
+          <span className="sm:hidden">Datos</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-4">
+        <div>
+          <p className="text-sm font-medium">Exportar lecturas</p>
+          <p className="text-xs text-muted-foreground">
+            {readings.length} lecturas de la ventana visible, en orden cronológico
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <span className="text-xs font-medium">Formato</span>
+            <Select value={format} onValueChange={(value: ReadingsExportFormat) => setFormat(value)}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPORT_FORMATS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <span className="text-xs font-medium">Zona horaria</span>
+            <Select value={timeZone} onValueChange={(value: ExportTimeZone) => setTimeZone(value)}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPORT_TIME_ZONES.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {format === 'csv' && (
+            <div className="space-y-1 col-span-2">
+              <span className="text-xs font-medium">Separador decimal</span>
+              <Select value={decimalSeparator} onValueChange={(value: DecimalSeparator) => setDecimalSeparator(value)}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value=".">Punto (campos separados por ",")</SelectItem>
+                  <SelectItem value=",">Coma (campos separados por ";")</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-1">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-medium">Columnas</span>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={() => setColumns(columns.length ? [] : READING_COLUMNS.map(column => column.key))}
+            >
+              {columns.length ? 'Ninguna' : 'Todas'}
+            </Button>
+          </div>
+          <div className="max-h-48 overflow-y-auto space-y-1 pr-1">
+            {READING_COLUMNS.map(column => (
+              <label key={column.key} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 accent-primary"
+                  checked={columns.includes(column.key)}
+                  onChange={() => toggleColumn(column.key)}
+                />
+                {column.label}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <div className="grid grid-cols-2 gap-2">
+            <Button size="sm" disabled={!columns.length} onClick={() => handleDownload('lecturas')}>
+              <FileDown className="h-4 w-4" />
+              Lecturas
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => handleDownload('estadisticas')}>
+              <Sigma className="h-4 w-4" />
+              Estadísticas
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Las estadísticas (una fila por serie, como en el panel) se descargan en un archivo aparte
+          </p>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -1,10 +1,11 @@
-import { useState, useMemo, useRef } from 'react';
+import { useState, useMemo, useRef, useCallback, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Tooltip as UITooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import {
   LineChart,
   Line,
@@ -24,13 +25,39 @@ import {
   CartesianGrid,
   Tooltip,
   Legend,
-  ResponsiveContainer
+  ResponsiveContainer,
+  ReferenceArea,
+  ReferenceLine,
+  Customized,
+  Brush
 } from 'recharts';
-import { Clock, Activity, BarChart3, LineChart as LineChartIcon, Radar as RadarIcon, CalendarDays, X, ZoomIn, Download, Camera } from 'lucide-react';
+import { Clock, Activity, BarChart3, LineChart as LineChartIcon, Radar as RadarIcon, CalendarDays, X, Layers, ZoomOut, Waves, AudioWaveform, Download, Camera, History, AlertTriangle, Pause, Play, FileCode } from 'lucide-react';
 import { format } from 'date-fns';
 import { es } from 'date-fns/locale';
 import type { DateRange } from 'react-day-picker';
 import html2canvas from 'html2canvas-pro';
+import { DEFAULT_TIME_RANGE, TIME_RANGES, type TimeBounds, type TimeRange } from '@/lib/time-range';
+import { downloadBlob, generateFilename } from '@/lib/export';
+import { chartToSvg, spectrogramToSvg } from '@/lib/svg-export';
+import { NO_INVALID_DOCUMENTS, type InvalidDocuments } from '@/lib/converters';
+import { downsampleMinMax } from '@/lib/downsample';
+import { useElementWidth } from '@/hooks/use-element-width';
+import { useSetChartCursor } from '@/hooks/use-chart-cursor';
+import { findNearestIndex } from '@/lib/time-series';
+import { useSpectrogram, useSpectrum } from '@/hooks/use-spectrum';
+import {
+  SPECTROGRAM_SEGMENT_SIZES,
+  SPECTRUM_AXES,
+  WINDOW_FUNCTIONS,
+  type SpectrumAxis,
+  type WindowFunction
+} from '@/lib/fft';
+import { SpectrogramChart } from './spectrogram-chart';
+import { StatisticsPanel } from './statistics-panel';
+import { DataExport } from './data-export';
+import { ChartCursorLine } from './chart-cursor-line';
+import { SENSOR_SERIES, toChartPoint, type ChartPoint } from '@/lib/sensor-series';
+import type { SensorReading } from '@/types/models/sensor-reading';
 
 // Componente personalizado de tooltip que se adapta al tema
 interface TooltipPayload {
@@ -42,14 +69,17 @@ interface TooltipPayload {
 interface CustomTooltipProps {
   active?: boolean;
   payload?: TooltipPayload[];
-  label?: string;
+  // Instante (ms) en los gráficos temporales; nombre del eje en radar/radial
+  label?: number | string;
 }
 
 const CustomTooltip = ({ active, payload, label }: CustomTooltipProps) => {
   if (active && payload && payload.length) {
     return (
       <div className="bg-background border border-border rounded-lg shadow-lg p-3 dark:bg-gray-800 dark:border-gray-600">
-        <p className="text-foreground font-medium mb-2">{`Tiempo: ${label}`}</p>
+        <p className="text-foreground font-medium mb-2">
+          {`Tiempo: ${typeof label === 'number' ? format(label, 'dd/MM/yyyy HH:mm:ss', { locale: es }) : label ?? ''}`}
+        </p>
         {payload.map((entry, index: number) => (
           <p key={index} className="text-sm" style={{ color: entry.color }}>
             {`${entry.name}: ${entry.value.toFixed(3)}`}
@@ -61,45 +91,125 @@ const CustomTooltip = ({ active, payload, label }: CustomTooltipProps) => {
   return null;
 };
 
-export interface SensorReading {
-  id: string;
-  ts: { toDate?: () => Date } | Date | number; // Firestore Timestamp or Date
-  count: number;
-  last: {
-    accel: { x: number; y: number; z: number };
-    gyro: { x: number; y: number; z: number };
-    ts_local: number;
-  };
-  avg: {
-    accel: { x: number; y: number; z: number };
-    gyro: { x: number; y: number; z: number };
-  };
+interface CombinedTooltipProps {
+  active?: boolean;
+  label?: number;
+  // Serie completa (sin reducir) en la que se busca la lectura más cercana al cursor
+  data: ChartPoint[];
 }
 
+// Tooltip único de los gráficos temporales: muestra ambos sensores en el mismo instante,
+// sin importar sobre qué gráfico está el puntero
+const CombinedTooltip = ({ active, label, data }: CombinedTooltipProps) => {
+  if (!active || label === undefined) return null;
+
+  const index = findNearestIndex(data, label);
+  if (index < 0) return null;
+  const point = data[index];
+
+  return (
+    <div className="bg-background border border-border rounded-lg shadow-lg p-3 dark:bg-gray-800 dark:border-gray-600">
+      <p className="text-foreground font-medium mb-2">
+        {`Tiempo: ${format(point.timestamp, 'dd/MM/yyyy HH:mm:ss', { locale: es })}`}
+      </p>
+      <div className="grid grid-cols-2 gap-4">
+        {SENSOR_SERIES.map(sensor => (
+          <div key={sensor.title}>
+            <p className="text-xs font-medium text-muted-foreground mb-1">{sensor.title} ({sensor.unit})</p>
+            {sensor.values.map(({ key, label: valueLabel, color }) => (
+              <p key={key} className="text-sm" style={{ color }}>
+                {`${valueLabel}: ${point[key].toFixed(3)}`}
+              </p>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// Frecuencias en Hz con 3 cifras significativas (las lecturas son promedios, así que suelen ser < 1 Hz)
+const formatFrequency = (frequency: number) => frequency === 0 ? '0' : Number(frequency.toPrecision(3)).toString();
+
+// Duración de un segmento del espectrograma (los segmentos pueden durar de segundos a horas)
+const formatDuration = (durationMs: number) => {
+  if (durationMs >= 60 * 60 * 1000) return `${(durationMs / (60 * 60 * 1000)).toFixed(1)} h`;
+  if (durationMs >= 60 * 1000) return `${(durationMs / (60 * 1000)).toFixed(1)} min`;
+  return `${(durationMs / 1000).toFixed(1)} s`;
+};
+
+interface SpectrumTooltipProps {
+  active?: boolean;
+  payload?: TooltipPayload[];
+  label?: number;
+}
+
+const SpectrumTooltip = ({ active, payload, label }: SpectrumTooltipProps) => {
+  if (!active || !payload?.length || label === undefined) return null;
+
+  return (
+    <div className="bg-background border border-border rounded-lg shadow-lg p-3 dark:bg-gray-800 dark:border-gray-600">
+      <p className="text-foreground font-medium mb-2">{`Frecuencia: ${formatFrequency(label)} Hz`}</p>
+      {payload.map((entry, index: number) => (
+        <p key={index} className="text-sm" style={{ color: entry.color }}>
+          {`${entry.name}: ${entry.value.toFixed(4)}`}
+        </p>
+      ))}
+    </div>
+  );
+};
+
+// Reducción de puntos: ancho supuesto antes de medir el contenedor, mínimo de puntos y ancho de cada barra
+const DEFAULT_PLOT_WIDTH = 800;
+const MIN_TARGET_POINTS = 100;
+const BAR_WIDTH_PX = 6;
+
+// Márgenes de los gráficos temporales; el área de datos empieza después del eje Y (ancho por defecto 60)
+const CHART_MARGIN = { top: 5, right: 30, left: 20, bottom: 5 };
+const PLOT_OFFSET_LEFT = CHART_MARGIN.left + 60;
+const PLOT_OFFSET_RIGHT = CHART_MARGIN.right;
+
+// Zoom: ventana mínima, factor por paso de la rueda y fracción de la ventana que se desplaza al hacer pan
+const MIN_ZOOM_MS = 10 * 1000;
+const WHEEL_ZOOM_FACTOR = 1.25;
+const PAN_FRACTION = 0.1;
+
+// Formato de las marcas del eje de tiempo según la duración visible
+const formatTimeTick = (timestamp: number, spanMs: number) => {
+  if (spanMs > 24 * 60 * 60 * 1000) return format(timestamp, 'dd/MM HH:mm', { locale: es });
+  if (spanMs > 60 * 60 * 1000) return format(timestamp, 'HH:mm', { locale: es });
+  return format(timestamp, 'HH:mm:ss', { locale: es });
+};
+
+// Cantidad máxima de motivos de lecturas inválidas que se listan en el tooltip
+const MAX_INVALID_REASONS = 10;
+
 interface SensorChartsProps {
   readings: SensorReading[];
+  // Lecturas descartadas por no cumplir el esquema de SensorReading
+  invalid?: InvalidDocuments;
   loading?: boolean;
+  // El rango se controla desde fuera porque define la consulta a Firestore
+  timeRange: TimeRange;
+  dateRange: DateRange | undefined;
+  onTimeRangeChange: (timeRange: TimeRange) => void;
+  onDateRangeChange: (dateRange: DateRange | undefined) => void;
+  // Paginación de lecturas más antiguas dentro del rango
+  totalCount?: number | null;
+  hasMore?: boolean;
+  loadingMore?: boolean;
+  onLoadMore?: () => void;
+  // Modo en vivo (solo rangos relativos): las lecturas nuevas se añaden a los gráficos
+  live?: boolean;
+  livePaused?: boolean;
+  lastUpdate?: Date | null;
+  onLivePausedChange?: (paused: boolean) => void;
+  // Ventana ampliada dentro del rango cargado (arrastrar, rueda o barra de resumen); null = sin zoom
+  zoom?: TimeBounds | null;
+  onZoomChange?: (zoom: TimeBounds | null) => void;
 }
 
-type TimeRange = '30d' | '14d' | '7d' | '5d' | '3d' | '2d' | '24h' | '12h' | '1h' | '30m' | '15m' | '5m' | '1m' | 'range';
-type ChartType = 'lines' | 'area' | 'bars' | 'radar' | 'radial';
-
-const TIME_RANGES = [
-  { value: '30d' as TimeRange, label: '30 días', minutes: 30 * 24 * 60 },
-  { value: '14d' as TimeRange, label: '14 días', minutes: 14 * 24 * 60 },
-  { value: '7d' as TimeRange, label: '7 días', minutes: 7 * 24 * 60 },
-  { value: '5d' as TimeRange, label: '5 días', minutes: 5 * 24 * 60 },
-  { value: '3d' as TimeRange, label: '3 días', minutes: 3 * 24 * 60 },
-  { value: '2d' as TimeRange, label: '2 días', minutes: 2 * 24 * 60 },
-  { value: '24h' as TimeRange, label: '24 horas', minutes: 24 * 60 },
-  { value: '12h' as TimeRange, label: '12 horas', minutes: 12 * 60 },
-  { value: '1h' as TimeRange, label: '1 hora', minutes: 60 },
-  { value: '30m' as TimeRange, label: '30 minutos', minutes: 30 },
-  { value: '15m' as TimeRange, label: '15 minutos', minutes: 15 },
-  { value: '5m' as TimeRange, label: '5 minutos', minutes: 5 },
-  { value: '1m' as TimeRange, label: '1 minuto', minutes: 1 },
-  { value: 'range' as TimeRange, label: 'Rango', minutes: 0 },
-];
+type ChartType = 'lines' | 'area' | 'bars' | 'radar' | 'radial' | 'spectrum' | 'spectrogram';
 
 const CHART_TYPES = [
   { value: 'lines' as ChartType, label: 'Líneas', icon: LineChartIcon },
@@ -107,112 +217,57 @@ const CHART_TYPES = [
   { value: 'bars' as ChartType, label: 'Barras', icon: BarChart3 },
   { value: 'radar' as ChartType, label: 'Radar', icon: RadarIcon },
   { value: 'radial' as ChartType, label: 'Radial', icon: Clock },
+  { value: 'spectrum' as ChartType, label: 'Espectro', icon: Waves },
+  { value: 'spectrogram' as ChartType, label: 'Espectrograma', icon: AudioWaveform },
 ];
 
-export const SensorCharts = ({ readings, loading = false }: SensorChartsProps) => {
-  const [timeRange, setTimeRange] = useState<TimeRange>('5d');
+// Espectrograma: lecturas por segmento de la STFT por defecto
+const DEFAULT_SEGMENT_SIZE = 64;
+
+export const SensorCharts = ({
+  readings,
+  invalid = NO_INVALID_DOCUMENTS,
+  loading = false,
+  timeRange,
+  dateRange,
+  onTimeRangeChange,
+  onDateRangeChange,
+  totalCount = null,
+  hasMore = false,
+  loadingMore = false,
+  onLoadMore,
+  live = false,
+  livePaused = false,
+  lastUpdate = null,
+  onLivePausedChange,
+  zoom = null,
+  onZoomChange,
+}: SensorChartsProps) => {
   const [chartType, setChartType] = useState<ChartType>('lines');
-  const [dateRange, setDateRange] = useState<DateRange | undefined>();
+  const [windowFunction, setWindowFunction] = useState<WindowFunction>('hann');
+  // Serie del espectrograma: índices en SENSOR_SERIES y en sus valores (X, Y, Z o magnitud)
+  const [spectrogramSensor, setSpectrogramSensor] = useState(0);
+  const [spectrogramAxis, setSpectrogramAxis] = useState(0);
+  const [segmentSize, setSegmentSize] = useState(DEFAULT_SEGMENT_SIZE);
   const [isExporting, setIsExporting] = useState(false);
 
   // Referencias para los contenedores de gráficos
   const chartContainerRef = useRef<HTMLDivElement>(null);
   const accelerometerRef = useRef<HTMLDivElement>(null);
   const gyroscopeRef = useRef<HTMLDivElement>(null);
+  const spectrogramRef = useRef<HTMLDivElement>(null);
 
-  // Función auxiliar para convertir timestamps a Date
-  const toDate = (timestamp: { toDate?: () => Date } | Date | number): Date => {
-    if (timestamp && typeof timestamp === 'object' && 'toDate' in timestamp && typeof timestamp.toDate === 'function') {
-      return timestamp.toDate();
-    }
-    if (timestamp instanceof Date) {
-      return timestamp;
-    }
-    if (typeof timestamp === 'number') {
-      return new Date(timestamp);
-    }
-    // Fallback para casos inesperados
-    return new Date();
-  };
-
-  // Filtrar datos por rango de tiempo o fechas personalizadas
+  // Las lecturas ya llegan filtradas por rango desde Firestore; solo se ordenan cronológicamente
   const filteredData = useMemo(() => {
     if (!readings?.length) return [];
 
-    if (timeRange === 'range' && dateRange?.from && dateRange?.to) {
-      // Filtrar por rango de fechas personalizado
-      const startTime = new Date(dateRange.from);
-      startTime.setHours(0, 0, 0, 0); // Inicio del día
-      const endTime = new Date(dateRange.to);
-      endTime.setHours(23, 59, 59, 999); // Final del día
-
-      return readings
-        .filter(reading => {
-          const readingTime = toDate(reading.ts);
-          return readingTime >= startTime && readingTime <= endTime;
-        })
-        .sort((a, b) => {
-          const timeA = toDate(a.ts);
-          const timeB = toDate(b.ts);
-          return timeA.getTime() - timeB.getTime();
-        });
-    } else {
-      // Filtrar por rango de tiempo predefinido
-      const now = new Date();
-      const rangeMinutes = TIME_RANGES.find(r => r.value === timeRange)?.minutes || 60;
-      const cutoffTime = new Date(now.getTime() - rangeMinutes * 60 * 1000);
-
-      return readings
-        .filter(reading => {
-          const readingTime = toDate(reading.ts);
-          return readingTime >= cutoffTime;
-        })
-        .sort((a, b) => {
-          const timeA = toDate(a.ts);
-          const timeB = toDate(b.ts);
-          return timeA.getTime() - timeB.getTime();
-        });
-    }
-  }, [readings, timeRange, dateRange]);
+    return [...readings].sort((a, b) => a.ts.getTime() - b.ts.getTime());
+  }, [readings]);
 
   // Transformar datos para los gráficos
   const chartData = useMemo(() => {
-    return filteredData.map(reading => {
-      const timestamp = toDate(reading.ts);
-      const time = timestamp.toLocaleTimeString('es-ES', {
-        hour: '2-digit',
-        minute: '2-digit',
-        ...(timeRange.includes('m') ? { second: '2-digit' } : {})
-      });
-
-      // Calcular magnitudes
-      const accelMagnitude = Math.sqrt(
-        Math.pow(reading.avg.accel.x, 2) +
-        Math.pow(reading.avg.accel.y, 2) +
-        Math.pow(reading.avg.accel.z, 2)
-      );
-      const gyroMagnitude = Math.sqrt(
-        Math.pow(reading.avg.gyro.x, 2) +
-        Math.pow(reading.avg.gyro.y, 2) +
-        Math.pow(reading.avg.gyro.z, 2)
-      );
-
-      return {
-        time,
-        timestamp: timestamp.getTime(),
-        // Acelerómetro
-        accel_x: reading.avg.accel.x,
-        accel_y: reading.avg.accel.y,
-        accel_z: reading.avg.accel.z,
-        accel_magnitude: accelMagnitude,
-        // Giroscopio
-        gyro_x: reading.avg.gyro.x,
-        gyro_y: reading.avg.gyro.y,
-        gyro_z: reading.avg.gyro.z,
-        gyro_magnitude: gyroMagnitude,
-      };
-    });
-  }, [filteredData, timeRange]);
+    return filteredData.map(toChartPoint);
+  }, [filteredData]);
 
   // Datos para gráfico radar (última lectura)
   const radarData = useMemo(() => {
@@ -235,41 +290,191 @@ export const SensorCharts = ({ readings, loading = false }: SensorChartsProps) =
     ];
   }, [chartData]);
 
-  if (loading) {
-    return (
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Activity className="h-5 w-5" />
-            Datos de Sensores
-          </CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="animate-pulse">
-            <div className="bg-gray-200 rounded h-64 w-full"></div>
-          </div>
-        </CardContent>
-      </Card>
-    );
-  }
+  // Reducción de puntos según el ancho disponible: como máximo un punto por píxel (una barra cada
+  // BAR_WIDTH_PX en el gráfico de barras). Se conservan los mínimos y máximos de cada intervalo.
+  const [plotAreaRef, plotAreaWidth, plotAreaElement] = useElementWidth();
+  const targetPoints = Math.max(
+    MIN_TARGET_POINTS,
+    Math.round((plotAreaWidth || DEFAULT_PLOT_WIDTH) / (chartType === 'bars' ? BAR_WIDTH_PX : 1))
+  );
+
+  // Extensión de los datos cargados y ventana visible (la del zoom, si existe)
+  const dataExtent = useMemo((): TimeBounds | null => {
+    if (!chartData.length) return null;
+    return { from: new Date(chartData[0].timestamp), to: new Date(chartData[chartData.length - 1].timestamp) };
+  }, [chartData]);
+  const view = zoom ?? dataExtent;
+
+  const visibleData = useMemo(() => {
+    if (!zoom) return chartData;
+    const from = zoom.from.getTime();
+    const to = zoom.to.getTime();
+    return chartData.filter(point => point.timestamp >= from && point.timestamp <= to);
+  }, [chartData, zoom]);
+
+  const accelerometerData = useMemo(() => downsampleMinMax(
+    visibleData,
+    targetPoints,
+    chartType === 'area' ? ['accel_magnitude'] : ['accel_x', 'accel_y', 'accel_z']
+  ), [visibleData, targetPoints, chartType]);
+
+  const gyroscopeData = useMemo(() => downsampleMinMax(
+    visibleData,
+    targetPoints,
+    chartType === 'area' ? ['gyro_magnitude'] : ['gyro_x', 'gyro_y', 'gyro_z']
+  ), [visibleData, targetPoints, chartType]);
+
+  // Serie de la barra de resumen: todo el rango cargado, sin zoom
+  const overviewData = useMemo(
+    () => downsampleMinMax(chartData, targetPoints, ['accel_magnitude']).data,
+    [chartData, targetPoints]
+  );
+
+  const decimated = (chartType === 'lines' || chartType === 'area' || chartType === 'bars') && accelerometerData.decimated;
 
-  // Calcular ancho dinámico basado en el número de datos para scroll horizontal
-  const getChartWidth = () => {
-    const dataPoints = chartData.length;
-    const minWidth = 800; // Ancho mínimo para gráficos
-    const maxWidth = 3000; // Ancho máximo para evitar gráficos demasiado anchos
+  // Espectro (FFT) de la ventana visible, calculado en un worker solo con el tipo de gráfico 'spectrum'
+  const { result: spectrum, computing: spectrumComputing, error: spectrumError } = useSpectrum(
+    visibleData,
+    windowFunction,
+    { enabled: chartType === 'spectrum' }
+  );
+
+  const spectrumData = useMemo(() => {
+    if (!spectrum) return [];
+    const points = spectrum.frequencies.map((frequency, index) => ({
+      frequency,
+      ...Object.fromEntries(SPECTRUM_AXES.map(axis => [axis, spectrum.amplitudes[axis][index]])) as Record<SpectrumAxis, number>,
+    }));
+    return downsampleMinMax(points, targetPoints, [...SPECTRUM_AXES]).data;
+  }, [spectrum, targetPoints]);
+
+  // Espectrograma (STFT) de la serie elegida en la ventana visible, también en el worker
+  const spectrogramSeries = SENSOR_SERIES[spectrogramSensor].values[spectrogramAxis];
+  const { result: spectrogram, computing: spectrogramComputing, error: spectrogramError } = useSpectrogram(
+    visibleData,
+    spectrogramSeries.key,
+    windowFunction,
+    { enabled: chartType === 'spectrogram', segmentSize }
+  );
 
-    // Para gráficos de radar y radial, usar ancho fijo
-    if (chartType === 'radar' || chartType === 'radial') {
-      return minWidth;
+  const xDomain: [number, number] | ['dataMin', 'dataMax'] = zoom
+    ? [zoom.from.getTime(), zoom.to.getTime()]
+    : ['dataMin', 'dataMax'];
+  const viewSpan = view ? view.to.getTime() - view.from.getTime() : 0;
+  const formatTick = (timestamp: number) => formatTimeTick(timestamp, viewSpan);
+
+  // Aplica una ventana de zoom ajustada a los datos cargados; si cubre todo el rango se quita el zoom
+  const applyZoom = useCallback((from: number, to: number) => {
+    if (!onZoomChange || !dataExtent) return;
+
+    const extentFrom = dataExtent.from.getTime();
+    const extentTo = dataExtent.to.getTime();
+    const span = Math.max(MIN_ZOOM_MS, to - from);
+
+    if (span >= extentTo - extentFrom) {
+      onZoomChange(null);
+      return;
     }
 
-    // Calcular ancho basado en los puntos de datos (más datos = más ancho)
-    return Math.max(minWidth, Math.min(maxWidth, dataPoints * 8));
+    const clampedFrom = Math.min(Math.max(from, extentFrom), extentTo - span);
+    onZoomChange({ from: new Date(clampedFrom), to: new Date(clampedFrom + span) });
+  }, [onZoomChange, dataExtent]);
+
+  const resetZoom = () => onZoomChange?.(null);
+
+  // Cursor compartido: el instante bajo el puntero se marca en todos los gráficos (y paneles) de la página
+  // El instante se escribe aquí y solo ChartCursorLine lo lee, así que SensorCharts no se renderiza al mover el puntero
+  const setCursorTimestamp = useSetChartCursor();
+
+  // Arrastrar sobre un gráfico selecciona la ventana que se amplía
+  const [selection, setSelection] = useState<{ start: number; end: number } | null>(null);
+
+  const chartInteractionProps = {
+    onMouseDown: (state: { activeLabel?: string } | null) => {
+      const timestamp = Number(state?.activeLabel);
+      if (onZoomChange && Number.isFinite(timestamp)) setSelection({ start: timestamp, end: timestamp });
+    },
+    onMouseMove: (state: { activeLabel?: string } | null) => {
+      const timestamp = Number(state?.activeLabel);
+      if (!Number.isFinite(timestamp)) return;
+
+      setCursorTimestamp(timestamp);
+      if (selection) setSelection({ ...selection, end: timestamp });
+    },
+    onMouseLeave: () => setCursorTimestamp(null),
+    ...(onZoomChange && {
+      onMouseUp: () => {
+        if (selection && selection.start !== selection.end) {
+          applyZoom(Math.min(selection.start, selection.end), Math.max(selection.start, selection.end));
+        }
+        setSelection(null);
+      },
+      onDoubleClick: resetZoom,
+      style: { cursor: 'crosshair', userSelect: 'none' as const },
+    }),
   };
 
-  const chartWidth = getChartWidth();
-  const needsScroll = chartWidth > 800; // Mostrar scroll si el ancho es mayor a 800px
+  const cursorLine = <Customized component={<ChartCursorLine />} />;
+
+  const selectionArea = selection && selection.start !== selection.end ? (
+    <ReferenceArea x1={selection.start} x2={selection.end} fill="#8884d8" fillOpacity={0.2} strokeOpacity={0.3} />
+  ) : null;
+
+  // Ctrl/⌘ + rueda (o pellizco en el trackpad): zoom centrado en el puntero; con Shift (o desplazamiento
+  // horizontal) mueve la ventana. Sin modificador la rueda desplaza la página.
+  // Se registra a mano porque React añade los listeners de wheel como pasivos y no permite preventDefault.
+  useEffect(() => {
+    if (!plotAreaElement || !view || !onZoomChange || chartType === 'radar' || chartType === 'radial' || chartType === 'spectrum' || chartType === 'spectrogram') return;
+
+    const handleWheel = (event: WheelEvent) => {
+      if (!event.ctrlKey && !event.metaKey) return;
+      event.preventDefault();
+
+      const from = view.from.getTime();
+      const span = view.to.getTime() - from;
+      const horizontal = event.shiftKey || Math.abs(event.deltaX) > Math.abs(event.deltaY);
+
+      if (horizontal) {
+        const delta = (event.shiftKey ? event.deltaY : event.deltaX) > 0 ? 1 : -1;
+        applyZoom(from + delta * span * PAN_FRACTION, from + span + delta * span * PAN_FRACTION);
+        return;
+      }
+
+      const rect = plotAreaElement.getBoundingClientRect();
+      const plotWidth = rect.width - PLOT_OFFSET_LEFT - PLOT_OFFSET_RIGHT;
+      const fraction = Math.min(1, Math.max(0, (event.clientX - rect.left - PLOT_OFFSET_LEFT) / plotWidth));
+      const anchor = from + fraction * span;
+      const nextSpan = event.deltaY < 0 ? span / WHEEL_ZOOM_FACTOR : span * WHEEL_ZOOM_FACTOR;
+
+      applyZoom(anchor - fraction * nextSpan, anchor + (1 - fraction) * nextSpan);
+    };
+
+    plotAreaElement.addEventListener('wheel', handleWheel, { passive: false });
+    return () => plotAreaElement.removeEventListener('wheel', handleWheel);
+  }, [plotAreaElement, view, onZoomChange, applyZoom, chartType]);
+
+  // Índices de la barra de resumen que corresponden a la ventana visible
+  const brushIndexes = useMemo(() => {
+    if (!zoom || !overviewData.length) return { startIndex: 0, endIndex: Math.max(0, overviewData.length - 1) };
+
+    const from = zoom.from.getTime();
+    const to = zoom.to.getTime();
+    const startIndex = Math.max(0, overviewData.findIndex(point => point.timestamp >= from));
+    let endIndex = overviewData.length - 1;
+    while (endIndex > startIndex && overviewData[endIndex].timestamp > to) endIndex--;
+    return { startIndex, endIndex };
+  }, [zoom, overviewData]);
+
+  const handleBrushChange = ({ startIndex, endIndex }: { startIndex?: number; endIndex?: number }) => {
+    if (startIndex === undefined || endIndex === undefined) return;
+    if (startIndex === brushIndexes.startIndex && endIndex === brushIndexes.endIndex) return;
+
+    if (startIndex === 0 && endIndex === overviewData.length - 1) {
+      onZoomChange?.(null);
+      return;
+    }
+    applyZoom(overviewData[startIndex].timestamp, overviewData[endIndex].timestamp);
+  };
 
   // Función para exportar un elemento específico como imagen
   const exportElementAsImage = async (element: HTMLElement, filename: string) => {
@@ -340,16 +545,7 @@ export const SensorCharts = ({ readings, loading = false }: SensorChartsProps) =
 
       // Convertir canvas a blob y descargar
       canvas.toBlob((blob) => {
-        if (blob) {
-          const url = URL.createObjectURL(blob);
-          const link = document.createElement('a');
-          link.href = url;
-          link.download = filename;
-          document.body.appendChild(link);
-          link.click();
-          document.body.removeChild(link);
-          URL.revokeObjectURL(url);
-        }
+        if (blob) downloadBlob(blob, filename);
       }, 'image/png');
     } catch (error) {
       console.error('Error al exportar imagen:', error);
@@ -358,39 +554,90 @@ export const SensorCharts = ({ readings, loading = false }: SensorChartsProps) =
     }
   };
 
-  // Función para generar nombre de archivo con timestamp
-  const generateFilename = (type: string) => {
-    const now = new Date();
-    const timestamp = now.toISOString().slice(0, 19).replace(/[:.]/g, '-');
-    const rangeLabel = timeRange === 'range'
-      ? `rango-${dateRange?.from ? format(dateRange.from, 'dd-MM-yyyy', { locale: es }) : 'custom'}`
-      : TIME_RANGES.find(r => r.value === timeRange)?.label.replace(/\s/g, '-') || timeRange;
+  // Nombre de archivo de las imágenes: incluye el tipo de gráfico
+  const imageFilename = (type: string, extension = 'png') =>
+    generateFilename({ type, variant: chartType, timeRange, dateRange, extension });
 
-    return `sensores-${type}-${chartType}-${rangeLabel}-${timestamp}.png`;
+  // Pie de las exportaciones SVG: tipo de gráfico y ventana visible
+  const getSvgCaption = (visible: TimeBounds) => [
+    CHART_TYPES.find(option => option.value === chartType)?.label,
+    `${format(visible.from, 'dd/MM/yyyy HH:mm:ss', { locale: es })} – ${format(visible.to, 'dd/MM/yyyy HH:mm:ss', { locale: es })}${zoom ? ' (zoom)' : ''}`,
+  ].filter(Boolean).join(' · ');
+
+  // Exporta el gráfico de un panel como SVG, con título, rango y leyenda
+  const exportChartAsSvg = (element: HTMLElement | null, type: string, title: string) => {
+    if (!element || !view) return;
+
+    const svg = chartToSvg(element, { title, caption: getSvgCaption(view) });
+    if (!svg) return;
+
+    downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), imageFilename(type, 'svg'));
   };
 
+  // Exporta el espectrograma como SVG: mapa de calor como imagen y ejes y escala de color vectoriales
+  const exportSpectrogramAsSvg = () => {
+    if (!spectrogramRef.current || !spectrogram || !view) return;
+
+    const sensor = SENSOR_SERIES[spectrogramSensor];
+    const svg = spectrogramToSvg(spectrogramRef.current, {
+      title: `${sensor.title} ${spectrogramSeries.label} (dB, ${sensor.unit})`,
+      caption: getSvgCaption(view),
+      spectrogram,
+      domain: [view.from.getTime(), view.to.getTime()],
+      formatTime: formatTick,
+      formatFrequency,
+    });
+    if (!svg) return;
+
+    downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), imageFilename(spectrogramSeries.key, 'svg'));
+  };
+
+  // Lecturas de la ventana visible (la del zoom, si existe) para la exportación de datos
+  const exportableReadings = useMemo(() => {
+    if (!zoom) return filteredData;
+    const from = zoom.from.getTime();
+    const to = zoom.to.getTime();
+    return filteredData.filter(reading => reading.ts.getTime() >= from && reading.ts.getTime() <= to);
+  }, [filteredData, zoom]);
+
   // Exportar todos los gráficos
   const exportAllCharts = () => {
     if (chartContainerRef.current) {
-      exportElementAsImage(chartContainerRef.current, generateFilename('completo'));
+      exportElementAsImage(chartContainerRef.current, imageFilename('completo'));
     }
   };
 
   // Exportar solo el gráfico del acelerómetro
   const exportAccelerometer = () => {
     if (accelerometerRef.current) {
-      exportElementAsImage(accelerometerRef.current, generateFilename('acelerometro'));
+      exportElementAsImage(accelerometerRef.current, imageFilename('acelerometro'));
     }
   };
 
   // Exportar solo el gráfico del giroscopio
   const exportGyroscope = () => {
     if (gyroscopeRef.current) {
-      exportElementAsImage(gyroscopeRef.current, generateFilename('giroscopio'));
+      exportElementAsImage(gyroscopeRef.current, imageFilename('giroscopio'));
+    }
+  };
+
+  // Exportar el espectrograma
+  const exportSpectrogram = () => {
+    if (spectrogramRef.current) {
+      exportElementAsImage(spectrogramRef.current, imageFilename(spectrogramSeries.key));
     }
   };
 
   const renderChart = () => {
+    // Mantener los controles visibles mientras se consulta el nuevo rango
+    if (loading) {
+      return (
+        <div className="animate-pulse">
+          <div className="bg-gray-200 rounded h-64 w-full"></div>
+        </div>
+      );
+    }
+
     if (!chartData.length) {
       return (
         <div className="flex items-center justify-center h-64 text-muted-foreground">
@@ -401,111 +648,168 @@ export const SensorCharts = ({ readings, loading = false }: SensorChartsProps) =
 
     const chartHeight = 350; // Reducido para acomodar dos gráficos
 
+    // Espectro de un sensor: amplitud por frecuencia de sus tres ejes y frecuencias dominantes
+    const renderSpectrumChart = (sensorIndex: number) => {
+      const sensor = SENSOR_SERIES[sensorIndex];
+      const axes = sensor.values.slice(0, 3);
+
+      if (!spectrum) {
+        return spectrumComputing ? (
+          <div className="animate-pulse">
+            <div className="bg-gray-200 rounded h-64 w-full"></div>
+          </div>
+        ) : (
+          <div className="flex items-center justify-center h-64 text-muted-foreground">
+            {spectrumError
+              ? `Error al calcular el espectro: ${spectrumError}`
+              : 'No hay suficientes lecturas en la ventana para calcular el espectro'}
+          </div>
+        );
+      }
+
+      return (
+        <>
+          <div className="w-full" style={{ height: chartHeight }}>
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={spectrumData} margin={CHART_MARGIN}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis
+                  dataKey="frequency"
+                  type="number"
+                  domain={[0, 'dataMax']}
+                  tickFormatter={formatFrequency}
+                  angle={-45}
+                  textAnchor="end"
+                  height={60}
+                />
+                <YAxis />
+                <Tooltip content={<SpectrumTooltip />} />
+                <Legend />
+                {axes.map(axis => (
+                  <Line
+                    key={axis.key}
+                    type="monotone"
+                    dataKey={axis.key}
+                    stroke={axis.color}
+                    name={`${sensor.title} ${axis.label}`}
+                    strokeWidth={2}
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                ))}
+                {axes.map(axis => {
+                  const [peak] = spectrum.peaks[axis.key as SpectrumAxis];
+                  return peak ? (
+                    <ReferenceLine key={axis.key} x={peak.frequency} stroke={axis.color} strokeDasharray="4 2" />
+                  ) : null;
+                })}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+          <div className="flex flex-wrap gap-2 mt-2">
+            {axes.flatMap(axis => spectrum.peaks[axis.key as SpectrumAxis].map((peak, index) => (
+              <Badge key={`${axis.key}-${index}`} variant="outline" className="text-xs" style={{ borderColor: axis.color }}>
+                {axis.label} #{index + 1}: {formatFrequency(peak.frequency)} Hz · {peak.amplitude.toFixed(3)} {sensor.unit}
+              </Badge>
+            )))}
+          </div>
+        </>
+      );
+    };
+
     const renderAccelerometerChart = () => {
       switch (chartType) {
         case 'lines':
           return (
-            <div
-              className={`${needsScroll ? 'overflow-x-auto' : ''} w-full`}
-              style={{
-                minWidth: '100%',
-                ...(needsScroll && {
-                  scrollbarWidth: 'thin',
-                  scrollbarColor: 'rgba(155, 155, 155, 0.5) transparent'
-                })
-              }}
-            >
-              <div style={{ width: chartWidth, height: chartHeight }}>
-                <ResponsiveContainer width="100%" height="100%">
-                  <LineChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
-                    <CartesianGrid strokeDasharray="3 3" />
-                    <XAxis
-                      dataKey="time"
-                      interval={Math.max(0, Math.floor(chartData.length / 10))}
-                      angle={-45}
-                      textAnchor="end"
-                      height={60}
-                    />
-                    <YAxis />
-                    <Tooltip content={<CustomTooltip />} />
-                    <Legend />
-                    <Line type="monotone" dataKey="accel_x" stroke="#8884d8" name="Accel X" strokeWidth={2} dot={false} />
-                    <Line type="monotone" dataKey="accel_y" stroke="#82ca9d" name="Accel Y" strokeWidth={2} dot={false} />
-                    <Line type="monotone" dataKey="accel_z" stroke="#ffc658" name="Accel Z" strokeWidth={2} dot={false} />
-                  </LineChart>
-                </ResponsiveContainer>
-              </div>
+            <div className="w-full" style={{ height: chartHeight }}>
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={accelerometerData.data} margin={CHART_MARGIN} {...chartInteractionProps}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis
+                    dataKey="timestamp"
+                    type="number"
+                    scale="time"
+                    domain={xDomain}
+                    allowDataOverflow
+                    tickFormatter={formatTick}
+                    angle={-45}
+                    textAnchor="end"
+                    height={60}
+                  />
+                  <YAxis />
+                  <Tooltip content={<CombinedTooltip data={visibleData} />} cursor={false} />
+                  <Legend />
+                  <Line type="monotone" dataKey="accel_x" stroke="#8884d8" name="Accel X" strokeWidth={2} dot={false} />
+                  <Line type="monotone" dataKey="accel_y" stroke="#82ca9d" name="Accel Y" strokeWidth={2} dot={false} />
+                  <Line type="monotone" dataKey="accel_z" stroke="#ffc658" name="Accel Z" strokeWidth={2} dot={false} />
+                  {cursorLine}
+                  {selectionArea}
+                </LineChart>
+              </ResponsiveContainer>
             </div>
           );
 
         case 'area':
           return (
-            <div
-              className={`${needsScroll ? 'overflow-x-auto' : ''} w-full`}
-              style={{
-                minWidth: '100%',
-                ...(needsScroll && {
-                  scrollbarWidth: 'thin',
-                  scrollbarColor: 'rgba(155, 155, 155, 0.5) transparent'
-                })
-              }}
-            >
-              <div style={{ width: chartWidth, height: chartHeight }}>
-                <ResponsiveContainer width="100%" height="100%">
-                  <AreaChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
-                    <CartesianGrid strokeDasharray="3 3" />
-                    <XAxis
-                      dataKey="time"
-                      interval={Math.max(0, Math.floor(chartData.length / 10))}
-                      angle={-45}
-                      textAnchor="end"
-                      height={60}
-                    />
-                    <YAxis />
-                    <Tooltip content={<CustomTooltip />} />
-                    <Legend />
-                    <Area type="monotone" dataKey="accel_magnitude" stroke="#8884d8" fill="#8884d8" name="Magnitud Acelerómetro" />
-                  </AreaChart>
-                </ResponsiveContainer>
-              </div>
+            <div className="w-full" style={{ height: chartHeight }}>
+              <ResponsiveContainer width="100%" height="100%">
+                <AreaChart data={accelerometerData.data} margin={CHART_MARGIN} {...chartInteractionProps}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis
+                    dataKey="timestamp"
+                    type="number"
+                    scale="time"
+                    domain={xDomain}
+                    allowDataOverflow
+                    tickFormatter={formatTick}
+                    angle={-45}
+                    textAnchor="end"
+                    height={60}
+                  />
+                  <YAxis />
+                  <Tooltip content={<CombinedTooltip data={visibleData} />} cursor={false} />
+                  <Legend />
+                  <Area type="monotone" dataKey="accel_magnitude" stroke="#8884d8" fill="#8884d8" name="Magnitud Acelerómetro" />
+                  {cursorLine}
+                  {selectionArea}
+                </AreaChart>
+              </ResponsiveContainer>
             </div>
           );
 
         case 'bars':
           return (
-            <div
-              className={`${needsScroll ? 'overflow-x-auto' : ''} w-full`}
-              style={{
-                minWidth: '100%',
-                ...(needsScroll && {
-                  scrollbarWidth: 'thin',
-                  scrollbarColor: 'rgba(155, 155, 155, 0.5) transparent'
-                })
-              }}
-            >
-              <div style={{ width: chartWidth, height: chartHeight }}>
-                <ResponsiveContainer width="100%" height="100%">
-                  <BarChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
-                    <CartesianGrid strokeDasharray="3 3" />
-                    <XAxis
-                      dataKey="time"
-                      interval={Math.max(0, Math.floor(chartData.length / 8))}
-                      angle={-45}
-                      textAnchor="end"
-                      height={60}
-                    />
-                    <YAxis />
-                    <Tooltip content={<CustomTooltip />} />
-                    <Legend />
-                    <Bar dataKey="accel_x" fill="#8884d8" name="Accel X" />
-                    <Bar dataKey="accel_y" fill="#82ca9d" name="Accel Y" />
-                    <Bar dataKey="accel_z" fill="#ffc658" name="Accel Z" />
-                  </BarChart>
-                </ResponsiveContainer>
-              </div>
+            <div className="w-full" style={{ height: chartHeight }}>
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={accelerometerData.data} margin={CHART_MARGIN} {...chartInteractionProps}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis
+                    dataKey="timestamp"
+                    type="number"
+                    scale="time"
+                    domain={xDomain}
+                    allowDataOverflow
+                    tickFormatter={formatTick}
+                    angle={-45}
+                    textAnchor="end"
+                    height={60}
+                  />
+                  <YAxis />
+                  <Tooltip content={<CombinedTooltip data={visibleData} />} cursor={false} />
+                  <Legend />
+                  <Bar dataKey="accel_x" fill="#8884d8" name="Accel X" />
+                  <Bar dataKey="accel_y" fill="#82ca9d" name="Accel Y" />
+                  <Bar dataKey="accel_z" fill="#ffc658" name="Accel Z" />
+                  {cursorLine}
+                  {selectionArea}
+                </BarChart>
+              </ResponsiveContainer>
             </div>
           );
 
+        case 'spectrum':
+          return renderSpectrumChart(0);
+
         default:
           return null;
       }
@@ -515,117 +819,193 @@ export const SensorCharts = ({ readings, loading = false }: SensorChartsProps) =
       switch (chartType) {
         case 'lines':
           return (
-            <div
-              className={`${needsScroll ? 'overflow-x-auto' : ''} w-full`}
-              style={{
-                minWidth: '100%',
-                ...(needsScroll && {
-                  scrollbarWidth: 'thin',
-                  scrollbarColor: 'rgba(155, 155, 155, 0.5) transparent'
-                })
-              }}
-            >
-              <div style={{ width: chartWidth, height: chartHeight }}>
-                <ResponsiveContainer width="100%" height="100%">
-                  <LineChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
-                    <CartesianGrid strokeDasharray="3 3" />
-                    <XAxis
-                      dataKey="time"
-                      interval={Math.max(0, Math.floor(chartData.length / 10))}
-                      angle={-45}
-                      textAnchor="end"
-                      height={60}
-                    />
-                    <YAxis />
-                    <Tooltip content={<CustomTooltip />} />
-                    <Legend />
-                    <Line type="monotone" dataKey="gyro_x" stroke="#ff7300" name="Gyro X" strokeWidth={2} dot={false} />
-                    <Line type="monotone" dataKey="gyro_y" stroke="#00ff00" name="Gyro Y" strokeWidth={2} dot={false} />
-                    <Line type="monotone" dataKey="gyro_z" stroke="#ff0000" name="Gyro Z" strokeWidth={2} dot={false} />
-                  </LineChart>
-                </ResponsiveContainer>
-              </div>
+            <div className="w-full" style={{ height: chartHeight }}>
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={gyroscopeData.data} margin={CHART_MARGIN} {...chartInteractionProps}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis
+                    dataKey="timestamp"
+                    type="number"
+                    scale="time"
+                    domain={xDomain}
+                    allowDataOverflow
+                    tickFormatter={formatTick}
+                    angle={-45}
+                    textAnchor="end"
+                    height={60}
+                  />
+                  <YAxis />
+                  <Tooltip content={<CombinedTooltip data={visibleData} />} cursor={false} />
+                  <Legend />
+                  <Line type="monotone" dataKey="gyro_x" stroke="#ff7300" name="Gyro X" strokeWidth={2} dot={false} />
+                  <Line type="monotone" dataKey="gyro_y" stroke="#00ff00" name="Gyro Y" strokeWidth={2} dot={false} />
+                  <Line type="monotone" dataKey="gyro_z" stroke="#ff0000" name="Gyro Z" strokeWidth={2} dot={false} />
+                  {cursorLine}
+                  {selectionArea}
+                </LineChart>
+              </ResponsiveContainer>
             </div>
           );
 
         case 'area':
           return (
-            <div
-              className={`${needsScroll ? 'overflow-x-auto' : ''} w-full`}
-              style={{
-                minWidth: '100%',
-                ...(needsScroll && {
-                  scrollbarWidth: 'thin',
-                  scrollbarColor: 'rgba(155, 155, 155, 0.5) transparent'
-                })
-              }}
-            >
-              <div style={{ width: chartWidth, height: chartHeight }}>
-                <ResponsiveContainer width="100%" height="100%">
-                  <AreaChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
-                    <CartesianGrid strokeDasharray="3 3" />
-                    <XAxis
-                      dataKey="time"
-                      interval={Math.max(0, Math.floor(chartData.length / 10))}
-                      angle={-45}
-                      textAnchor="end"
-                      height={60}
-                    />
-                    <YAxis />
-                    <Tooltip content={<CustomTooltip />} />
-                    <Legend />
-                    <Area type="monotone" dataKey="gyro_magnitude" stroke="#82ca9d" fill="#82ca9d" name="Magnitud Giroscopio" />
-                  </AreaChart>
-                </ResponsiveContainer>
-              </div>
+            <div className="w-full" style={{ height: chartHeight }}>
+              <ResponsiveContainer width="100%" height="100%">
+                <AreaChart data={gyroscopeData.data} margin={CHART_MARGIN} {...chartInteractionProps}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis
+                    dataKey="timestamp"
+                    type="number"
+                    scale="time"
+                    domain={xDomain}
+                    allowDataOverflow
+                    tickFormatter={formatTick}
+                    angle={-45}
+                    textAnchor="end"
+                    height={60}
+                  />
+                  <YAxis />
+                  <Tooltip content={<CombinedTooltip data={visibleData} />} cursor={false} />
+                  <Legend />
+                  <Area type="monotone" dataKey="gyro_magnitude" stroke="#82ca9d" fill="#82ca9d" name="Magnitud Giroscopio" />
+                  {cursorLine}
+                  {selectionArea}
+                </AreaChart>
+              </ResponsiveContainer>
             </div>
           );
 
         case 'bars':
           return (
-            <div
-              className={`${needsScroll ? 'overflow-x-auto' : ''} w-full`}
-              style={{
-                minWidth: '100%',
-                ...(needsScroll && {
-                  scrollbarWidth: 'thin',
-                  scrollbarColor: 'rgba(155, 155, 155, 0.5) transparent'
-                })
-              }}
-            >
-              <div style={{ width: chartWidth, height: chartHeight }}>
-                <ResponsiveContainer width="100%" height="100%">
-                  <BarChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
-                    <CartesianGrid strokeDasharray="3 3" />
-                    <XAxis
-                      dataKey="time"
-                      interval={Math.max(0, Math.floor(chartData.length / 8))}
-                      angle={-45}
-                      textAnchor="end"
-                      height={60}
-                    />
-                    <YAxis />
-                    <Tooltip content={<CustomTooltip />} />
-                    <Legend />
-                    <Bar dataKey="gyro_x" fill="#ff7300" name="Gyro X" />
-                    <Bar dataKey="gyro_y" fill="#00ff00" name="Gyro Y" />
-                    <Bar dataKey="gyro_z" fill="#ff0000" name="Gyro Z" />
-                  </BarChart>
-                </ResponsiveContainer>
-              </div>
+            <div className="w-full" style={{ height: chartHeight }}>
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={gyroscopeData.data} margin={CHART_MARGIN} {...chartInteractionProps}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis
+                    dataKey="timestamp"
+                    type="number"
+                    scale="time"
+                    domain={xDomain}
+                    allowDataOverflow
+                    tickFormatter={formatTick}
+                    angle={-45}
+                    textAnchor="end"
+                    height={60}
+                  />
+                  <YAxis />
+                  <Tooltip content={<CombinedTooltip data={visibleData} />} cursor={false} />
+                  <Legend />
+                  <Bar dataKey="gyro_x" fill="#ff7300" name="Gyro X" />
+                  <Bar dataKey="gyro_y" fill="#00ff00" name="Gyro Y" />
+                  <Bar dataKey="gyro_z" fill="#ff0000" name="Gyro Z" />
+                  {cursorLine}
+                  {selectionArea}
+                </BarChart>
+              </ResponsiveContainer>
             </div>
           );
 
+        case 'spectrum':
+          return renderSpectrumChart(1);
+
         default:
           return null;
       }
     };
 
+    // Barra de resumen de todo el rango cargado: arrastrar sus extremos ajusta el zoom
+    const overviewStrip = onZoomChange && overviewData.length > 1 ? (
+      <div className="w-full" style={{ height: 60 }}>
+        <ResponsiveContainer width="100%" height="100%">
+          <AreaChart data={overviewData} margin={{ ...CHART_MARGIN, left: PLOT_OFFSET_LEFT }}>
+            <XAxis dataKey="timestamp" hide />
+            <Brush
+              dataKey="timestamp"
+              height={50}
+              stroke="#8884d8"
+              startIndex={brushIndexes.startIndex}
+              endIndex={brushIndexes.endIndex}
+              tickFormatter={(timestamp: number) => formatTimeTick(timestamp, viewSpan)}
+              onChange={handleBrushChange}
+            >
+              <AreaChart data={overviewData}>
+                <Area type="monotone" dataKey="accel_magnitude" stroke="#8884d8" fill="#8884d8" fillOpacity={0.3} dot={false} />
+              </AreaChart>
+            </Brush>
+          </AreaChart>
+        </ResponsiveContainer>
+      </div>
+    ) : null;
+
+    // Espectrograma de la serie elegida, en un solo panel
+    if (chartType === 'spectrogram') {
+      const sensor = SENSOR_SERIES[spectrogramSensor];
+
+      return (
+        <div className="space-y-6">
+          <div ref={spectrogramRef}>
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 mb-3">
+              <h3 className="text-lg font-semibold flex items-center gap-2">
+                <AudioWaveform className={`h-5 w-5 ${spectrogramSensor === 0 ? 'text-blue-600' : 'text-green-600'}`} />
+                <span>{sensor.title} {spectrogramSeries.label}</span>
+                <Badge variant="outline" className="text-xs">
+                  dB ({sensor.unit})
+                </Badge>
+              </h3>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={exportSpectrogramAsSvg}
+                  disabled={!spectrogram}
+                  className="flex items-center gap-1 w-fit shrink-0"
+                >
+                  <FileCode className="h-4 w-4" />
+                  SVG
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={exportSpectrogram}
+                  disabled={isExporting}
+                  className="flex items-center gap-1 w-fit shrink-0"
+                >
+                  <Camera className="h-4 w-4" />
+                  <span className="hidden sm:inline">Exportar</span>
+                  <span className="sm:hidden text-xs">Export</span>
+                </Button>
+              </div>
+            </div>
+            {spectrogram && view ? (
+              <SpectrogramChart
+                spectrogram={spectrogram}
+                domain={[view.from.getTime(), view.to.getTime()]}
+                height={chartHeight + 50}
+                formatTime={formatTick}
+                formatFrequency={formatFrequency}
+              />
+            ) : spectrogramComputing ? (
+              <div className="animate-pulse">
+                <div className="bg-gray-200 rounded h-64 w-full"></div>
+              </div>
+            ) : (
+              <div className="flex items-center justify-center h-64 text-muted-foreground">
+                {spectrogramError
+                  ? `Error al calcular el espectrograma: ${spectrogramError}`
+                  : `Se necesitan al menos ${segmentSize} lecturas en la ventana para calcular el espectrograma`}
+              </div>
+            )}
+          </div>
+          {overviewStrip}
+        </div>
+      );
+    }
+
     // Para gráficos de radar y radial, mantener el comportamiento original con ambos sensores
     if (chartType === 'radar') {
       return (
-        <div ref={chartContainerRef} className="w-full flex justify-center">
-          <div style={{ width: Math.min(chartWidth, 600), height: 400 }}>
+        <div className="w-full flex justify-center">
+          <div style={{ width: 600, maxWidth: '100%', height: 400 }}>
             <ResponsiveContainer width="100%" height="100%">
               <RadarChart data={radarData}>
                 <PolarGrid />
@@ -644,8 +1024,8 @@ export const SensorCharts = ({ readings, loading = false }: SensorChartsProps) =
 
     if (chartType === 'radial') {
       return (
-        <div ref={chartContainerRef} className="w-full flex justify-center">
-          <div style={{ width: Math.min(chartWidth, 600), height: 400 }}>
+        <div className="w-full flex justify-center">
+          <div style={{ width: 600, maxWidth: '100%', height: 400 }}>
             <ResponsiveContainer width="100%" height="100%">
               <RadialBarChart cx="50%" cy="50%" innerRadius="20%" outerRadius="90%" data={radialData}>
                 <RadialBar dataKey="value" cornerRadius={10} fill="#8884d8" />
@@ -660,7 +1040,7 @@ export const SensorCharts = ({ readings, loading = false }: SensorChartsProps) =
 
     // Para gráficos de líneas, área y barras, mostrar dos gráficos separados
     return (
-      <div ref={chartContainerRef} className="space-y-6">
+      <div className="space-y-6">
         {/* Gráfico del Acelerómetro */}
         <div ref={accelerometerRef}>
           <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 mb-3">
@@ -671,17 +1051,28 @@ export const SensorCharts = ({ readings, loading = false }: SensorChartsProps) =
                 m/s²
               </Badge>
             </h3>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={exportAccelerometer}
-              disabled={isExporting}
-              className="flex items-center gap-1 w-fit shrink-0"
-            >
-              <Camera className="h-4 w-4" />
-              <span className="hidden sm:inline">Exportar</span>
-              <span className="sm:hidden text-xs">Export</span>
-            </Button>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => exportChartAsSvg(accelerometerRef.current, 'acelerometro', 'Acelerómetro (m/s²)')}
+                className="flex items-center gap-1 w-fit shrink-0"
+              >
+                <FileCode className="h-4 w-4" />
+                SVG
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={exportAccelerometer}
+                disabled={isExporting}
+                className="flex items-center gap-1 w-fit shrink-0"
+              >
+                <Camera className="h-4 w-4" />
+                <span className="hidden sm:inline">Exportar</span>
+                <span className="sm:hidden text-xs">Export</span>
+              </Button>
+            </div>
           </div>
           {renderAccelerometerChart()}
         </div>
@@ -696,35 +1087,48 @@ export const SensorCharts = ({ readings, loading = false }: SensorChartsProps) =
                 rad/s
               </Badge>
             </h3>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={exportGyroscope}
-              disabled={isExporting}
-              className="flex items-center gap-1 w-fit shrink-0"
-            >
-              <Camera className="h-4 w-4" />
-              <span className="hidden sm:inline">Exportar</span>
-              <span className="sm:hidden text-xs">Export</span>
-            </Button>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => exportChartAsSvg(gyroscopeRef.current, 'giroscopio', 'Giroscopio (rad/s)')}
+                className="flex items-center gap-1 w-fit shrink-0"
+              >
+                <FileCode className="h-4 w-4" />
+                SVG
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={exportGyroscope}
+                disabled={isExporting}
+                className="flex items-center gap-1 w-fit shrink-0"
+              >
+                <Camera className="h-4 w-4" />
+                <span className="hidden sm:inline">Exportar</span>
+                <span className="sm:hidden text-xs">Export</span>
+              </Button>
+            </div>
           </div>
           {renderGyroscopeChart()}
         </div>
+
+        {overviewStrip}
       </div>
     );
   };
 
   // Función para limpiar el rango de fechas
   const clearDateRange = () => {
-    setDateRange(undefined);
-    setTimeRange('5d'); // Volver al rango por defecto
+    onDateRangeChange(undefined);
+    onTimeRangeChange(DEFAULT_TIME_RANGE); // Volver al rango por defecto
   };
 
   // Manejar el cambio de rango de tiempo
   const handleTimeRangeChange = (value: TimeRange) => {
-    setTimeRange(value);
+    onTimeRangeChange(value);
     if (value !== 'range') {
-      setDateRange(undefined); // Limpiar el rango de fechas si no es "range"
+      onDateRangeChange(undefined); // Limpiar el rango de fechas si no es "range"
     }
   };
 
@@ -741,6 +1145,10 @@ export const SensorCharts = ({ readings, loading = false }: SensorChartsProps) =
         return 'Se muestra un snapshot instantáneo de los valores absolutos de la última lectura disponible. Permite visualizar todos los ejes X, Y, Z de ambos sensores simultáneamente en un formato polar, útil para entender la orientación y patrones de movimiento actuales de forma comparativa.';
       case 'radial':
         return 'Se visualiza la intensidad actual mediante las magnitudes normalizadas de aceleración y giroscopio. Este gráfico es ideal para monitorear el nivel general de actividad del dispositivo de forma rápida y visual, comparando ambos sensores en un solo vistazo.';
+      case 'spectrum':
+        return 'Se muestra el espectro de amplitud (FFT) de cada eje en la ventana visible: las lecturas se remuestrean a intervalos uniformes y se les aplica la ventana seleccionada. Las líneas discontinuas y las etiquetas indican las frecuencias dominantes; un cambio en ellas puede indicar que el perno se está aflojando. Usa el zoom para elegir la ventana analizada.';
+      case 'spectrogram':
+        return 'Se muestra la evolución del espectro en el tiempo (STFT) para el sensor y eje seleccionados: cada columna es el espectro de un segmento de lecturas, solapado al 50% con el siguiente, y el color indica la amplitud en dB. Un desplazamiento gradual de la banda más intensa a lo largo de los días indica un cambio en la resonancia, típico de un perno que pierde precarga.';
       default:
         return '';
     }
@@ -757,31 +1165,104 @@ export const SensorCharts = ({ readings, loading = false }: SensorChartsProps) =
               Datos de Sensores
             </CardTitle>
 
-            {/* Botón de exportar - siempre visible */}
-            <Button
-              variant="default"
-              size="sm"
-              onClick={exportAllCharts}
-              disabled={isExporting || !chartData.length}
-              className="flex items-center gap-1 shrink-0"
-            >
-              <Download className="h-4 w-4" />
-              <span className="hidden sm:inline">{isExporting ? 'Exportando...' : 'Exportar Todo'}</span>
-              <span className="sm:hidden">{isExporting ? '...' : 'Exportar'}</span>
-            </Button>
+            {/* Botones de exportar - siempre visibles */}
+            <div className="flex items-center gap-2">
+              <DataExport
+                readings={exportableReadings}
+                getFilename={(type, extension) => generateFilename({ type, timeRange, dateRange, extension })}
+              />
+              <Button
+                variant="default"
+                size="sm"
+                onClick={exportAllCharts}
+                disabled={isExporting || !chartData.length}
+                className="flex items-center gap-1 shrink-0"
+              >
+                <Download className="h-4 w-4" />
+                <span className="hidden sm:inline">{isExporting ? 'Exportando...' : 'Exportar Todo'}</span>
+                <span className="sm:hidden">{isExporting ? '...' : 'Exportar'}</span>
+              </Button>
+            </div>
           </div>
 
           {/* Badges informativos */}
           <div className="flex flex-wrap items-center gap-2">
+            {live && (
+              <>
+                <Badge variant={livePaused ? 'secondary' : 'default'} className="flex items-center gap-1 text-xs">
+                  <span className={`h-2 w-2 rounded-full ${livePaused ? 'bg-yellow-500' : 'bg-green-500 animate-pulse'}`} />
+                  {livePaused ? 'En pausa' : 'En vivo'}
+                </Badge>
+                {onLivePausedChange && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onLivePausedChange(!livePaused)}
+                    className="h-6 px-2 text-xs"
+                  >
+                    {livePaused ? <Play className="h-3 w-3" /> : <Pause className="h-3 w-3" />}
+                    {livePaused ? 'Reanudar' : 'Pausar'}
+                  </Button>
+                )}
+                {lastUpdate && (
+                  <span className="text-xs text-muted-foreground">
+                    Última actualización: {format(lastUpdate, 'HH:mm:ss', { locale: es })}
+                  </span>
+                )}
+              </>
+            )}
             <Badge variant="outline" className="text-xs">
-              {filteredData.length} lecturas
+              {totalCount !== null && totalCount > filteredData.length
+                ? `${filteredData.length} de ${totalCount} lecturas`
+                : `${filteredData.length} lecturas`}
             </Badge>
-            {needsScroll && (
-              <Badge variant="secondary" className="flex items-center gap-1 text-xs">
-                <ZoomIn className="h-3 w-3" />
-                <span className="hidden sm:inline">Scrolleable</span>
-                <span className="sm:hidden">Scroll</span>
-              </Badge>
+            {invalid.count > 0 && (
+              <UITooltip>
+                <TooltipTrigger asChild>
+                  <Badge variant="destructive" className="flex items-center gap-1 text-xs cursor-help">
+                    <AlertTriangle className="h-3 w-3" />
+                    {invalid.count} {invalid.count === 1 ? 'lectura inválida' : 'lecturas inválidas'}
+                  </Badge>
+                </TooltipTrigger>
+                <TooltipContent className="max-w-sm">
+                  <ul className="space-y-1">
+                    {invalid.reasons.slice(0, MAX_INVALID_REASONS).map(({ id, reason }) => (
+                      <li key={id}>
+                        <span className="font-mono">{id}</span>: {reason}
+                      </li>
+                    ))}
+                    {invalid.count > MAX_INVALID_REASONS && (
+                      <li>y {invalid.count - MAX_INVALID_REASONS} más...</li>
+                    )}
+                  </ul>
+                </TooltipContent>
+              </UITooltip>
+            )}
+            {hasMore && onLoadMore && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={onLoadMore}
+                disabled={loadingMore}
+                className="h-6 px-2 text-xs"
+              >
+                <History className="h-3 w-3" />
+                {loadingMore ? 'Cargando...' : 'Cargar lecturas anteriores'}
+              </Button>
+            )}
+            {decimated && (
+              <UITooltip>
+                <TooltipTrigger asChild>
+                  <Badge variant="secondary" className="flex items-center gap-1 text-xs cursor-help">
+                    <Layers className="h-3 w-3" />
+                    {accelerometerData.data.length} de {accelerometerData.originalCount} puntos
+                  </Badge>
+                </TooltipTrigger>
+                <TooltipContent className="max-w-xs">
+                  Hay más lecturas que píxeles disponibles: se dibujan el mínimo y el máximo de cada intervalo,
+                  por lo que los picos se conservan.
+                </TooltipContent>
+              </UITooltip>
             )}
           </div>
         </div>
@@ -791,8 +1272,11 @@ export const SensorCharts = ({ readings, loading = false }: SensorChartsProps) =
           <div className="flex items-center gap-2">
             <Clock className="h-4 w-4 shrink-0" />
             <Select value={timeRange} onValueChange={handleTimeRangeChange}>
-              <SelectTrigger className="w-full sm:w-32">
-                <SelectValue />
+              <SelectTrigger className={zoom ? 'w-full sm:w-auto' : 'w-full sm:w-32'}>
+                {/* Con zoom, el selector muestra la ventana ampliada */}
+                <SelectValue>
+                  {zoom ? `${format(zoom.from, 'dd/MM HH:mm:ss', { locale: es })} – ${format(zoom.to, 'dd/MM HH:mm:ss', { locale: es })}` : undefined}
+                </SelectValue>
               </SelectTrigger>
               <SelectContent>
                 {TIME_RANGES.map(range => (
@@ -802,6 +1286,12 @@ export const SensorCharts = ({ readings, loading = false }: SensorChartsProps) =
                 ))}
               </SelectContent>
             </Select>
+            {zoom && (
+              <Button variant="outline" size="sm" onClick={resetZoom} className="shrink-0">
+                <ZoomOut className="h-4 w-4" />
+                Restablecer zoom
+              </Button>
+            )}
           </div>
 
           <div className="flex items-center gap-2">
@@ -826,6 +1316,78 @@ export const SensorCharts = ({ readings, loading = false }: SensorChartsProps) =
             </Select>
           </div>
 
+          {/* Serie y tamaño de segmento del espectrograma */}
+          {chartType === 'spectrogram' && (
+            <div className="flex items-center gap-2">
+              <AudioWaveform className="h-4 w-4 shrink-0" />
+              <Select value={String(spectrogramSensor)} onValueChange={value => setSpectrogramSensor(Number(value))}>
+                <SelectTrigger className="w-full sm:w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SENSOR_SERIES.map((sensor, index) => (
+                    <SelectItem key={sensor.title} value={String(index)}>
+                      {sensor.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={String(spectrogramAxis)} onValueChange={value => setSpectrogramAxis(Number(value))}>
+                <SelectTrigger className="w-full sm:w-24">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SENSOR_SERIES[spectrogramSensor].values.map((series, index) => (
+                    <SelectItem key={series.key} value={String(index)}>
+                      {series.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={String(segmentSize)} onValueChange={value => setSegmentSize(Number(value))}>
+                <SelectTrigger className="w-full sm:w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SPECTROGRAM_SEGMENT_SIZES.map(size => (
+                    <SelectItem key={size} value={String(size)}>
+                      Segmento de {size}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {/* Ventana de la FFT - solo visible con el espectro y el espectrograma */}
+          {(chartType === 'spectrum' || chartType === 'spectrogram') && (
+            <div className="flex items-center gap-2">
+              <Waves className="h-4 w-4 shrink-0" />
+              <Select value={windowFunction} onValueChange={(value: WindowFunction) => setWindowFunction(value)}>
+                <SelectTrigger className="w-full sm:w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WINDOW_FUNCTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      Ventana {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {chartType === 'spectrum' && spectrum && (
+                <span className="text-xs text-muted-foreground whitespace-nowrap">
+                  fs = {formatFrequency(spectrum.sampleRateHz)} Hz · Δf = {formatFrequency(spectrum.resolutionHz)} Hz
+                </span>
+              )}
+              {chartType === 'spectrogram' && spectrogram && (
+                <span className="text-xs text-muted-foreground whitespace-nowrap">
+                  fs = {formatFrequency(spectrogram.sampleRateHz)} Hz · segmento = {formatDuration(spectrogram.segmentDurationMs)}
+                </span>
+              )}
+            </div>
+          )}
+
           {/* Selector de rango de fechas - solo visible cuando timeRange es 'range' */}
           {timeRange === 'range' && (
             <div className="flex flex-col sm:flex-row items-start sm:items-center gap-2">
@@ -854,7 +1416,7 @@ export const SensorCharts = ({ readings, loading = false }: SensorChartsProps) =
                       mode="range"
                       defaultMonth={dateRange?.from}
                       selected={dateRange}
-                      onSelect={setDateRange}
+                      onSelect={onDateRangeChange}
                       numberOfMonths={2}
                       locale={es}
                     />
@@ -884,19 +1446,31 @@ export const SensorCharts = ({ readings, loading = false }: SensorChartsProps) =
           <p className="text-sm text-muted-foreground leading-relaxed">
             <span className="font-medium text-foreground">Información:</span> {getChartDescription(chartType)}
           </p>
-          {needsScroll && (
+          {chartData.length > 0 && onZoomChange && chartType !== 'radar' && chartType !== 'radial' && (
             <p className="text-xs text-muted-foreground mt-2">
-              💡 <span className="font-medium">Tip:</span> Desliza horizontalmente para ver todos los datos en dispositivos móviles.
+              🔍 <span className="font-medium">Zoom:</span> Arrastra sobre un gráfico o usa Ctrl/⌘ + rueda del ratón para ampliar (con Shift para desplazarte), ajusta la barra de resumen o haz doble clic para restablecer.
             </p>
           )}
           {chartData.length > 0 && (
             <p className="text-xs text-muted-foreground mt-2">
-              📸 <span className="font-medium">Exportación:</span> Usa el botón "Exportar Todo" para descargar todos los gráficos, o los botones individuales de cada sensor.
+              📸 <span className="font-medium">Exportación:</span> Usa el botón "Exportar Todo" para descargar todos los gráficos junto con las estadísticas, o los botones individuales de cada sensor.
             </p>
           )}
         </div>
 
-        {renderChart()}
+        {/* Contenedor exportado con "Exportar Todo": gráficos y estadísticas */}
+        <div ref={chartContainerRef} className="space-y-6">
+          <div ref={plotAreaRef}>
+            {renderChart()}
+          </div>
+          {!loading && view && (
+            <StatisticsPanel
+              data={visibleData}
+              groups={SENSOR_SERIES}
+              subtitle={`${format(view.from, 'dd/MM/yyyy HH:mm:ss', { locale: es })} – ${format(view.to, 'dd/MM/yyyy HH:mm:ss', { locale: es })}${zoom ? ' (zoom)' : ''}`}
+            />
+          )}
+        </div>
       </CardContent>
     </Card>
   );
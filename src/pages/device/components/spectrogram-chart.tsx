@@ -0,0 +1,178 @@
+import { useEffect, useMemo, useRef, useState, type MouseEvent } from 'react';
+import { useElementWidth } from '@/hooks/use-element-width';
+import { useChartCursorTimestamp, useSetChartCursor } from '@/hooks/use-chart-cursor';
+import type { SpectrogramResult } from '@/lib/fft';
+import {
+  COLOR_SCALE_WIDTH,
+  SPECTROGRAM_MARGIN as MARGIN,
+  TICK_COUNT,
+  colorAt,
+  createHeatmap,
+  getHeatmapBounds,
+} from '@/lib/spectrogram-render';
+
+interface HoverInfo {
+  x: number;
+  y: number;
+  time: number;
+  frequency: number;
+  db: number;
+}
+
+interface SpectrogramChartProps {
+  spectrogram: SpectrogramResult;
+  // Ventana de tiempo (ms) del eje horizontal, la misma que la de los gráficos temporales
+  domain: [number, number];
+  height: number;
+  formatTime: (timestamp: number) => string;
+  formatFrequency: (frequency: number) => string;
+}
+
+// Espectrograma dibujado en un canvas: tiempo en horizontal, frecuencia en vertical y amplitud (dB) en color.
+// Participa del cursor compartido de los gráficos de la página.
+export const SpectrogramChart = ({ spectrogram, domain, height, formatTime, formatFrequency }: SpectrogramChartProps) => {
+  const [containerRef, width] = useElementWidth();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [hover, setHover] = useState<HoverInfo | null>(null);
+  const cursorTimestamp = useChartCursorTimestamp();
+  const setCursorTimestamp = useSetChartCursor();
+
+  const { times, frequencies, magnitudes, minDb, maxDb, segmentDurationMs } = spectrogram;
+  const hopMs = times.length > 1 ? times[1] - times[0] : segmentDurationMs;
+  const maxFrequency = frequencies[frequencies.length - 1];
+
+  const heatmap = useMemo(() => createHeatmap(spectrogram), [spectrogram]);
+
+  const plotWidth = Math.max(0, width - MARGIN.left - MARGIN.right);
+  const plotHeight = Math.max(0, height - MARGIN.top - MARGIN.bottom);
+  const [domainFrom, domainTo] = domain;
+  const domainSpan = domainTo - domainFrom || 1;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || !width) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = Math.round(width * ratio);
+    canvas.height = Math.round(height * ratio);
+    context.setTransform(ratio, 0, 0, ratio, 0, 0);
+    context.clearRect(0, 0, width, height);
+
+    // Los textos usan el color del tema (clase del canvas)
+    const textColor = getComputedStyle(canvas).color;
+    context.font = '12px sans-serif';
+    context.fillStyle = textColor;
+    context.strokeStyle = textColor;
+
+    // Mapa de calor, recortado al área de datos
+    const { left, right } = getHeatmapBounds(spectrogram, [domainFrom, domainTo], plotWidth);
+    context.save();
+    context.beginPath();
+    context.rect(MARGIN.left, MARGIN.top, plotWidth, plotHeight);
+    context.clip();
+    context.imageSmoothingEnabled = false;
+    context.drawImage(heatmap, MARGIN.left + left, MARGIN.top, right - left, plotHeight);
+
+    if (cursorTimestamp !== null) {
+      const x = MARGIN.left + ((cursorTimestamp - domainFrom) / domainSpan) * plotWidth;
+      context.setLineDash([4, 2]);
+      context.strokeStyle = '#ffffff';
+      context.beginPath();
+      context.moveTo(x, MARGIN.top);
+      context.lineTo(x, MARGIN.top + plotHeight);
+      context.stroke();
+    }
+    context.restore();
+
+    context.strokeRect(MARGIN.left, MARGIN.top, plotWidth, plotHeight);
+
+    // Eje de tiempo
+    context.textAlign = 'center';
+    context.textBaseline = 'top';
+    for (let i = 0; i < TICK_COUNT; i++) {
+      const time = domainFrom + (i / (TICK_COUNT - 1)) * domainSpan;
+      const x = MARGIN.left + (i / (TICK_COUNT - 1)) * plotWidth;
+      context.fillText(formatTime(time), x, MARGIN.top + plotHeight + 6);
+    }
+
+    // Eje de frecuencias
+    context.textAlign = 'right';
+    context.textBaseline = 'middle';
+    for (let i = 0; i < TICK_COUNT; i++) {
+      const frequency = (i / (TICK_COUNT - 1)) * maxFrequency;
+      const y = MARGIN.top + plotHeight - (i / (TICK_COUNT - 1)) * plotHeight;
+      context.fillText(formatFrequency(frequency), MARGIN.left - 6, y);
+    }
+    context.save();
+    context.translate(14, MARGIN.top + plotHeight / 2);
+    context.rotate(-Math.PI / 2);
+    context.textAlign = 'center';
+    context.fillText('Frecuencia (Hz)', 0, 0);
+    context.restore();
+
+    // Escala de color (dB)
+    const scaleX = MARGIN.left + plotWidth + 12;
+    for (let y = 0; y < plotHeight; y++) {
+      const [r, g, b] = colorAt(1 - y / plotHeight);
+      context.fillStyle = `rgb(${r}, ${g}, ${b})`;
+      context.fillRect(scaleX, MARGIN.top + y, COLOR_SCALE_WIDTH, 1);
+    }
+    context.fillStyle = textColor;
+    context.textAlign = 'left';
+    context.fillText(`${maxDb.toFixed(0)} dB`, scaleX + COLOR_SCALE_WIDTH + 4, MARGIN.top + 6);
+    context.fillText(`${minDb.toFixed(0)} dB`, scaleX + COLOR_SCALE_WIDTH + 4, MARGIN.top + plotHeight - 6);
+  }, [
+    width, height, heatmap, spectrogram, domainFrom, domainTo, domainSpan, plotWidth, plotHeight,
+    maxFrequency, minDb, maxDb, cursorTimestamp, formatTime, formatFrequency
+  ]);
+
+  const handleMouseLeave = () => {
+    setHover(null);
+    setCursorTimestamp(null);
+  };
+
+  const handleMouseMove = (event: MouseEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = event.clientX - rect.left;
+    const y = event.clientY - rect.top;
+    const insidePlot = x >= MARGIN.left && x <= MARGIN.left + plotWidth && y >= MARGIN.top && y <= MARGIN.top + plotHeight;
+    if (!insidePlot) {
+      handleMouseLeave();
+      return;
+    }
+
+    const time = domainFrom + ((x - MARGIN.left) / plotWidth) * domainSpan;
+    const segment = Math.round((time - times[0]) / hopMs);
+    const bin = Math.round((1 - (y - MARGIN.top) / plotHeight) * (frequencies.length - 1));
+    setCursorTimestamp(time);
+
+    if (segment < 0 || segment >= magnitudes.length) {
+      setHover(null);
+      return;
+    }
+    setHover({ x, y, time: times[segment], frequency: frequencies[bin], db: magnitudes[segment][bin] });
+  };
+
+  return (
+    <div ref={containerRef} className="relative w-full" style={{ height }}>
+      <canvas
+        ref={canvasRef}
+        className="text-muted-foreground"
+        style={{ width: '100%', height }}
+        onMouseMove={handleMouseMove}
+        onMouseLeave={handleMouseLeave}
+      />
+      {hover && (
+        <div
+          className="absolute pointer-events-none bg-background border border-border rounded-lg shadow-lg p-2 text-xs dark:bg-gray-800 dark:border-gray-600"
+          style={{ left: Math.min(hover.x + 12, width - 180), top: Math.max(0, hover.y - 60) }}
+        >
+          <p className="text-foreground font-medium">{formatTime(hover.time)}</p>
+          <p>{`Frecuencia: ${formatFrequency(hover.frequency)} Hz`}</p>
+          <p>{`Amplitud: ${hover.db.toFixed(1)} dB`}</p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import { useMemo } from 'react';
+import { Sigma } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { computeStatistics, type SeriesStatistics } from '@/lib/statistics';
+
+interface StatisticsSeries<T> {
+  key: keyof T;
+  label: string;
+  color: string;
+}
+
+interface StatisticsGroup<T> {
+  title: string;
+  unit: string;
+  values: StatisticsSeries<T>[];
+}
+
+interface StatisticsPanelProps<T> {
+  data: T[];
+  // Una tabla por grupo (sensor), con una fila por serie (eje o magnitud)
+  groups: StatisticsGroup<T>[];
+  // Descripción de la ventana analizada (rango o zoom)
+  subtitle?: string;
+}
+
+const formatValue = (value: number | null, digits = 3) => value === null ? '—' : value.toFixed(digits);
+
+const COLUMNS: { label: string; title: string; value: (statistics: SeriesStatistics) => string }[] = [
+  { label: 'Mín', title: 'Mínimo', value: statistics => formatValue(statistics.min) },
+  { label: 'Máx', title: 'Máximo', value: statistics => formatValue(statistics.max) },
+  { label: 'Media', title: 'Media', value: statistics => formatValue(statistics.mean) },
+  { label: 'σ', title: 'Desviación típica', value: statistics => formatValue(statistics.stdDev) },
+  { label: 'RMS', title: 'Valor eficaz', value: statistics => formatValue(statistics.rms) },
+  { label: 'Pico-pico', title: 'Máximo - mínimo', value: statistics => formatValue(statistics.peakToPeak) },
+  { label: 'Cresta', title: 'Factor de cresta (pico / RMS)', value: statistics => formatValue(statistics.crestFactor, 2) },
+  { label: 'Curtosis', title: 'Curtosis (3 en una señal gaussiana)', value: statistics => formatValue(statistics.kurtosis, 2) },
+];
+
+// Estadísticos de cada serie de las lecturas visibles
+export const StatisticsPanel = <T,>({ data, groups, subtitle }: StatisticsPanelProps<T>) => {
+  const statistics = useMemo(() => groups.map(group => group.values.map(
+    series => computeStatistics(data.map(point => point[series.key] as number))
+  )), [data, groups]);
+
+  if (!data.length) return null;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <Sigma className="h-5 w-5" />
+          <span>Estadísticas</span>
+        </h3>
+        <Badge variant="outline" className="text-xs">
+          {data.length} lecturas
+        </Badge>
+        {subtitle && <span className="text-xs text-muted-foreground">{subtitle}</span>}
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+        {groups.map((group, groupIndex) => (
+          <div key={group.title} className="overflow-x-auto">
+            <p className="text-sm font-medium mb-1">
+              {group.title} <span className="text-muted-foreground">({group.unit})</span>
+            </p>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground border-b">
+                  <th className="py-1 pr-3 font-medium">Eje</th>
+                  {COLUMNS.map(column => (
+                    <th key={column.label} title={column.title} className="py-1 pr-3 font-medium text-right whitespace-nowrap">
+                      {column.label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {group.values.map((series, seriesIndex) => {
+                  const values = statistics[groupIndex][seriesIndex];
+                  return (
+                    <tr key={String(series.key)} className="border-b last:border-0">
+                      <td className="py-1 pr-3 font-medium" style={{ color: series.color }}>{series.label}</td>
+                      {COLUMNS.map(column => (
+                        <td key={column.label} className="py-1 pr-3 text-right font-mono tabular-nums">
+                          {values ? column.value(values) : '—'}
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,59 @@
+import { History } from 'lucide-react';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { Badge } from '@/components/ui/badge';
+import { useDeviceStatusHistory } from '@/hooks/use-device-status';
+import { getDeviceStatusOption } from '@/lib/device-status';
+
+interface StatusHistoryProps {
+  deviceId: string;
+}
+
+// Últimos cambios de estado de conectividad del dispositivo
+export const StatusHistory = ({ deviceId }: StatusHistoryProps) => {
+  const { data: changes, loading } = useDeviceStatusHistory(deviceId);
+
+  if (loading || !changes.length) return null;
+
+  return (
+    <div className="space-y-2">
+      <h2 className="text-xl font-semibold flex items-center gap-2">
+        <History className="h-5 w-5" />
+        Historial de estado
+      </h2>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-muted-foreground border-b">
+              <th className="py-2 pr-4 font-medium">Fecha</th>
+              <th className="py-2 pr-4 font-medium">Estado</th>
+              <th className="py-2 pr-4 font-medium">Anterior</th>
+              <th className="py-2 font-medium">Última lectura</th>
+            </tr>
+          </thead>
+          <tbody>
+            {changes.map(change => {
+              const status = getDeviceStatusOption(change.status);
+              return (
+                <tr key={change.id} className="border-b last:border-0">
+                  <td className="py-2 pr-4 whitespace-nowrap">
+                    {format(change.createdAt, 'dd/MM/yy HH:mm:ss', { locale: es })}
+                  </td>
+                  <td className="py-2 pr-4">
+                    <Badge variant={status.variant}>{status.label}</Badge>
+                  </td>
+                  <td className="py-2 pr-4 text-muted-foreground">
+                    {change.previousStatus ? getDeviceStatusOption(change.previousStatus).label : '—'}
+                  </td>
+                  <td className="py-2 text-muted-foreground whitespace-nowrap">
+                    {change.lastActive ? format(change.lastActive, 'dd/MM/yy HH:mm:ss', { locale: es }) : '—'}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
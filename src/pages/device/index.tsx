@@ -1,6 +1,10 @@
+import { Fragment, useMemo, useState } from "react";
 import { useParams } from "react-router";
 import { Link } from "react-router";
-import { useDocument, useCollection, useFirestore } from "@/hooks/use-firestore";
+import { useDocument } from "@/hooks/use-firestore";
+import { useLatestReading, useLiveReadings, useReadingsInRange } from "@/hooks/use-readings";
+import { useDeviceStatus } from "@/hooks/use-device-status";
+import { useDeviceHierarchy } from "@/hooks/use-devices";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -13,87 +17,69 @@ import {
   BreadcrumbSeparator
 } from "@/components/ui/breadcrumb";
 import { useSidebar } from "@/components/ui/sidebar";
-import { CalendarDays, Activity, Hash, Database, Menu, Home } from "lucide-react";
-import type { Device } from "@/types/models/device";
-import { SensorCharts, type SensorReading } from "@/pages/device/components/sensor-charts.tsx";
+import { CalendarDays, Activity, Hash, Database, Menu, Home, Pencil, FileText } from "lucide-react";
+import { SensorCharts } from "@/pages/device/components/sensor-charts.tsx";
+import { StatusHistory } from "@/pages/device/components/status-history.tsx";
+import { ChartCursorProvider } from "@/components/providers/chart-cursor-provider";
+import { deviceConverter } from "@/lib/converters";
+import { getDeviceStatusOption } from "@/lib/device-status";
+import { formatBoltSpec } from "@/lib/devices";
+import { getDevicePath } from "@/lib/device-hierarchy";
+import { getReportPath } from "@/lib/report";
+import { DEFAULT_TIME_RANGE, getTimeRangeBounds, isRelativeTimeRange, type TimeBounds, type TimeRange } from "@/lib/time-range";
+import type { DateRange } from "react-day-picker";
 
 export const DevicePage = () => {
   const { id } = useParams<{ id: string }>();
-  const { orderByQuery, limitQuery } = useFirestore();
   const { toggleSidebar } = useSidebar();
 
-  const { data: device, loading, error } = useDocument('devices', id!);
+  const { data: device, invalid: invalidDevice, loading, error } = useDocument('devices', id!, deviceConverter);
 
-  // Obtener la última lectura del dispositivo
-  const { data: readings, loading: readingsLoading } = useCollection(`devices/${id}/readings`, [
-    orderByQuery('ts', 'desc'),
-    limitQuery(1)
-  ]);
+  // Obtener la última lectura del dispositivo (compartida con el resto de consumidores)
+  const { data: lastReading, loading: readingsLoading } = useLatestReading(id);
 
-  // Obtener más lecturas para los gráficos (últimas 1000 lecturas)
-  const { data: chartReadings, loading: chartReadingsLoading } = useCollection(`devices/${id}/readings`, [
-    orderByQuery('ts', 'desc'),
-    limitQuery(1000)
-  ]);
+  // Rango seleccionado en los gráficos, consultado directamente en Firestore
+  const [timeRange, setTimeRange] = useState<TimeRange>(DEFAULT_TIME_RANGE);
+  const [dateRange, setDateRange] = useState<DateRange | undefined>();
+  const rangeBounds = useMemo(() => getTimeRangeBounds(timeRange, dateRange), [timeRange, dateRange]);
+  // Ventana ampliada dentro del rango cargado; se descarta al cambiar de rango
+  const [zoom, setZoom] = useState<TimeBounds | null>(null);
 
-  // Función para convertir datos de Firestore a SensorReading
-  const convertToSensorReadings = (firestoreData: unknown[]): SensorReading[] => {
-    if (!firestoreData?.length) return [];
+  const handleTimeRangeChange = (value: TimeRange) => {
+    setTimeRange(value);
+    setZoom(null);
+  };
 
-    return firestoreData.filter((item): item is Record<string, unknown> => {
-      return item !== null &&
-        typeof item === 'object' &&
-        'avg' in item &&
-        'last' in item &&
-        'ts' in item &&
-        'id' in item;
-    }).filter(item => {
-      const avg = item.avg as Record<string, unknown>;
-      const last = item.last as Record<string, unknown>;
-      return avg &&
-        typeof avg === 'object' &&
-        'accel' in avg &&
-        'gyro' in avg &&
-        last &&
-        typeof last === 'object' &&
-        'accel' in last &&
-        'gyro' in last;
-    }).map(item => ({
-      id: (item.id as string) || '',
-      ts: item.ts as { toDate?: () => Date } | Date | number,
-      count: (item.count as number) || 0,
-      last: {
-        accel: {
-          x: ((item.last as Record<string, unknown>).accel as Record<string, number>).x || 0,
-          y: ((item.last as Record<string, unknown>).accel as Record<string, number>).y || 0,
-          z: ((item.last as Record<string, unknown>).accel as Record<string, number>).z || 0,
-        },
-        gyro: {
-          x: ((item.last as Record<string, unknown>).gyro as Record<string, number>).x || 0,
-          y: ((item.last as Record<string, unknown>).gyro as Record<string, number>).y || 0,
-          z: ((item.last as Record<string, unknown>).gyro as Record<string, number>).z || 0,
-        },
-        ts_local: ((item.last as Record<string, unknown>).ts_local as number) || 0,
-      },
-      avg: {
-        accel: {
-          x: ((item.avg as Record<string, unknown>).accel as Record<string, number>).x || 0,
-          y: ((item.avg as Record<string, unknown>).accel as Record<string, number>).y || 0,
-          z: ((item.avg as Record<string, unknown>).accel as Record<string, number>).z || 0,
-        },
-        gyro: {
-          x: ((item.avg as Record<string, unknown>).gyro as Record<string, number>).x || 0,
-          y: ((item.avg as Record<string, unknown>).gyro as Record<string, number>).y || 0,
-          z: ((item.avg as Record<string, unknown>).gyro as Record<string, number>).z || 0,
-        },
-      },
-    }));
+  const handleDateRangeChange = (value: DateRange | undefined) => {
+    setDateRange(value);
+    setZoom(null);
   };
 
-  const lastReading = readings?.[0];
-  const lastActiveTime = lastReading?.ts?.toDate?.() || (device as Device)?.lastActive;
+  const {
+    data: chartReadings,
+    invalid: invalidChartReadings,
+    loading: chartReadingsLoading,
+    loadingMore: chartReadingsLoadingMore,
+    hasMore: chartReadingsHasMore,
+    totalCount: chartReadingsTotal,
+    loadMore: loadMoreChartReadings,
+  } = useReadingsInRange(id, rangeBounds);
+
+  // Modo en vivo: las lecturas nuevas se añaden a los gráficos en una ventana deslizante
+  const liveEnabled = isRelativeTimeRange(timeRange);
+  const {
+    data: liveChartReadings,
+    paused: livePaused,
+    lastUpdate: liveLastUpdate,
+    pause: pauseLive,
+    resume: resumeLive,
+  } = useLiveReadings(id, rangeBounds, chartReadings, { enabled: liveEnabled });
+
+  // Estado de conectividad calculado por el DeviceStatusProvider (el mismo en todas las vistas)
+  const { status, lastActive: lastActiveTime, expectedIntervalMs } = useDeviceStatus(id);
+  const { sources: hierarchy } = useDeviceHierarchy();
 
-  if (loading || readingsLoading || chartReadingsLoading) {
+  if (loading || readingsLoading) {
     return (
       <div className="container mx-auto p-6">
         <div className="animate-pulse">
@@ -109,7 +95,11 @@ export const DevicePage = () => {
         <Card className="border-red-200 bg-red-50">
           <CardContent className="pt-6">
             <p className="text-red-800">
-              {error ? `Error al cargar el dispositivo: ${error}` : 'Dispositivo no encontrado'}
+              {error
+                ? `Error al cargar el dispositivo: ${error}`
+                : invalidDevice.count > 0
+                  ? `Dispositivo con datos inválidos: ${invalidDevice.reasons[0].reason}`
+                  : 'Dispositivo no encontrado'}
             </p>
           </CardContent>
         </Card>
@@ -117,25 +107,29 @@ export const DevicePage = () => {
     );
   }
 
-  const deviceData = device as Device;
+  const statusInfo = getDeviceStatusOption(status);
 
-  // Calcular el estado basado en la última lectura
-  const getDeviceStatus = (lastActive: Date | undefined) => {
-    if (!lastActive) return { status: 'Desconectado', variant: 'destructive' as const, color: 'bg-red-500' };
+  // El informe cubre la ventana visible de los gráficos: la del zoom o el rango hasta ahora
+  const reportBounds = zoom ?? getTimeRangeBounds(timeRange, dateRange);
 
-    const now = new Date();
-    const timeDiff = now.getTime() - new Date(lastActive).getTime();
-    const minutesDiff = timeDiff / (1000 * 60);
-
-    if (minutesDiff < 3) return { status: 'Activo', variant: 'default' as const, color: 'bg-green-500' };
-    if (minutesDiff < 30) return { status: 'Inactivo', variant: 'secondary' as const, color: 'bg-yellow-500' };
-    return { status: 'Desconectado', variant: 'destructive' as const, color: 'bg-red-500' };
-  };
+  // Sitio / estructura / grupo del dispositivo para las migas de pan
+  const { site, structure, group } = getDevicePath(device, hierarchy);
+  const hierarchyPath = [
+    { level: 'site', name: site?.name },
+    { level: 'structure', name: structure?.name },
+    { level: 'group', name: group?.name },
+  ].filter(item => !!item.name);
 
-  const statusInfo = getDeviceStatus(lastActiveTime);
+  const boltSpec = formatBoltSpec(device.bolt);
+  const details = [
+    { label: 'Ubicación', value: device.location },
+    { label: 'Instalación', value: device.installedAt?.toLocaleDateString('es-ES') },
+    { label: 'Perno', value: boltSpec },
+    { label: 'Notas', value: device.notes },
+  ].filter((detail): detail is { label: string; value: string } => !!detail.value);
 
   // Formatear la fecha de última actividad
-  const formatLastActive = (date: Date | undefined) => {
+  const formatLastActive = (date: Date | null) => {
     if (!date) return 'Nunca';
     const deviceDate = new Date(date);
     return deviceDate.toLocaleString('es-ES', {
@@ -174,9 +168,15 @@ export const DevicePage = () => {
                 </BreadcrumbLink>
               </BreadcrumbItem>
               <BreadcrumbSeparator />
+              {hierarchyPath.map(({ level, name }) => (
+                <Fragment key={level}>
+                  <BreadcrumbItem>{name}</BreadcrumbItem>
+                  <BreadcrumbSeparator />
+                </Fragment>
+              ))}
               <BreadcrumbItem>
                 <BreadcrumbPage>
-                  {loading ? 'Cargando...' : (deviceData?.name || 'Dispositivo')}
+                  {loading ? 'Cargando...' : (device?.name || 'Dispositivo')}
                 </BreadcrumbPage>
               </BreadcrumbItem>
             </BreadcrumbList>
@@ -192,11 +192,31 @@ export const DevicePage = () => {
           <div className="flex items-center justify-between">
             <CardTitle className="text-2xl flex items-center gap-3">
               <div className={`w-3 h-3 rounded-full ${statusInfo.color}`}></div>
-              {deviceData.name}
+              {device.name}
             </CardTitle>
-            <Badge variant={statusInfo.variant}>
-              {statusInfo.status}
-            </Badge>
+            <div className="flex items-center gap-2">
+              {device.decommissionedAt ? (
+                <Badge variant="outline">De baja</Badge>
+              ) : (
+                <Badge variant={statusInfo.variant}>
+                  {statusInfo.label}
+                </Badge>
+              )}
+              {reportBounds && (
+                <Button variant="outline" size="sm" asChild>
+                  <Link to={getReportPath(device.id, reportBounds, timeRange)}>
+                    <FileText className="h-4 w-4" />
+                    Generar informe
+                  </Link>
+                </Button>
+              )}
+              <Button variant="outline" size="sm" asChild>
+                <Link to={`/dispositivos?editar=${device.id}`}>
+                  <Pencil className="h-4 w-4" />
+                  Editar
+                </Link>
+              </Button>
+            </div>
           </div>
         </CardHeader>
 
@@ -210,7 +230,10 @@ export const DevicePage = () => {
               </div>
               <div className="space-y-1">
                 <p className="text-sm font-medium text-muted-foreground">Estado</p>
-                <p className="text-lg font-semibold">{statusInfo.status}</p>
+                <p className="text-lg font-semibold">{statusInfo.label}</p>
+                <p className="text-xs text-muted-foreground">
+                  Lectura esperada cada {expectedIntervalMs / 1000} s
+                </p>
               </div>
             </div>
 
@@ -232,7 +255,7 @@ export const DevicePage = () => {
               </div>
               <div className="space-y-1">
                 <p className="text-sm font-medium text-muted-foreground">ID</p>
-                <p className="text-sm font-semibold font-mono break-all">{deviceData.id}</p>
+                <p className="text-sm font-semibold font-mono break-all">{device.id}</p>
               </div>
             </div>
 
@@ -251,13 +274,44 @@ export const DevicePage = () => {
 
           </div>
 
+          {/* Datos de instalación */}
+          {details.length > 0 && (
+            <dl className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-x-6 gap-y-3 text-sm">
+              {details.map(({ label, value }) => (
+                <div key={label} className="space-y-1">
+                  <dt className="font-medium text-muted-foreground">{label}</dt>
+                  <dd className="whitespace-pre-line">{value}</dd>
+                </div>
+              ))}
+            </dl>
+          )}
+
+          <StatusHistory deviceId={device.id} />
+
           {/* Gráficos de Sensores */}
           <div>
             <h2 className="text-xl font-semibold mb-4">Gráficos de Sensores</h2>
-            <SensorCharts
-              readings={convertToSensorReadings(chartReadings || [])}
-              loading={chartReadingsLoading}
-            />
+            <ChartCursorProvider>
+              <SensorCharts
+                readings={liveChartReadings}
+                invalid={invalidChartReadings}
+                loading={chartReadingsLoading}
+                timeRange={timeRange}
+                dateRange={dateRange}
+                onTimeRangeChange={handleTimeRangeChange}
+                onDateRangeChange={handleDateRangeChange}
+                totalCount={chartReadingsTotal}
+                hasMore={chartReadingsHasMore}
+                loadingMore={chartReadingsLoadingMore}
+                onLoadMore={loadMoreChartReadings}
+                live={liveEnabled}
+                livePaused={livePaused}
+                lastUpdate={liveLastUpdate}
+                onLivePausedChange={(paused) => paused ? pauseLive() : resumeLive()}
+                zoom={zoom}
+                onZoomChange={setZoom}
+              />
+            </ChartCursorProvider>
           </div>
 
         </CardContent>
@@ -0,0 +1,263 @@
+import { useState, type FormEvent } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button.tsx";
+import { Input } from "@/components/ui/input.tsx";
+import { Textarea } from "@/components/ui/textarea.tsx";
+import { Plus, Save } from "lucide-react";
+import { DEVICE_ID_PATTERN } from "@/lib/devices.ts";
+import type { Device } from "@/types/models/device";
+
+interface DeviceFormValues {
+  id: string;
+  name: string;
+  groupId: string;
+  location: string;
+  installedAt: string;
+  expectedIntervalSeconds: string;
+  diameterMm: string;
+  grade: string;
+  nominalTorqueNm: string;
+  notes: string;
+}
+
+// Campos editables del documento; los opcionales vacíos se guardan como null para poder borrarlos al editar
+export type DeviceDocument = {
+  name: string
+  groupId: string | null
+  location: string | null
+  installedAt: Date | null
+  expectedIntervalSeconds: number | null
+  bolt: { diameterMm: number | null; grade: string | null; nominalTorqueNm: number | null } | null
+  notes: string | null
+}
+
+const toFormValues = (device?: Device): DeviceFormValues => ({
+  id: device?.id ?? '',
+  name: device?.name ?? '',
+  groupId: device?.groupId ?? '',
+  location: device?.location ?? '',
+  installedAt: device?.installedAt ? format(device.installedAt, 'yyyy-MM-dd') : '',
+  expectedIntervalSeconds: device?.expectedIntervalSeconds?.toString() ?? '',
+  diameterMm: device?.bolt?.diameterMm?.toString() ?? '',
+  grade: device?.bolt?.grade ?? '',
+  nominalTorqueNm: device?.bolt?.nominalTorqueNm?.toString() ?? '',
+  notes: device?.notes ?? '',
+});
+
+const optionalText = (value: string) => value.trim() || null;
+
+// Número positivo opcional: null si está vacío, undefined si no es válido
+const optionalPositive = (value: string) => {
+  if (!value.trim()) return null;
+  const number = Number(value);
+  return number > 0 ? number : undefined;
+};
+
+// Documento de devices a partir del formulario; devuelve el motivo si algún campo no es válido
+const toDeviceDocument = (values: DeviceFormValues): DeviceDocument | string => {
+  if (!values.name.trim()) return 'El nombre es obligatorio';
+
+  const expectedIntervalSeconds = optionalPositive(values.expectedIntervalSeconds);
+  const diameterMm = optionalPositive(values.diameterMm);
+  const nominalTorqueNm = optionalPositive(values.nominalTorqueNm);
+  if (expectedIntervalSeconds === undefined) return 'El intervalo esperado debe ser mayor que 0';
+  if (diameterMm === undefined) return 'El diámetro debe ser mayor que 0';
+  if (nominalTorqueNm === undefined) return 'El par nominal debe ser mayor que 0';
+
+  const installedAt = values.installedAt ? new Date(`${values.installedAt}T00:00:00`) : null;
+  if (installedAt && Number.isNaN(installedAt.getTime())) return 'La fecha de instalación no es válida';
+
+  const grade = optionalText(values.grade);
+  const hasBolt = diameterMm !== null || grade !== null || nominalTorqueNm !== null;
+
+  return {
+    name: values.name.trim(),
+    groupId: optionalText(values.groupId),
+    location: optionalText(values.location),
+    installedAt,
+    expectedIntervalSeconds,
+    bolt: hasBolt ? { diameterMm, grade, nominalTorqueNm } : null,
+    notes: optionalText(values.notes),
+  };
+};
+
+// El id de un dispositivo nuevo no se puede cambiar después: es la ruta donde escribe el sensor
+const validateNewId = (id: string, existingIds: string[]) => {
+  if (!DEVICE_ID_PATTERN.test(id)) return 'El ID solo puede contener letras, números, "-" y "_"';
+  if (existingIds.includes(id)) return `Ya existe un dispositivo con el ID ${id}`;
+  return null;
+};
+
+interface DeviceFormProps {
+  // Dispositivo que se edita; sin él el formulario registra uno nuevo
+  device?: Device;
+  existingIds: string[];
+  // Grupos sugeridos en el campo de grupo
+  groupIds: string[];
+  saving: boolean;
+  error: string | null;
+  onSubmit: (id: string, document: DeviceDocument) => Promise<void>;
+  onCancel?: () => void;
+}
+
+export const DeviceForm = ({ device, existingIds, groupIds, saving, error, onSubmit, onCancel }: DeviceFormProps) => {
+  const [values, setValues] = useState<DeviceFormValues>(() => toFormValues(device));
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const setField = (field: keyof DeviceFormValues, value: string) => {
+    setValues(current => ({ ...current, [field]: value }));
+  };
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+
+    const id = values.id.trim();
+    const idError = device ? null : validateNewId(id, existingIds);
+    if (idError) {
+      setFormError(idError);
+      return;
+    }
+
+    const document = toDeviceDocument(values);
+    if (typeof document === 'string') {
+      setFormError(document);
+      return;
+    }
+
+    setFormError(null);
+    try {
+      await onSubmit(device?.id ?? id, document);
+      if (!device) setValues(toFormValues());
+    } catch (error) {
+      console.error('Error al guardar el dispositivo:', error);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-1">
+          <label htmlFor="device-id" className="text-sm font-medium">ID</label>
+          <Input
+            id="device-id"
+            value={values.id}
+            disabled={!!device}
+            onChange={event => setField('id', event.target.value)}
+            placeholder="perno-norte-03"
+            className="font-mono"
+          />
+        </div>
+        <div className="space-y-1">
+          <label htmlFor="device-name" className="text-sm font-medium">Nombre</label>
+          <Input
+            id="device-name"
+            value={values.name}
+            onChange={event => setField('name', event.target.value)}
+            placeholder="Perno Norte 03"
+          />
+        </div>
+        <div className="space-y-1">
+          <label htmlFor="device-group" className="text-sm font-medium">Grupo</label>
+          <Input
+            id="device-group"
+            list="device-group-options"
+            value={values.groupId}
+            onChange={event => setField('groupId', event.target.value)}
+            placeholder="Sin grupo"
+          />
+          <datalist id="device-group-options">
+            {groupIds.map(groupId => <option key={groupId} value={groupId} />)}
+          </datalist>
+        </div>
+        <div className="space-y-1">
+          <label htmlFor="device-location" className="text-sm font-medium">Ubicación</label>
+          <Input
+            id="device-location"
+            value={values.location}
+            onChange={event => setField('location', event.target.value)}
+            placeholder="Torre 2, brida superior"
+          />
+        </div>
+        <div className="space-y-1">
+          <label htmlFor="device-installed-at" className="text-sm font-medium">Fecha de instalación</label>
+          <Input
+            id="device-installed-at"
+            type="date"
+            value={values.installedAt}
+            onChange={event => setField('installedAt', event.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <label htmlFor="device-interval" className="text-sm font-medium">Intervalo esperado (s)</label>
+          <Input
+            id="device-interval"
+            type="number"
+            min={1}
+            value={values.expectedIntervalSeconds}
+            onChange={event => setField('expectedIntervalSeconds', event.target.value)}
+            placeholder="El del grupo"
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-1">
+          <label htmlFor="device-diameter" className="text-sm font-medium">Diámetro del perno (mm)</label>
+          <Input
+            id="device-diameter"
+            type="number"
+            min={0}
+            step="any"
+            value={values.diameterMm}
+            onChange={event => setField('diameterMm', event.target.value)}
+            placeholder="20"
+          />
+        </div>
+        <div className="space-y-1">
+          <label htmlFor="device-grade" className="text-sm font-medium">Clase de resistencia</label>
+          <Input
+            id="device-grade"
+            value={values.grade}
+            onChange={event => setField('grade', event.target.value)}
+            placeholder="8.8"
+          />
+        </div>
+        <div className="space-y-1">
+          <label htmlFor="device-torque" className="text-sm font-medium">Par nominal (N·m)</label>
+          <Input
+            id="device-torque"
+            type="number"
+            min={0}
+            step="any"
+            value={values.nominalTorqueNm}
+            onChange={event => setField('nominalTorqueNm', event.target.value)}
+            placeholder="400"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <label htmlFor="device-notes" className="text-sm font-medium">Notas</label>
+        <Textarea
+          id="device-notes"
+          value={values.notes}
+          onChange={event => setField('notes', event.target.value)}
+        />
+      </div>
+
+      {(formError || error) && <p className="text-sm text-destructive">{formError ?? error}</p>}
+
+      <div className="flex gap-2">
+        <Button type="submit" size="sm" disabled={saving}>
+          {device ? <Save className="h-4 w-4" /> : <Plus className="h-4 w-4" />}
+          {device ? 'Guardar cambios' : 'Registrar dispositivo'}
+        </Button>
+        {onCancel && (
+          <Button type="button" variant="outline" size="sm" onClick={onCancel}>
+            Cancelar
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,236 @@
+import { useState, type FormEvent } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card.tsx";
+import { Button } from "@/components/ui/button.tsx";
+import { Input } from "@/components/ui/input.tsx";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select.tsx";
+import { Network, Plus, Trash2 } from "lucide-react";
+import { useFirestoreOperations } from "@/hooks/use-firestore.ts";
+import { DEVICE_ID_PATTERN } from "@/lib/devices.ts";
+import type { HierarchySources } from "@/lib/device-hierarchy.ts";
+
+type Level = 'site' | 'structure' | 'group';
+
+// Colección, etiqueta y campo con el id del padre de cada nivel
+const LEVELS: { value: Level; label: string; collection: string; parentField?: 'siteId' | 'structureId' }[] = [
+  { value: 'site', label: 'Sitio', collection: 'sites' },
+  { value: 'structure', label: 'Estructura', collection: 'structures', parentField: 'siteId' },
+  { value: 'group', label: 'Grupo', collection: 'groups', parentField: 'structureId' },
+];
+
+// Valor del select de padre sin asignar (los SelectItem no admiten value vacío)
+const NO_PARENT = 'none';
+
+interface HierarchyForm {
+  level: Level;
+  id: string;
+  name: string;
+  parentId: string;
+  expectedIntervalSeconds: string;
+}
+
+const INITIAL_FORM: HierarchyForm = { level: 'site', id: '', name: '', parentId: NO_PARENT, expectedIntervalSeconds: '' };
+
+interface HierarchyEditorProps {
+  sources: HierarchySources;
+}
+
+// Alta y baja de sitios, estructuras y grupos; los dispositivos se asignan a un grupo desde su formulario
+export const HierarchyEditor = ({ sources }: HierarchyEditorProps) => {
+  const { sites, structures, groups, devices } = sources;
+  const { set, remove, loading: saving, error: saveError } = useFirestoreOperations();
+  const [form, setForm] = useState<HierarchyForm>(INITIAL_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const level = LEVELS.find(option => option.value === form.level)!;
+  const parents = form.level === 'structure' ? sites : form.level === 'group' ? structures : [];
+  const documentsByLevel: Record<Level, { id: string; name: string }[]> = { site: sites, structure: structures, group: groups };
+
+  const setField = <K extends keyof HierarchyForm>(field: K, value: HierarchyForm[K]) => {
+    setForm(current => ({ ...current, [field]: value }));
+  };
+
+  // Motivo por el que no se puede crear el elemento, o null si el formulario es válido
+  const validate = (id: string, expectedIntervalSeconds: number) => {
+    if (!DEVICE_ID_PATTERN.test(id)) return 'El ID solo puede contener letras, números, "-" y "_"';
+    if (documentsByLevel[form.level].some(document => document.id === id)) return `Ya existe un elemento con el ID ${id}`;
+    if (!form.name.trim()) return 'El nombre es obligatorio';
+    if (form.expectedIntervalSeconds.trim() && !(expectedIntervalSeconds > 0)) return 'El intervalo esperado debe ser mayor que 0';
+    return null;
+  };
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+
+    const id = form.id.trim();
+    const expectedIntervalSeconds = Number(form.expectedIntervalSeconds);
+    const invalidReason = validate(id, expectedIntervalSeconds);
+    if (invalidReason) {
+      setFormError(invalidReason);
+      return;
+    }
+
+    setFormError(null);
+    try {
+      await set(level.collection, id, {
+        name: form.name.trim(),
+        ...(level.parentField && { [level.parentField]: form.parentId === NO_PARENT ? null : form.parentId }),
+        ...(form.level === 'group' && { expectedIntervalSeconds: form.expectedIntervalSeconds.trim() ? expectedIntervalSeconds : null }),
+      });
+      setForm({ ...INITIAL_FORM, level: form.level });
+    } catch (error) {
+      console.error('Error al crear el elemento de la jerarquía:', error);
+    }
+  };
+
+  const handleRemove = async (collection: string, id: string) => {
+    try {
+      await remove(collection, id);
+    } catch (error) {
+      console.error('Error al eliminar el elemento de la jerarquía:', error);
+    }
+  };
+
+  // Filas de la tabla: nivel, documento, nombre del padre y número de hijos directos
+  const rows = [
+    ...sites.map(site => ({
+      level: LEVELS[0], id: site.id, name: site.name, parent: null,
+      children: structures.filter(structure => structure.siteId === site.id).length,
+    })),
+    ...structures.map(structure => ({
+      level: LEVELS[1], id: structure.id, name: structure.name,
+      parent: structure.siteId ? sites.find(site => site.id === structure.siteId)?.name ?? structure.siteId : null,
+      children: groups.filter(group => group.structureId === structure.id).length,
+    })),
+    ...groups.map(group => ({
+      level: LEVELS[2], id: group.id, name: group.name,
+      parent: group.structureId ? structures.find(structure => structure.id === group.structureId)?.name ?? group.structureId : null,
+      children: devices.filter(device => device.groupId === group.id).length,
+    })),
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Network className="h-5 w-5" />
+          Sitios, estructuras y grupos
+        </CardTitle>
+        <CardDescription>
+          Cada estructura pertenece a un sitio y cada grupo a una estructura. Eliminar un elemento no modifica a
+          sus hijos: siguen apareciendo bajo su ID hasta que se reasignen.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleSubmit} className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <span className="text-sm font-medium">Tipo</span>
+            <Select value={form.level} onValueChange={(value: Level) => setForm({ ...form, level: value, parentId: NO_PARENT })}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LEVELS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <label htmlFor="hierarchy-id" className="text-sm font-medium">ID</label>
+            <Input
+              id="hierarchy-id"
+              className="w-40 font-mono"
+              value={form.id}
+              onChange={event => setField('id', event.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <label htmlFor="hierarchy-name" className="text-sm font-medium">Nombre</label>
+            <Input
+              id="hierarchy-name"
+              className="w-48"
+              value={form.name}
+              onChange={event => setField('name', event.target.value)}
+            />
+          </div>
+          {level.parentField && (
+            <div className="space-y-1">
+              <span className="text-sm font-medium">{form.level === 'structure' ? 'Sitio' : 'Estructura'}</span>
+              <Select value={form.parentId} onValueChange={value => setField('parentId', value)}>
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_PARENT}>Sin asignar</SelectItem>
+                  {parents.map(parent => (
+                    <SelectItem key={parent.id} value={parent.id}>{parent.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {form.level === 'group' && (
+            <div className="space-y-1">
+              <label htmlFor="hierarchy-interval" className="text-sm font-medium">Intervalo esperado (s)</label>
+              <Input
+                id="hierarchy-interval"
+                type="number"
+                min={1}
+                className="w-32"
+                value={form.expectedIntervalSeconds}
+                onChange={event => setField('expectedIntervalSeconds', event.target.value)}
+                placeholder="60"
+              />
+            </div>
+          )}
+          <Button type="submit" size="sm" disabled={saving}>
+            <Plus className="h-4 w-4" />
+            Crear
+          </Button>
+        </form>
+
+        {(formError || saveError) && <p className="text-sm text-destructive">{formError ?? saveError}</p>}
+
+        {rows.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground border-b">
+                  <th className="py-2 pr-4 font-medium">Tipo</th>
+                  <th className="py-2 pr-4 font-medium">Nombre</th>
+                  <th className="py-2 pr-4 font-medium">Pertenece a</th>
+                  <th className="py-2 pr-4 font-medium text-right">Elementos</th>
+                  <th className="py-2 font-medium"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={`${row.level.value}:${row.id}`} className="border-b last:border-0">
+                    <td className="py-2 pr-4 text-muted-foreground">{row.level.label}</td>
+                    <td className="py-2 pr-4">
+                      <span className="font-medium">{row.name}</span>
+                      <span className="ml-2 text-xs font-mono text-muted-foreground">{row.id}</span>
+                    </td>
+                    <td className="py-2 pr-4">{row.parent ?? '—'}</td>
+                    <td className="py-2 pr-4 text-right tabular-nums">{row.children}</td>
+                    <td className="py-2 text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={saving}
+                        onClick={() => handleRemove(row.level.collection, row.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                        <span className="sr-only">Eliminar</span>
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
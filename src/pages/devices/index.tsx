@@ -0,0 +1,262 @@
+import { useMemo, useState } from "react";
+import { Link, useSearchParams } from "react-router";
+import { SidebarTrigger } from "@/components/ui/sidebar.tsx";
+import {
+  Breadcrumb,
+  BreadcrumbList,
+  BreadcrumbItem,
+  BreadcrumbPage,
+} from "@/components/ui/breadcrumb.tsx";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card.tsx";
+import { Button } from "@/components/ui/button.tsx";
+import { Badge } from "@/components/ui/badge.tsx";
+import { Archive, ArchiveRestore, Cpu, Pencil, Plus, Trash2, Upload } from "lucide-react";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { useDeviceHierarchy, useDevices } from "@/hooks/use-devices.ts";
+import { useDeviceStatuses } from "@/hooks/use-device-status.ts";
+import { useFirestoreOperations } from "@/hooks/use-firestore.ts";
+import { getDeviceStatusOption } from "@/lib/device-status.ts";
+import { formatBoltSpec } from "@/lib/devices.ts";
+import { DeviceForm, type DeviceDocument } from "@/pages/devices/components/device-form.tsx";
+import { HierarchyEditor } from "@/pages/devices/components/hierarchy-editor.tsx";
+import type { Device } from "@/types/models/device";
+
+// Parámetro de la URL con el id del dispositivo que se está editando
+const EDIT_PARAM = 'editar';
+
+// Acción pendiente de confirmar sobre un dispositivo
+type PendingAction = { deviceId: string; type: 'decommission' | 'delete' };
+
+export const DevicesPage = () => {
+  const { data: devices, invalid, loading } = useDevices();
+  const { sources: hierarchy } = useDeviceHierarchy();
+  const { groups } = hierarchy;
+  const statuses = useDeviceStatuses();
+  const { set, update, remove, loading: saving, error: saveError } = useFirestoreOperations();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [pending, setPending] = useState<PendingAction | null>(null);
+
+  const editingId = searchParams.get(EDIT_PARAM);
+  const editingDevice = devices.find(device => device.id === editingId);
+
+  // Grupos sugeridos: los de la colección groups y los que ya tienen asignados los dispositivos
+  const groupIds = useMemo(() => [...new Set([
+    ...groups.map(group => group.id),
+    ...devices.map(device => device.groupId).filter((groupId): groupId is string => !!groupId),
+  ])].sort(), [groups, devices]);
+
+  const setEditing = (deviceId: string | null) => {
+    setSearchParams(deviceId ? { [EDIT_PARAM]: deviceId } : {});
+  };
+
+  const handleCreate = async (id: string, document: DeviceDocument) => {
+    await set('devices', id, document);
+  };
+
+  const handleUpdate = async (id: string, document: DeviceDocument) => {
+    await update('devices', id, document);
+    setEditing(null);
+  };
+
+  const runAction = async ({ deviceId, type }: PendingAction) => {
+    try {
+      if (type === 'delete') {
+        await remove('devices', deviceId);
+        if (editingId === deviceId) setEditing(null);
+      } else {
+        await update('devices', deviceId, { decommissionedAt: new Date() });
+      }
+      setPending(null);
+    } catch (error) {
+      console.error('Error al modificar el dispositivo:', error);
+    }
+  };
+
+  const reactivate = async (device: Device) => {
+    try {
+      await update('devices', device.id, { decommissionedAt: null });
+    } catch (error) {
+      console.error('Error al reactivar el dispositivo:', error);
+    }
+  };
+
+  return <div>
+    <div className={"flex items-center justify-between"}>
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <SidebarTrigger />
+          </BreadcrumbItem>
+          <BreadcrumbItem>
+            <BreadcrumbPage>Gestión de dispositivos</BreadcrumbPage>
+          </BreadcrumbItem>
+        </BreadcrumbList>
+      </Breadcrumb>
+    </div>
+
+    <div className={"mt-6 px-2 space-y-4"}>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            {editingDevice ? <Pencil className="h-5 w-5" /> : <Plus className="h-5 w-5" />}
+            {editingDevice ? `Editar ${editingDevice.name}` : 'Registrar dispositivo'}
+          </CardTitle>
+          <CardDescription>
+            {editingDevice
+              ? 'El ID no se puede cambiar: es la ruta en la que el sensor escribe sus lecturas.'
+              : 'Usa como ID el identificador con el que el sensor escribe en devices/{id}/readings.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <DeviceForm
+            key={editingDevice?.id ?? 'new'}
+            device={editingDevice}
+            existingIds={devices.map(device => device.id)}
+            groupIds={groupIds}
+            saving={saving}
+            error={saveError}
+            onSubmit={editingDevice ? handleUpdate : handleCreate}
+            onCancel={editingDevice ? () => setEditing(null) : undefined}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-2">
+            <CardTitle className="flex items-center gap-2">
+              <Cpu className="h-5 w-5" />
+              Dispositivos
+            </CardTitle>
+            <Button variant="outline" size="sm" asChild>
+              <Link to="/dispositivos/importar">
+                <Upload className="h-4 w-4" />
+                Importar lecturas
+              </Link>
+            </Button>
+          </div>
+          {invalid.count > 0 && (
+            <CardDescription className="text-destructive">
+              {invalid.count} {invalid.count === 1 ? 'dispositivo inválido ignorado' : 'dispositivos inválidos ignorados'}:{' '}
+              {invalid.reasons[0].reason}
+            </CardDescription>
+          )}
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="animate-pulse">
+              <div className="bg-gray-200 rounded h-24 w-full"></div>
+            </div>
+          ) : !devices.length ? (
+            <p className="text-sm text-muted-foreground">Todavía no hay dispositivos registrados.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground border-b">
+                    <th className="py-2 pr-4 font-medium">Nombre</th>
+                    <th className="py-2 pr-4 font-medium">Grupo</th>
+                    <th className="py-2 pr-4 font-medium">Ubicación</th>
+                    <th className="py-2 pr-4 font-medium">Perno</th>
+                    <th className="py-2 pr-4 font-medium">Instalación</th>
+                    <th className="py-2 pr-4 font-medium">Estado</th>
+                    <th className="py-2 font-medium"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {devices.map(device => {
+                    const status = getDeviceStatusOption(statuses[device.id]?.status ?? 'never-seen');
+                    const confirming = pending?.deviceId === device.id ? pending.type : null;
+
+                    return (
+                      <tr key={device.id} className={`border-b last:border-0 ${device.decommissionedAt ? 'text-muted-foreground' : ''}`}>
+                        <td className="py-2 pr-4">
+                          <Link to={`/dispositivos/${device.id}`} className="font-medium hover:underline">
+                            {device.name}
+                          </Link>
+                          <p className="text-xs font-mono text-muted-foreground">{device.id}</p>
+                        </td>
+                        <td className="py-2 pr-4">
+                          {device.groupId ? groups.find(group => group.id === device.groupId)?.name ?? device.groupId : '—'}
+                        </td>
+                        <td className="py-2 pr-4">{device.location ?? '—'}</td>
+                        <td className="py-2 pr-4 whitespace-nowrap">{formatBoltSpec(device.bolt) ?? '—'}</td>
+                        <td className="py-2 pr-4 whitespace-nowrap">
+                          {device.installedAt ? format(device.installedAt, 'dd/MM/yyyy', { locale: es }) : '—'}
+                        </td>
+                        <td className="py-2 pr-4">
+                          {device.decommissionedAt ? (
+                            <Badge variant="outline">
+                              De baja desde {format(device.decommissionedAt, 'dd/MM/yyyy', { locale: es })}
+                            </Badge>
+                          ) : (
+                            <Badge variant={status.variant}>{status.label}</Badge>
+                          )}
+                        </td>
+                        <td className="py-2 text-right whitespace-nowrap">
+                          {confirming ? (
+                            <>
+                              <span className="text-xs mr-2">
+                                {confirming === 'delete'
+                                  ? '¿Eliminar el dispositivo? Sus lecturas no se borran.'
+                                  : '¿Dar de baja? Dejará de vigilarse.'}
+                              </span>
+                              <Button
+                                variant={confirming === 'delete' ? 'destructive' : 'outline'}
+                                size="sm"
+                                disabled={saving}
+                                onClick={() => runAction({ deviceId: device.id, type: confirming })}
+                              >
+                                Confirmar
+                              </Button>
+                              <Button variant="ghost" size="sm" onClick={() => setPending(null)}>
+                                Cancelar
+                              </Button>
+                            </>
+                          ) : (
+                            <>
+                              <Button variant="ghost" size="sm" onClick={() => setEditing(device.id)}>
+                                <Pencil className="h-4 w-4" />
+                                Editar
+                              </Button>
+                              {device.decommissionedAt ? (
+                                <Button variant="ghost" size="sm" disabled={saving} onClick={() => reactivate(device)}>
+                                  <ArchiveRestore className="h-4 w-4" />
+                                  Reactivar
+                                </Button>
+                              ) : (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => setPending({ deviceId: device.id, type: 'decommission' })}
+                                >
+                                  <Archive className="h-4 w-4" />
+                                  Dar de baja
+                                </Button>
+                              )}
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setPending({ deviceId: device.id, type: 'delete' })}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                                <span className="sr-only">Eliminar</span>
+                              </Button>
+                            </>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <HierarchyEditor sources={hierarchy} />
+    </div>
+  </div>
+}
@@ -0,0 +1,216 @@
+import { useMemo, useState } from "react";
+import { Link, useSearchParams } from "react-router";
+import { Input } from "@/components/ui/input.tsx";
+import { Badge } from "@/components/ui/badge.tsx";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select.tsx";
+import { ArrowDown, ArrowUp, ArrowUpDown, Search } from "lucide-react";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { useDeviceStatuses } from "@/hooks/use-device-status.ts";
+import { getMetricValue } from "@/lib/alert-rules.ts";
+import { DEVICE_STATUSES, getDeviceStatusOption } from "@/lib/device-status.ts";
+import type { GroupEntry } from "@/lib/device-hierarchy.ts";
+import type { Device } from "@/types/models/device";
+import type { DeviceStatus } from "@/types/models/device-status";
+
+// Parámetros de la URL con el estado de la tabla
+const SEARCH_PARAM = 'q';
+const STATUS_PARAM = 'estado';
+const SORT_PARAM = 'orden';
+const DIRECTION_PARAM = 'dir';
+
+const ALL = 'all';
+
+// Filas de altura fija: solo se renderizan las visibles y unas pocas por encima y por debajo
+const ROW_HEIGHT_PX = 44;
+const VIEWPORT_HEIGHT_PX = 528;
+const OVERSCAN_ROWS = 8;
+
+type SortColumn = 'name' | 'id' | 'status' | 'lastActive' | 'accel' | 'gyro' | 'group';
+type SortDirection = 'asc' | 'desc';
+
+interface DeviceRow {
+  device: Device;
+  status: DeviceStatus;
+  lastActive: Date | null;
+  accel: number | null;
+  gyro: number | null;
+  group: string | null;
+}
+
+// Columnas ordenables; los valores null quedan siempre al final
+const COLUMNS: { value: SortColumn; label: string; numeric?: boolean; getValue: (row: DeviceRow) => string | number | null }[] = [
+  { value: 'name', label: 'Nombre', getValue: row => row.device.name },
+  { value: 'id', label: 'ID', getValue: row => row.device.id },
+  { value: 'status', label: 'Estado', getValue: row => DEVICE_STATUSES.findIndex(option => option.value === row.status) },
+  { value: 'lastActive', label: 'Última actividad', getValue: row => row.lastActive?.getTime() ?? null },
+  { value: 'accel', label: '|a|', numeric: true, getValue: row => row.accel },
+  { value: 'gyro', label: '|ω|', numeric: true, getValue: row => row.gyro },
+  { value: 'group', label: 'Grupo', getValue: row => row.group },
+];
+
+const compareValues = (a: string | number | null, b: string | number | null) => {
+  if (typeof a === 'string' && typeof b === 'string') return a.localeCompare(b);
+  return (a as number) - (b as number);
+};
+
+const formatMagnitude = (value: number | null) => value === null ? '—' : value.toFixed(3);
+
+interface DeviceTableProps {
+  sections: GroupEntry[];
+}
+
+// Tabla de dispositivos con búsqueda, filtro por estado y orden por columna, guardados en la URL
+export const DeviceTable = ({ sections }: DeviceTableProps) => {
+  const statuses = useDeviceStatuses();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [scrollTop, setScrollTop] = useState(0);
+
+  const search = searchParams.get(SEARCH_PARAM) ?? '';
+  const statusFilter = searchParams.get(STATUS_PARAM) ?? ALL;
+  const sortColumn = COLUMNS.find(column => column.value === searchParams.get(SORT_PARAM)) ?? COLUMNS[0];
+  const sortDirection: SortDirection = searchParams.get(DIRECTION_PARAM) === 'desc' ? 'desc' : 'asc';
+
+  // Sustituye la entrada del historial para no añadir una por cada tecla
+  const setParam = (name: string, value: string | null) => {
+    setSearchParams(current => {
+      const next = new URLSearchParams(current);
+      if (value) next.set(name, value);
+      else next.delete(name);
+      return next;
+    }, { replace: true });
+  };
+
+  const toggleSort = (column: SortColumn) => {
+    setSearchParams(current => {
+      const next = new URLSearchParams(current);
+      next.set(SORT_PARAM, column);
+      next.set(DIRECTION_PARAM, column === sortColumn.value && sortDirection === 'asc' ? 'desc' : 'asc');
+      return next;
+    }, { replace: true });
+  };
+
+  const rows = useMemo(() => sections.flatMap(({ path, group }) => group.devices.map((device): DeviceRow => {
+    const info = statuses[device.id];
+    const reading = info?.lastReading ?? null;
+    return {
+      device,
+      status: info?.status ?? 'never-seen',
+      lastActive: info?.lastActive ?? null,
+      accel: reading && getMetricValue(reading, 'accel_magnitude'),
+      gyro: reading && getMetricValue(reading, 'gyro_magnitude'),
+      group: group.id === null ? null : [...path, group.name].join(' / '),
+    };
+  })), [sections, statuses]);
+
+  const visibleRows = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const filtered = rows.filter(row =>
+      (statusFilter === ALL || row.status === statusFilter) &&
+      (!query || [row.device.name, row.device.id, row.group ?? ''].some(text => text.toLowerCase().includes(query)))
+    );
+
+    const sign = sortDirection === 'asc' ? 1 : -1;
+    return filtered.sort((a, b) => {
+      const valueA = sortColumn.getValue(a);
+      const valueB = sortColumn.getValue(b);
+      if (valueA === null || valueB === null) return valueA === valueB ? 0 : valueA === null ? 1 : -1;
+      return sign * compareValues(valueA, valueB);
+    });
+  }, [rows, search, statusFilter, sortColumn, sortDirection]);
+
+  const start = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT_PX) - OVERSCAN_ROWS);
+  const end = Math.min(visibleRows.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT_PX) / ROW_HEIGHT_PX) + OVERSCAN_ROWS);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-col sm:flex-row gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            className="pl-8"
+            placeholder="Buscar por nombre, ID o grupo"
+            value={search}
+            onChange={event => setParam(SEARCH_PARAM, event.target.value)}
+          />
+        </div>
+        <Select value={statusFilter} onValueChange={value => setParam(STATUS_PARAM, value === ALL ? null : value)}>
+          <SelectTrigger className="w-full sm:w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Todos los estados</SelectItem>
+            {DEVICE_STATUSES.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        {visibleRows.length} de {rows.length} dispositivos
+      </p>
+
+      <div
+        className="overflow-auto rounded-md border"
+        style={{ maxHeight: VIEWPORT_HEIGHT_PX }}
+        onScroll={event => setScrollTop(event.currentTarget.scrollTop)}
+      >
+        <table className="w-full text-sm">
+          <thead className="sticky top-0 z-10 bg-background">
+            <tr className="text-left text-muted-foreground border-b">
+              {COLUMNS.map(column => {
+                const SortIcon = column.value !== sortColumn.value ? ArrowUpDown : sortDirection === 'asc' ? ArrowUp : ArrowDown;
+                return (
+                  <th
+                    key={column.value}
+                    className={`py-2 px-3 font-medium ${column.numeric ? 'text-right' : ''}`}
+                    aria-sort={column.value !== sortColumn.value ? 'none' : sortDirection === 'asc' ? 'ascending' : 'descending'}
+                  >
+                    <button
+                      type="button"
+                      className="inline-flex items-center gap-1 whitespace-nowrap hover:text-foreground"
+                      onClick={() => toggleSort(column.value)}
+                    >
+                      {column.label}
+                      <SortIcon className="h-3 w-3" />
+                    </button>
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+          <tbody>
+            {start > 0 && <tr style={{ height: start * ROW_HEIGHT_PX }} />}
+            {visibleRows.slice(start, end).map(row => {
+              const status = getDeviceStatusOption(row.status);
+              return (
+                <tr key={row.device.id} className="border-b last:border-0 hover:bg-muted/50" style={{ height: ROW_HEIGHT_PX }}>
+                  <td className="px-3 max-w-48 truncate">
+                    <Link to={`/dispositivos/${row.device.id}`} className="font-medium hover:underline">
+                      {row.device.name}
+                    </Link>
+                  </td>
+                  <td className="px-3 font-mono text-xs text-muted-foreground whitespace-nowrap">{row.device.id}</td>
+                  <td className="px-3">
+                    <Badge variant={status.variant}>{status.label}</Badge>
+                  </td>
+                  <td className="px-3 whitespace-nowrap">
+                    {row.lastActive ? format(row.lastActive, 'dd/MM/yy HH:mm:ss', { locale: es }) : 'Nunca'}
+                  </td>
+                  <td className="px-3 text-right tabular-nums">{formatMagnitude(row.accel)}</td>
+                  <td className="px-3 text-right tabular-nums">{formatMagnitude(row.gyro)}</td>
+                  <td className="px-3 max-w-56 truncate">{row.group ?? '—'}</td>
+                </tr>
+              );
+            })}
+            {end < visibleRows.length && <tr style={{ height: (visibleRows.length - end) * ROW_HEIGHT_PX }} />}
+          </tbody>
+        </table>
+        {!visibleRows.length && (
+          <p className="py-8 text-center text-sm text-muted-foreground">Ningún dispositivo coincide con los filtros</p>
+        )}
+      </div>
+    </div>
+  );
+};
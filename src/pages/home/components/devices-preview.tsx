@@ -1,11 +1,29 @@
-import {useCollection} from "@/hooks/use-firestore.ts";
+import {useMemo} from "react";
+import {useDeviceHierarchy, useDevices} from "@/hooks/use-devices.ts";
+import {getGroupEntries} from "@/lib/device-hierarchy.ts";
 import { DeviceCard } from "./devices-preview/device-card";
-import type { Device } from "@/types/models/device";
-import {Link} from "react-router";
+import {DeviceTable} from "@/pages/home/components/device-table.tsx";
+import {Button} from "@/components/ui/button.tsx";
+import {LayoutGrid, Table2} from "lucide-react";
+import {Link, useSearchParams} from "react-router";
+
+// Parámetro de la URL con la vista elegida (tarjetas por defecto)
+const VIEW_PARAM = 'vista';
+const TABLE_VIEW = 'tabla';
 
 export const DevicesPreview = () => {
 
-  const { data, loading, error } = useCollection('devices');
+  const { invalid, loading, error } = useDevices();
+  // Tarjetas agrupadas por sitio / estructura / grupo (sin los dispositivos dados de baja)
+  const { tree } = useDeviceHierarchy();
+  const sections = useMemo(() => getGroupEntries(tree).filter(entry => entry.group.devices.length > 0), [tree]);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const tableView = searchParams.get(VIEW_PARAM) === TABLE_VIEW;
+
+  // Al volver a las tarjetas se descartan también la búsqueda y el orden de la tabla
+  const setTableView = (enabled: boolean) => {
+    setSearchParams(enabled ? { [VIEW_PARAM]: TABLE_VIEW } : {});
+  };
 
   if (loading) {
     return (
@@ -35,13 +53,48 @@ export const DevicesPreview = () => {
 
   return (
     <div className="space-y-4">
-      <h2 className="text-2xl font-bold">Dispositivos</h2>
-      {data && data.length > 0 ? (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 md:gap-6">
-          {data.map((device) => (
-            <Link to={`/dispositivos/${device.id}`}>
-              <DeviceCard key={device.id} device={device as Device} />
-            </Link>
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold">Dispositivos</h2>
+        <div className="flex gap-1">
+          <Button variant={tableView ? 'ghost' : 'secondary'} size="sm" onClick={() => setTableView(false)}>
+            <LayoutGrid className="h-4 w-4" />
+            Tarjetas
+          </Button>
+          <Button variant={tableView ? 'secondary' : 'ghost'} size="sm" onClick={() => setTableView(true)}>
+            <Table2 className="h-4 w-4" />
+            Tabla
+          </Button>
+        </div>
+      </div>
+      {invalid.count > 0 && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+          <p className="text-yellow-800 text-sm">
+            {invalid.count} {invalid.count === 1 ? 'dispositivo omitido' : 'dispositivos omitidos'} por datos inválidos:{' '}
+            {invalid.reasons.map(({ id, reason }) => `${id} (${reason})`).join(', ')}
+          </p>
+        </div>
+      )}
+      {sections.length > 0 && tableView ? (
+        <DeviceTable sections={sections} />
+      ) : sections.length > 0 ? (
+        <div className="space-y-6">
+          {sections.map(({ key, path, group }) => (
+            <section key={key} className="space-y-3">
+              {/* Con un único grupo sin asignar no hace falta el encabezado */}
+              {(sections.length > 1 || group.id !== null) && (
+                <h3 className="text-lg font-semibold">
+                  {path.length > 0 && <span className="text-muted-foreground font-normal">{path.join(' / ')} / </span>}
+                  {group.name}
+                </h3>
+              )}
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 md:gap-6">
+                {group.devices.map((device) => (
+                  <Link key={device.id} to={`/dispositivos/${device.id}`}>
+                    <DeviceCard device={device} />
+                  </Link>
+                ))}
+              </div>
+            </section>
           ))}
         </div>
       ) : (
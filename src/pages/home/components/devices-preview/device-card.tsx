@@ -1,49 +1,35 @@
 import type {Device} from "@/types/models/device";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
-import { useCollection } from "@/hooks/use-firestore";
-import { useFirestore } from "@/hooks/use-firestore";
+import { useNow } from "@/hooks/use-now";
+import { useDeviceStatus } from "@/hooks/use-device-status";
+import { getDeviceStatusOption } from "@/lib/device-status";
+import type { DeviceStatus } from "@/types/models/device-status";
+
+// Cada cuánto se recalcula la antigüedad de la última actividad
+const STATUS_TICK_MS = 15000;
 
 export type DeviceCardProps = {
   device: Device;
 }
 
 export const DeviceCard = ({ device } : DeviceCardProps) => {
-  const { orderByQuery, limitQuery } = useFirestore();
-
-  // Obtener la última lectura del dispositivo
-  const { data: readings, loading } = useCollection(`devices/${device.id}/readings`, [
-    orderByQuery('ts', 'desc'),
-    limitQuery(1)
-  ]);
-
-  const lastReading = readings?.[0];
-  const lastActiveTime = lastReading?.ts?.toDate?.() || device.lastActive;
-
-  // Calcular el estado del dispositivo basado en la última lectura
-  const getDeviceStatus = (): 'online' | 'offline' => {
-    if (!lastActiveTime) return 'offline';
-
-    const now = new Date();
-    const diffInMinutes = (now.getTime() - lastActiveTime.getTime()) / (1000 * 60);
-
-    return diffInMinutes <= 3 ? 'online' : 'offline';
-  };
+  const now = useNow(STATUS_TICK_MS);
 
-  const deviceStatus = getDeviceStatus();
+  // Estado y última lectura del DeviceStatusProvider (una sola suscripción por dispositivo para todas las vistas)
+  const { status: deviceStatus, lastActive: lastActiveTime, lastReading, loading } = useDeviceStatus(device.id);
 
-  const getStatusColor = (status: string) => {
+  const getStatusColor = (status: DeviceStatus) => {
     switch (status) {
       case 'online': return 'text-green-600 bg-green-100';
-      case 'offline': return 'text-gray-600 bg-gray-100';
-      case 'error': return 'text-red-600 bg-red-100';
+      case 'late': return 'text-yellow-700 bg-yellow-100';
+      case 'offline': return 'text-red-600 bg-red-100';
       default: return 'text-gray-600 bg-gray-100';
     }
   };
 
-  const formatLastActive = (date: Date | undefined) => {
+  const formatLastActive = (date: Date | null) => {
     if (!date) return 'Nunca';
-    const now = new Date();
-    const diff = now.getTime() - date.getTime();
+    const diff = now - date.getTime();
     const minutes = Math.floor(diff / (1000 * 60));
     const hours = Math.floor(diff / (1000 * 60 * 60));
     const days = Math.floor(diff / (1000 * 60 * 60 * 24));
@@ -60,7 +46,7 @@ export const DeviceCard = ({ device } : DeviceCardProps) => {
         <div className="flex items-center justify-between">
           <CardTitle className="text-lg truncate pr-2">{device.name}</CardTitle>
           <span className={`px-2 py-1 rounded-full text-xs font-medium whitespace-nowrap ${getStatusColor(deviceStatus)}`}>
-            {deviceStatus === 'online' ? 'En línea' : 'Desconectado'}
+            {getDeviceStatusOption(deviceStatus).label}
           </span>
         </div>
         <CardDescription className="text-sm">
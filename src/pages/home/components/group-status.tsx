@@ -0,0 +1,64 @@
+import { useMemo } from "react";
+import { Layers } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useDeviceHierarchy } from "@/hooks/use-devices";
+import { useDeviceStatuses } from "@/hooks/use-device-status";
+import { DEVICE_STATUSES } from "@/lib/device-status";
+import { getGroupEntries } from "@/lib/device-hierarchy";
+import type { DeviceStatus } from "@/types/models/device-status";
+
+// Estado agregado de cada grupo: cuántos dispositivos hay en cada estado de conectividad
+export const GroupStatus = () => {
+  const { tree, loading } = useDeviceHierarchy();
+  const statuses = useDeviceStatuses();
+
+  const entries = useMemo(() => getGroupEntries(tree).map(entry => {
+    const counts = Object.fromEntries(DEVICE_STATUSES.map(option => [option.value, 0])) as Record<DeviceStatus, number>;
+    entry.group.devices.forEach(device => {
+      counts[statuses[device.id]?.status ?? 'never-seen']++;
+    });
+    return { ...entry, counts, total: entry.group.devices.length };
+  }).filter(entry => entry.total > 0), [tree, statuses]);
+
+  if (loading || !entries.length) return null;
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-2xl font-bold">Estado por grupo</h2>
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 md:gap-6">
+        {entries.map(({ key, path, group, counts, total }) => (
+          <Card key={key}>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Layers className="h-4 w-4" />
+                <span className="truncate">{group.name}</span>
+              </CardTitle>
+              {path.length > 0 && <CardDescription>{path.join(' / ')}</CardDescription>}
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {/* Barra proporcional con la distribución de estados */}
+              <div className="flex h-2 w-full overflow-hidden rounded-full bg-muted">
+                {DEVICE_STATUSES.map(option => counts[option.value] > 0 && (
+                  <div
+                    key={option.value}
+                    className={option.color}
+                    style={{ width: `${(counts[option.value] / total) * 100}%` }}
+                  />
+                ))}
+              </div>
+              <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+                {DEVICE_STATUSES.map(option => counts[option.value] > 0 && (
+                  <span key={option.value} className="flex items-center gap-1">
+                    <span className={`w-2 h-2 rounded-full ${option.color}`}></span>
+                    {counts[option.value]} {option.label.toLowerCase()}
+                  </span>
+                ))}
+                <span className="text-muted-foreground ml-auto">{total} en total</span>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+};
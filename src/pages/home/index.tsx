@@ -1,4 +1,5 @@
 import {DevicesPreview} from "@/pages/home/components/devices-preview.tsx";
+import {GroupStatus} from "@/pages/home/components/group-status.tsx";
 import {SidebarTrigger} from "@/components/ui/sidebar.tsx";
 import {
   Breadcrumb,
@@ -21,7 +22,8 @@ export const Home = () => <div>
     </Breadcrumb>
   </div>
 
-  <div className={"mt-6 px-2"}>
+  <div className={"mt-6 px-2 space-y-8"}>
+    <GroupStatus />
     <DevicesPreview />
   </div>
 </div>
@@ -0,0 +1,86 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { DecimalSeparator } from '@/lib/readings-export';
+import {
+  IMPORT_FIELDS,
+  TIMESTAMP_UNITS,
+  type ImportField,
+  type ImportMapping,
+  type ImportOptions,
+  type TimestampUnit,
+} from '@/lib/readings-import';
+
+// Valor del select sin columna asignada (los SelectItem no admiten value vacío)
+const NO_COLUMN = 'none';
+
+interface ColumnMappingProps {
+  columns: string[];
+  mapping: ImportMapping;
+  onChange: (mapping: ImportMapping) => void;
+  options: ImportOptions;
+  onOptionsChange: (options: ImportOptions) => void;
+}
+
+// Columna del archivo para cada campo de la lectura y formato de los números y las fechas
+export const ColumnMapping = ({ columns, mapping, onChange, options, onOptionsChange }: ColumnMappingProps) => {
+  const setField = (field: ImportField, column: string) => {
+    const next = { ...mapping };
+    if (column === NO_COLUMN) delete next[field];
+    else next[field] = column;
+    onChange(next);
+  };
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+      {IMPORT_FIELDS.map(field => (
+        <div key={field.value} className="space-y-1">
+          <span className="text-sm font-medium">
+            {field.label}
+            {field.required && <span className="text-destructive"> *</span>}
+          </span>
+          <Select value={mapping[field.value] ?? NO_COLUMN} onValueChange={value => setField(field.value, value)}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_COLUMN}>Sin asignar</SelectItem>
+              {columns.map(column => (
+                <SelectItem key={column} value={column}>{column}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      ))}
+      <div className="space-y-1">
+        <span className="text-sm font-medium">Separador decimal</span>
+        <Select
+          value={options.decimalSeparator}
+          onValueChange={(value: DecimalSeparator) => onOptionsChange({ ...options, decimalSeparator: value })}
+        >
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value=".">Punto (1,234.5)</SelectItem>
+            <SelectItem value=",">Coma (1.234,5)</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <span className="text-sm font-medium">Fechas numéricas en</span>
+        <Select
+          value={options.timestampUnit}
+          onValueChange={(value: TimestampUnit) => onOptionsChange({ ...options, timestampUnit: value })}
+        >
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TIMESTAMP_UNITS.map(unit => (
+              <SelectItem key={unit.value} value={unit.value}>{unit.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+};
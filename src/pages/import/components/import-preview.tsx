@@ -0,0 +1,81 @@
+import { Badge } from '@/components/ui/badge';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import type { MappedRows } from '@/lib/readings-import';
+
+// Filas de muestra y errores que se listan
+const PREVIEW_ROWS = 10;
+const MAX_ERRORS = 10;
+
+const formatValue = (value: number) => value.toFixed(3);
+
+interface ImportPreviewProps {
+  mapped: MappedRows;
+}
+
+// Resumen de la validación y primeras lecturas tal como se van a guardar
+export const ImportPreview = ({ mapped }: ImportPreviewProps) => {
+  const { readings, errors, duplicates } = mapped;
+  const first = readings[0];
+  const last = readings[readings.length - 1];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <Badge>{readings.length} lecturas válidas</Badge>
+        {errors.length > 0 && <Badge variant="destructive">{errors.length} filas con errores</Badge>}
+        {duplicates > 0 && <Badge variant="outline">{duplicates} instantes repetidos en el archivo</Badge>}
+        {first && last && (
+          <span className="text-muted-foreground">
+            {format(first.ts, 'dd/MM/yyyy HH:mm:ss', { locale: es })} – {format(last.ts, 'dd/MM/yyyy HH:mm:ss', { locale: es })}
+          </span>
+        )}
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="text-sm text-destructive space-y-1">
+          {errors.slice(0, MAX_ERRORS).map(error => (
+            <li key={error.row}>Fila {error.row}: {error.reason}</li>
+          ))}
+          {errors.length > MAX_ERRORS && <li>… y {errors.length - MAX_ERRORS} más. Las filas con errores no se importan.</li>}
+        </ul>
+      )}
+
+      {readings.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground border-b">
+                <th className="py-2 pr-4 font-medium">Fila</th>
+                <th className="py-2 pr-4 font-medium">Fecha</th>
+                <th className="py-2 pr-4 font-medium text-right">Accel X</th>
+                <th className="py-2 pr-4 font-medium text-right">Accel Y</th>
+                <th className="py-2 pr-4 font-medium text-right">Accel Z</th>
+                <th className="py-2 pr-4 font-medium text-right">Gyro X</th>
+                <th className="py-2 pr-4 font-medium text-right">Gyro Y</th>
+                <th className="py-2 font-medium text-right">Gyro Z</th>
+              </tr>
+            </thead>
+            <tbody>
+              {readings.slice(0, PREVIEW_ROWS).map(reading => (
+                <tr key={reading.row} className="border-b last:border-0">
+                  <td className="py-2 pr-4 text-muted-foreground">{reading.row}</td>
+                  <td className="py-2 pr-4 whitespace-nowrap">{format(reading.ts, 'dd/MM/yyyy HH:mm:ss.SSS', { locale: es })}</td>
+                  <td className="py-2 pr-4 text-right font-mono tabular-nums">{formatValue(reading.accel.x)}</td>
+                  <td className="py-2 pr-4 text-right font-mono tabular-nums">{formatValue(reading.accel.y)}</td>
+                  <td className="py-2 pr-4 text-right font-mono tabular-nums">{formatValue(reading.accel.z)}</td>
+                  <td className="py-2 pr-4 text-right font-mono tabular-nums">{formatValue(reading.gyro.x)}</td>
+                  <td className="py-2 pr-4 text-right font-mono tabular-nums">{formatValue(reading.gyro.y)}</td>
+                  <td className="py-2 text-right font-mono tabular-nums">{formatValue(reading.gyro.z)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {readings.length > PREVIEW_ROWS && (
+            <p className="mt-2 text-xs text-muted-foreground">Primeras {PREVIEW_ROWS} lecturas en orden cronológico</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
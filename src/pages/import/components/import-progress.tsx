@@ -0,0 +1,68 @@
+import { Link } from 'react-router';
+import { Button } from '@/components/ui/button';
+import { Pause, Play, RotateCcw } from 'lucide-react';
+import type { ImportProgress as ImportProgressState } from '@/hooks/use-readings-import';
+
+const STATUS_LABELS: Record<ImportProgressState['status'], string> = {
+  idle: '',
+  running: 'Importando...',
+  paused: 'En pausa',
+  done: 'Importación completada',
+  error: 'Importación detenida por un error',
+};
+
+interface ImportProgressProps {
+  progress: ImportProgressState;
+  deviceId: string;
+  onPause: () => void;
+  onResume: () => void;
+  // Sin lotes pendientes se vuelve a empezar
+  onRestart: () => void;
+}
+
+// Barra de progreso y controles de la escritura por lotes
+export const ImportProgress = ({ progress, deviceId, onPause, onResume, onRestart }: ImportProgressProps) => {
+  const { status, total, written, skipped, resumable, error } = progress;
+  // Lecturas ya procesadas: escritas u omitidas por existir
+  const percent = total > 0 ? Math.round(((written + skipped) / total) * 100) : 0;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+        <span className="font-medium">{STATUS_LABELS[status]}</span>
+        <span className="text-muted-foreground tabular-nums">
+          {written + skipped} de {total} procesadas · {written} escritas
+          {skipped > 0 && ` · ${skipped} ya existían`}
+        </span>
+      </div>
+      <div className="h-2 w-full overflow-hidden rounded-full bg-muted">
+        <div
+          className={`h-full transition-[width] ${status === 'error' ? 'bg-destructive' : 'bg-primary'}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <div className="flex flex-wrap gap-2">
+        {status === 'running' && (
+          <Button variant="outline" size="sm" onClick={onPause}>
+            <Pause className="h-4 w-4" />
+            Pausar
+          </Button>
+        )}
+        {(status === 'paused' || status === 'error') && (
+          <Button size="sm" onClick={resumable ? onResume : onRestart}>
+            {resumable ? <Play className="h-4 w-4" /> : <RotateCcw className="h-4 w-4" />}
+            {resumable ? 'Reanudar' : 'Reintentar'}
+          </Button>
+        )}
+        {status === 'done' && (
+          <Button variant="outline" size="sm" asChild>
+            <Link to={`/dispositivos/${deviceId}`}>Ver el dispositivo</Link>
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,201 @@
+import { useMemo, useState, type ChangeEvent } from "react";
+import { useSearchParams } from "react-router";
+import { SidebarTrigger } from "@/components/ui/sidebar.tsx";
+import {
+  Breadcrumb,
+  BreadcrumbList,
+  BreadcrumbItem,
+  BreadcrumbPage,
+} from "@/components/ui/breadcrumb.tsx";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card.tsx";
+import { Button } from "@/components/ui/button.tsx";
+import { Input } from "@/components/ui/input.tsx";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select.tsx";
+import { Upload } from "lucide-react";
+import { useDevices } from "@/hooks/use-devices.ts";
+import { useReadingsImport } from "@/hooks/use-readings-import.ts";
+import {
+  IMPORT_FIELDS,
+  guessMapping,
+  guessTimestampUnit,
+  mapRows,
+  parseImportFile,
+  type ImportMapping,
+  type ImportOptions,
+  type ParsedFile,
+} from "@/lib/readings-import.ts";
+import { ColumnMapping } from "@/pages/import/components/column-mapping.tsx";
+import { ImportPreview } from "@/pages/import/components/import-preview.tsx";
+import { ImportProgress } from "@/pages/import/components/import-progress.tsx";
+
+// Parámetro de la URL con el dispositivo preseleccionado
+const DEVICE_PARAM = 'dispositivo';
+
+const DEFAULT_OPTIONS: ImportOptions = { decimalSeparator: '.', timestampUnit: 'ms' };
+
+// Asistente de importación: archivo y dispositivo, asignación de columnas, validación y escritura por lotes
+export const ImportPage = () => {
+  const { data: devices } = useDevices();
+  const [searchParams] = useSearchParams();
+  const [deviceId, setDeviceId] = useState(searchParams.get(DEVICE_PARAM) ?? '');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [parsed, setParsed] = useState<ParsedFile | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [mapping, setMapping] = useState<ImportMapping>({});
+  const [options, setOptions] = useState<ImportOptions>(DEFAULT_OPTIONS);
+  const { progress, start, pause, resume, reset } = useReadingsImport();
+
+  const activeDevices = devices.filter(device => !device.decommissionedAt);
+  const missingFields = IMPORT_FIELDS.filter(field => field.required && !mapping[field.value]);
+  const mapped = useMemo(() => {
+    if (!parsed || IMPORT_FIELDS.some(field => field.required && !mapping[field.value])) return null;
+    return mapRows(parsed.rows, mapping, options);
+  }, [parsed, mapping, options]);
+  const busy = progress.status === 'running';
+  // Con lotes pendientes el destino queda fijado hasta terminar o elegir otro archivo
+  const locked = busy || progress.resumable;
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    reset();
+    setParsed(null);
+    setParseError(null);
+    setFileName(file?.name ?? null);
+    if (!file) return;
+
+    try {
+      const result = parseImportFile(file.name, await file.text());
+      if (!result.rows.length) throw new Error('El archivo no contiene lecturas');
+      const guessed = guessMapping(result.columns);
+      setParsed(result);
+      setMapping(guessed);
+      setOptions({
+        decimalSeparator: result.decimalSeparator,
+        timestampUnit: guessTimestampUnit(result.rows, guessed.ts),
+      });
+    } catch (error) {
+      setParseError(error instanceof Error ? error.message : 'No se pudo leer el archivo');
+    }
+  };
+
+  const handleImport = () => {
+    if (mapped && deviceId) start(deviceId, mapped.readings);
+  };
+
+  return <div>
+    <div className={"flex items-center justify-between"}>
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <SidebarTrigger />
+          </BreadcrumbItem>
+          <BreadcrumbItem>
+            <BreadcrumbPage>Importar lecturas</BreadcrumbPage>
+          </BreadcrumbItem>
+        </BreadcrumbList>
+      </Breadcrumb>
+    </div>
+
+    <div className={"mt-6 px-2 space-y-4"}>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Upload className="h-5 w-5" />
+            1. Archivo y dispositivo
+          </CardTitle>
+          <CardDescription>
+            CSV (separado por "," o por ";" con coma decimal), JSON (lista de lecturas) o NDJSON (una lectura por línea).
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col sm:flex-row gap-3">
+          <Select value={deviceId} onValueChange={setDeviceId} disabled={locked}>
+            <SelectTrigger className="w-full sm:w-64">
+              <SelectValue placeholder="Dispositivo de destino" />
+            </SelectTrigger>
+            <SelectContent>
+              {activeDevices.map(device => (
+                <SelectItem key={device.id} value={device.id}>{device.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="file"
+            accept=".csv,.json,.ndjson,.jsonl,text/csv,application/json"
+            className="sm:w-80"
+            disabled={busy}
+            onChange={handleFile}
+          />
+        </CardContent>
+        {parseError && (
+          <CardContent>
+            <p className="text-sm text-destructive">{fileName}: {parseError}</p>
+          </CardContent>
+        )}
+      </Card>
+
+      {parsed && (
+        <Card>
+          <CardHeader>
+            <CardTitle>2. Columnas</CardTitle>
+            <CardDescription>
+              {parsed.rows.length} filas y {parsed.columns.length} columnas en {fileName}. Las fechas pueden ser ISO 8601
+              o instantes Unix en la unidad elegida; los separadores de miles se ignoran en las columnas numéricas.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <ColumnMapping
+              columns={parsed.columns}
+              mapping={mapping}
+              onChange={setMapping}
+              options={options}
+              onOptionsChange={setOptions}
+            />
+            {missingFields.length > 0 && (
+              <p className="text-sm text-destructive">
+                Falta asignar: {missingFields.map(field => field.label).join(', ')}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {mapped && (
+        <Card>
+          <CardHeader>
+            <CardTitle>3. Validación</CardTitle>
+            <CardDescription>
+              Las lecturas de un instante que ya existe en el dispositivo se omiten al importar.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <ImportPreview mapped={mapped} />
+            <Button
+              disabled={!deviceId || !mapped.readings.length || locked}
+              onClick={handleImport}
+            >
+              <Upload className="h-4 w-4" />
+              {deviceId ? `Importar ${mapped.readings.length} lecturas` : 'Elige un dispositivo'}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {progress.status !== 'idle' && (
+        <Card>
+          <CardHeader>
+            <CardTitle>4. Importación</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ImportProgress
+              progress={progress}
+              deviceId={deviceId}
+              onPause={pause}
+              onResume={resume}
+              onRestart={handleImport}
+            />
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  </div>
+}
@@ -0,0 +1,64 @@
+import { useMemo } from 'react';
+import { CartesianGrid, Legend, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { downsampleMinMax } from '@/lib/downsample';
+import type { ChartPoint } from '@/lib/sensor-series';
+
+// Tamaño fijo (ancho útil de un A4 con márgenes de 15 mm) para que el gráfico se imprima igual en cualquier pantalla
+const CHART_WIDTH = 680;
+const CHART_HEIGHT = 240;
+
+interface ReportChartProps {
+  title: string;
+  unit: string;
+  data: ChartPoint[];
+  series: { key: keyof ChartPoint; label: string; color: string }[];
+}
+
+// Gráfico estático de una serie para el informe: sin animaciones ni interacción
+export const ReportChart = ({ title, unit, data, series }: ReportChartProps) => {
+  const { data: points, decimated, originalCount } = useMemo(
+    () => downsampleMinMax(data, CHART_WIDTH, series.map(item => item.key)),
+    [data, series]
+  );
+  const spanMs = points.length > 1 ? points[points.length - 1].timestamp - points[0].timestamp : 0;
+
+  return (
+    <figure className="space-y-1 break-inside-avoid" data-report-block>
+      <figcaption className="text-sm font-medium">
+        {title} <span className="text-muted-foreground">({unit})</span>
+        {decimated && (
+          <span className="ml-2 text-xs font-normal text-muted-foreground">
+            {points.length} de {originalCount} puntos (mín/máx por intervalo)
+          </span>
+        )}
+      </figcaption>
+      <LineChart width={CHART_WIDTH} height={CHART_HEIGHT} data={points} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+        <XAxis
+          dataKey="timestamp"
+          type="number"
+          domain={['dataMin', 'dataMax']}
+          scale="time"
+          tickFormatter={value => format(value, spanMs > 24 * 60 * 60 * 1000 ? 'dd/MM HH:mm' : 'HH:mm:ss', { locale: es })}
+          fontSize={10}
+        />
+        <YAxis fontSize={10} width={50} />
+        <Legend wrapperStyle={{ fontSize: 11 }} />
+        {series.map(item => (
+          <Line
+            key={item.key}
+            type="monotone"
+            dataKey={item.key}
+            name={item.label}
+            stroke={item.color}
+            dot={false}
+            strokeWidth={1}
+            isAnimationActive={false}
+          />
+        ))}
+      </LineChart>
+    </figure>
+  );
+};
@@ -0,0 +1,18 @@
+// Responsables que firman el informe impreso
+const SIGNATORIES = ['Inspector', 'Revisado por'];
+
+// Casillas en blanco para nombre, firma y fecha de cada responsable
+export const SignatureFields = () => (
+  <div className="grid grid-cols-2 gap-8 break-inside-avoid">
+    {SIGNATORIES.map(role => (
+      <div key={role} className="space-y-6">
+        <p className="text-sm font-semibold">{role}</p>
+        {['Nombre', 'Firma', 'Fecha'].map(field => (
+          <div key={field} className={`border-b border-black ${field === 'Firma' ? 'h-16' : 'h-8'}`}>
+            <span className="text-xs text-muted-foreground">{field}</span>
+          </div>
+        ))}
+      </div>
+    ))}
+  </div>
+);
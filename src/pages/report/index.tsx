@@ -0,0 +1,294 @@
+import { useEffect, useMemo, useRef, useState, type ReactNode } from "react";
+import { Link, useParams, useSearchParams } from "react-router";
+import { ArrowLeft, FileDown, Printer } from "lucide-react";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { useDocument } from "@/hooks/use-firestore";
+import { useReadingsInRange } from "@/hooks/use-readings";
+import { useDeviceAlerts } from "@/hooks/use-alerts";
+import { useDeviceStatus, useDeviceStatusHistoryInRange } from "@/hooks/use-device-status";
+import { useDeviceHierarchy } from "@/hooks/use-devices";
+import { deviceConverter } from "@/lib/converters";
+import { getDeviceStatusOption } from "@/lib/device-status";
+import { getDevicePath } from "@/lib/device-hierarchy";
+import { formatBoltSpec } from "@/lib/devices";
+import { downloadBlob, generateFilename } from "@/lib/export";
+import { getSeverityLabel, getStatusLabel } from "@/lib/alert-rules";
+import { SENSOR_SERIES, toChartPoint } from "@/lib/sensor-series";
+import { parseReportParams } from "@/lib/report";
+import { createReportPdf } from "@/lib/report-pdf";
+import { TIME_RANGES } from "@/lib/time-range";
+import { StatisticsPanel } from "@/pages/device/components/statistics-panel";
+import { ReportChart } from "@/pages/report/components/report-chart";
+import { SignatureFields } from "@/pages/report/components/signature-fields";
+
+const formatDateTime = (date: Date) => format(date, 'dd/MM/yyyy HH:mm:ss', { locale: es });
+
+// Cada sección es un bloque del PDF; con `split` el título va en su propio bloque y el contenido marca los suyos
+const Section = ({ title, split, children }: { title: string; split?: boolean; children: ReactNode }) => (
+  <section className="space-y-3" data-report-block={split ? undefined : true}>
+    <h2 className="text-xl font-semibold border-b pb-1" data-report-block={split || undefined} data-report-keep={split ? 'next' : undefined}>
+      {title}
+    </h2>
+    {children}
+  </section>
+);
+
+// Informe de inspección: portada, datos del dispositivo, historial de estado, gráficos, estadísticas y
+// alertas del intervalo, y casillas de firma. Se descarga como PDF (@/lib/report-pdf) o se imprime.
+export const ReportPage = () => {
+  const { id } = useParams<{ id: string }>();
+  const [searchParams] = useSearchParams();
+
+  // Se recalcula solo si cambia la URL para que la consulta de lecturas no se repita
+  const { bounds, timeRange } = useMemo(() => parseReportParams(searchParams), [searchParams]);
+
+  const { data: device, loading: deviceLoading } = useDocument('devices', id!, deviceConverter);
+  const { data: readings, loading: readingsLoading, hasMore, totalCount } = useReadingsInRange(id, bounds);
+  const { data: alerts, loading: alertsLoading } = useDeviceAlerts(id);
+  const { data: windowStatusChanges } = useDeviceStatusHistoryInRange(id, bounds);
+  const { status } = useDeviceStatus(id);
+  const { sources: hierarchy } = useDeviceHierarchy();
+
+  const chartData = useMemo(
+    () => [...readings].sort((a, b) => a.ts.getTime() - b.ts.getTime()).map(toChartPoint),
+    [readings]
+  );
+
+  const inWindow = (date: Date) => !!bounds && date >= bounds.from && date <= bounds.to;
+  const windowAlerts = alerts
+    .filter(alert => inWindow(alert.createdAt))
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+  const reportRef = useRef<HTMLDivElement>(null);
+  const [generating, setGenerating] = useState(false);
+  const [pdfError, setPdfError] = useState<string | null>(null);
+  const filename = bounds && generateFilename({
+    type: 'informe',
+    variant: id,
+    timeRange,
+    dateRange: { from: bounds.from },
+    extension: 'pdf',
+  });
+
+  // El título del documento es el nombre que propone el navegador al imprimir a PDF
+  useEffect(() => {
+    if (!filename) return;
+
+    const previousTitle = document.title;
+    document.title = filename.replace(/\.pdf$/, '');
+    return () => {
+      document.title = previousTitle;
+    };
+  }, [filename]);
+
+  const downloadPdf = async () => {
+    if (!reportRef.current || !filename) return;
+
+    setGenerating(true);
+    setPdfError(null);
+    try {
+      downloadBlob(await createReportPdf(reportRef.current), filename);
+    } catch (err) {
+      console.error('Error al generar el PDF del informe:', err);
+      setPdfError('No se pudo generar el PDF');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  if (!bounds) {
+    return (
+      <Card className="border-red-200 bg-red-50">
+        <CardContent className="pt-6">
+          <p className="text-red-800">Intervalo del informe no válido. Genera el informe desde la página del dispositivo.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const loading = deviceLoading || readingsLoading || alertsLoading;
+  const statusInfo = getDeviceStatusOption(status);
+  const { site, structure, group } = device ? getDevicePath(device, hierarchy) : {};
+  const period = `${formatDateTime(bounds.from)} – ${formatDateTime(bounds.to)}`;
+  const rangeLabel = TIME_RANGES.find(range => range.value === timeRange && range.value !== 'range')?.label;
+
+  const details = device ? [
+    { label: 'ID', value: device.id },
+    { label: 'Nombre', value: device.name },
+    { label: 'Sitio', value: site?.name },
+    { label: 'Estructura', value: structure?.name },
+    { label: 'Grupo', value: group?.name },
+    { label: 'Ubicación', value: device.location },
+    { label: 'Instalación', value: device.installedAt && format(device.installedAt, 'dd/MM/yyyy', { locale: es }) },
+    { label: 'Perno', value: formatBoltSpec(device.bolt) },
+    { label: 'Estado al generar el informe', value: device.decommissionedAt ? 'De baja' : statusInfo.label },
+    { label: 'Notas', value: device.notes },
+  ] : [];
+
+  // theme-light aplica los colores del tema claro solo al informe, para que la pantalla y el papel coincidan
+  return (
+    <div ref={reportRef} className="theme-light mx-auto max-w-[190mm] space-y-8 bg-background text-foreground print:max-w-none">
+      <div className="flex flex-wrap items-center justify-between gap-2 print:hidden">
+        <Button variant="outline" size="sm" asChild>
+          <Link to={`/dispositivos/${id}`}>
+            <ArrowLeft className="h-4 w-4" />
+            Volver al dispositivo
+          </Link>
+        </Button>
+        <div className="flex items-center gap-3">
+          <span className={`text-xs ${pdfError ? 'text-destructive' : 'text-muted-foreground'}`}>
+            {pdfError ?? (loading ? 'Cargando datos del informe...' : generating ? 'Generando PDF...' : '')}
+          </span>
+          <Button variant="outline" size="sm" disabled={loading || !device} onClick={() => window.print()}>
+            <Printer className="h-4 w-4" />
+            Imprimir
+          </Button>
+          <Button size="sm" disabled={loading || !device || generating} onClick={downloadPdf}>
+            <FileDown className="h-4 w-4" />
+            Descargar PDF
+          </Button>
+        </div>
+      </div>
+
+      {!loading && !device ? (
+        <p className="text-red-800">Dispositivo no encontrado</p>
+      ) : device && (
+        <>
+          {/* Portada */}
+          <section
+            className="flex min-h-[240mm] flex-col justify-between break-after-page rounded-md border p-10 print:border-0 print:p-0"
+            data-report-block
+            data-report-break="after"
+          >
+            <div className="space-y-2">
+              <p className="text-sm uppercase tracking-widest text-muted-foreground">Informe de inspección</p>
+              <h1 className="text-4xl font-bold">{device.name}</h1>
+              <p className="font-mono text-muted-foreground">{device.id}</p>
+              {[site, structure, group].some(Boolean) && (
+                <p className="text-lg">{[site?.name, structure?.name, group?.name].filter(Boolean).join(' / ')}</p>
+              )}
+            </div>
+            <dl className="grid grid-cols-[max-content_1fr] gap-x-6 gap-y-2 text-sm">
+              <dt className="text-muted-foreground">Periodo analizado</dt>
+              <dd>{period}{rangeLabel && ` (${rangeLabel})`}</dd>
+              <dt className="text-muted-foreground">Lecturas</dt>
+              <dd>{loading ? '…' : readings.length}</dd>
+              <dt className="text-muted-foreground">Alertas en el periodo</dt>
+              <dd>{loading ? '…' : windowAlerts.length}</dd>
+              <dt className="text-muted-foreground">Generado</dt>
+              <dd>{formatDateTime(new Date())}</dd>
+            </dl>
+          </section>
+
+          <Section title="Datos del dispositivo">
+            <dl className="grid grid-cols-[max-content_1fr] gap-x-6 gap-y-1 text-sm">
+              {details.filter(detail => !!detail.value).map(detail => (
+                <div key={detail.label} className="contents">
+                  <dt className="text-muted-foreground">{detail.label}</dt>
+                  <dd className="whitespace-pre-line">{detail.value}</dd>
+                </div>
+              ))}
+            </dl>
+          </Section>
+
+          <Section title="Historial de estado">
+            {windowStatusChanges.length ? (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground border-b">
+                    <th className="py-1 pr-4 font-medium">Fecha</th>
+                    <th className="py-1 pr-4 font-medium">Estado</th>
+                    <th className="py-1 pr-4 font-medium">Anterior</th>
+                    <th className="py-1 font-medium">Última lectura</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {windowStatusChanges.map(change => (
+                    <tr key={change.id} className="border-b last:border-0">
+                      <td className="py-1 pr-4 whitespace-nowrap">{formatDateTime(change.createdAt)}</td>
+                      <td className="py-1 pr-4">{getDeviceStatusOption(change.status).label}</td>
+                      <td className="py-1 pr-4">{change.previousStatus ? getDeviceStatusOption(change.previousStatus).label : '—'}</td>
+                      <td className="py-1 whitespace-nowrap">{change.lastActive ? formatDateTime(change.lastActive) : '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="text-sm text-muted-foreground">Sin cambios de estado registrados en el periodo.</p>
+            )}
+          </Section>
+
+          <Section title="Lecturas" split>
+            {hasMore && (
+              <p className="text-sm text-muted-foreground" data-report-block>
+                Se incluyen las {readings.length} lecturas más recientes del periodo
+                {totalCount !== null && ` (de ${totalCount})`}.
+              </p>
+            )}
+            {chartData.length ? (
+              <div className="space-y-6">
+                {SENSOR_SERIES.map(series => (
+                  <ReportChart
+                    key={series.title}
+                    title={series.title}
+                    unit={series.unit}
+                    data={chartData}
+                    series={series.values}
+                  />
+                ))}
+                <div className="break-inside-avoid" data-report-block>
+                  <StatisticsPanel data={chartData} groups={SENSOR_SERIES} subtitle={period} />
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground" data-report-block>
+                {readingsLoading ? 'Cargando lecturas...' : 'Sin lecturas en el periodo.'}
+              </p>
+            )}
+          </Section>
+
+          <Section title="Alertas del periodo">
+            {windowAlerts.length ? (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground border-b">
+                    <th className="py-1 pr-4 font-medium">Fecha</th>
+                    <th className="py-1 pr-4 font-medium">Regla</th>
+                    <th className="py-1 pr-4 font-medium">Severidad</th>
+                    <th className="py-1 pr-4 font-medium">Estado</th>
+                    <th className="py-1 font-medium">Detalle</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {windowAlerts.map(alert => (
+                    <tr key={alert.id} className="border-b last:border-0 break-inside-avoid">
+                      <td className="py-1 pr-4 whitespace-nowrap">{formatDateTime(alert.createdAt)}</td>
+                      <td className="py-1 pr-4">{alert.ruleName}</td>
+                      <td className="py-1 pr-4">{getSeverityLabel(alert.severity)}</td>
+                      <td className="py-1 pr-4">{getStatusLabel(alert.status)}</td>
+                      <td className="py-1">{alert.message}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="text-sm text-muted-foreground">No se dispararon alertas en el periodo.</p>
+            )}
+          </Section>
+
+          <Section title="Observaciones y conformidad">
+            <div className="space-y-8 break-inside-avoid">
+              <div className="space-y-6">
+                {[1, 2, 3].map(line => <div key={line} className="border-b border-black h-6" />)}
+              </div>
+              <SignatureFields />
+            </div>
+          </Section>
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,11 @@
 import { Home } from "@/pages/home";
 import { DevicePage } from "@/pages/device";
+import { DevicesPage } from "@/pages/devices";
+import { CachePage } from "@/pages/cache";
+import { AlertRulesPage } from "@/pages/alert-rules";
+import { AlertsPage } from "@/pages/alerts";
+import { ReportPage } from "@/pages/report";
+import { ImportPage } from "@/pages/import";
 import {createBrowserRouter} from "react-router";
 import {Layout} from "@/layout.tsx";
 
@@ -12,10 +18,34 @@ export const router = createBrowserRouter([
         index: true,
         Component: Home
       },
+      {
+        path: 'dispositivos',
+        Component: DevicesPage
+      },
+      {
+        path: 'dispositivos/importar',
+        Component: ImportPage
+      },
       {
         path: 'dispositivos/:id',
         Component: DevicePage
       },
+      {
+        path: 'dispositivos/:id/informe',
+        Component: ReportPage
+      },
+      {
+        path: 'cache',
+        Component: CachePage
+      },
+      {
+        path: 'alertas',
+        Component: AlertsPage
+      },
+      {
+        path: 'alertas/reglas',
+        Component: AlertRulesPage
+      },
     ],
   },
 ])
\ No newline at end of file
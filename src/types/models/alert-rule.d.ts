@@ -0,0 +1,35 @@
+export type AlertSeverity = 'info' | 'warning' | 'critical'
+
+// Series de una lectura que se pueden vigilar (promedios de la lectura)
+export type AlertMetric =
+  | 'accel_x' | 'accel_y' | 'accel_z' | 'accel_magnitude'
+  | 'gyro_x' | 'gyro_y' | 'gyro_z' | 'gyro_magnitude'
+
+export type AlertAggregate = 'rms' | 'peak' | 'mean'
+
+export type AlertCondition =
+  // El agregado de la métrica en los últimos `windowMinutes` supera (o no alcanza) `threshold`
+  | {
+    type: 'threshold'
+    metric: AlertMetric
+    aggregate: AlertAggregate
+    operator: '>' | '<'
+    threshold: number
+    windowMinutes: number
+  }
+  // No llega ninguna lectura durante `minutes`
+  | {
+    type: 'no-data'
+    minutes: number
+  }
+
+export type AlertRule = {
+  id: string
+  name: string
+  enabled: boolean
+  severity: AlertSeverity
+  // Alcance: un dispositivo, un grupo (Device.groupId) o, sin ninguno de los dos, todos los dispositivos
+  deviceId?: string
+  groupId?: string
+  condition: AlertCondition
+}
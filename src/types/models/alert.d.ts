@@ -0,0 +1,30 @@
+import type { AlertSeverity } from '@/types/models/alert-rule'
+
+export type AlertStatus = 'active' | 'acknowledged' | 'resolved'
+
+export type AlertComment = {
+  text: string
+  createdAt: Date
+}
+
+// Disparo de una regla sobre un dispositivo
+export type Alert = {
+  id: string
+  ruleId: string
+  ruleName: string
+  deviceId: string
+  deviceName: string
+  severity: AlertSeverity
+  status: AlertStatus
+  message: string
+  // Valor observado y umbral de la regla (null en las reglas sin lecturas)
+  value: number | null
+  threshold: number | null
+  // Ventana de lecturas que disparó la regla
+  windowFrom: Date
+  windowTo: Date
+  createdAt: Date
+  acknowledgedAt?: Date
+  resolvedAt?: Date
+  comments: AlertComment[]
+}
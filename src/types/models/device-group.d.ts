@@ -0,0 +1,9 @@
+// Grupo de dispositivos (colección groups); el id es el groupId de los dispositivos
+export type DeviceGroup = {
+  id: string
+  name: string
+  // Estructura a la que pertenece el grupo
+  structureId?: string
+  // Intervalo esperado entre lecturas (s) de los dispositivos del grupo que no definen el suyo
+  expectedIntervalSeconds?: number
+}
@@ -0,0 +1,13 @@
+// Estado de conectividad según el tiempo desde la última lectura y el intervalo esperado
+export type DeviceStatus = 'online' | 'late' | 'offline' | 'never-seen'
+
+// Cambio de estado registrado en devices/{id}/statusHistory
+export type DeviceStatusChange = {
+  id: string
+  status: DeviceStatus
+  // null en el primer estado registrado del dispositivo
+  previousStatus: DeviceStatus | null
+  // Última lectura conocida cuando se produjo el cambio
+  lastActive: Date | null
+  createdAt: Date
+}
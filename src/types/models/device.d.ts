@@ -1,5 +1,28 @@
+import type { DeviceStatus } from '@/types/models/device-status'
+
+// Especificación del perno instrumentado
+export type BoltSpec = {
+  diameterMm?: number
+  // Clase de resistencia (p. ej. 8.8, 10.9)
+  grade?: string
+  nominalTorqueNm?: number
+}
+
 export type Device = {
   id: string
   name: string
-  lastActive: Date
-}
\ No newline at end of file
+  lastActive?: Date
+  // Grupo al que pertenece (las reglas de alerta pueden aplicarse a un grupo entero)
+  groupId?: string
+  // Intervalo esperado entre lecturas (s); si falta se usa el del grupo o el predeterminado
+  expectedIntervalSeconds?: number
+  // Último estado de conectividad registrado y cuándo cambió
+  status?: DeviceStatus
+  statusChangedAt?: Date
+  location?: string
+  installedAt?: Date
+  bolt?: BoltSpec
+  notes?: string
+  // Dado de baja: deja de vigilarse pero conserva sus lecturas
+  decommissionedAt?: Date
+}
@@ -0,0 +1,20 @@
+export type Vector3 = {
+  x: number
+  y: number
+  z: number
+}
+
+export type SensorReading = {
+  id: string
+  ts: Date
+  count: number
+  last: {
+    accel: Vector3
+    gyro: Vector3
+    ts_local: number
+  }
+  avg: {
+    accel: Vector3
+    gyro: Vector3
+  }
+}
@@ -0,0 +1,12 @@
+// Sitio (colección sites): primer nivel de la jerarquía sitio → estructura → grupo → dispositivo
+export type Site = {
+  id: string
+  name: string
+}
+
+// Estructura de un sitio (colección structures), p. ej. una torre o un puente
+export type Structure = {
+  id: string
+  name: string
+  siteId?: string
+}
@@ -0,0 +1,44 @@
+import {
+  computeSpectra,
+  computeSpectrogram,
+  type SpectrogramRequest,
+  type SpectrogramResult,
+  type SpectrumRequest,
+  type SpectrumResult
+} from '@/lib/fft';
+
+// Worker que calcula los espectros y espectrogramas fuera del hilo principal (ver use-spectrum)
+export type SpectrumWorkerTask =
+  | { type: 'spectrum'; request: SpectrumRequest }
+  | { type: 'spectrogram'; request: SpectrogramRequest };
+
+export type SpectrumWorkerRequest = SpectrumWorkerTask & { id: number };
+
+export interface SpectrumWorkerResponse {
+  id: number;
+  result: SpectrumResult | SpectrogramResult | null;
+  error?: string;
+}
+
+const compute = (message: SpectrumWorkerRequest) => {
+  switch (message.type) {
+    case 'spectrum': return computeSpectra(message.request);
+    case 'spectrogram': return computeSpectrogram(message.request);
+  }
+};
+
+self.onmessage = (event: MessageEvent<SpectrumWorkerRequest>) => {
+  const { id } = event.data;
+
+  try {
+    const response: SpectrumWorkerResponse = { id, result: compute(event.data) };
+    self.postMessage(response);
+  } catch (error) {
+    const response: SpectrumWorkerResponse = {
+      id,
+      result: null,
+      error: error instanceof Error ? error.message : 'Error desconocido',
+    };
+    self.postMessage(response);
+  }
+};